@@ -1,8 +1,74 @@
-import React, { useState, useCallback, useRef, useEffect } from 'react';
-import { INITIAL_DIMENSIONS, INITIAL_SOFTWARES } from './constants';
-import { Dimension, Software } from './types';
+import React, { useState, useCallback, useRef, useEffect, useMemo } from 'react';
+import { INITIAL_CATEGORIES, INITIAL_DIMENSIONS, INITIAL_SOFTWARES } from './constants';
+import { Category, Dimension, Software, ProjectMeta, Snapshot, ComparisonData, Evaluator, EvaluationSettings, Attachment } from './types';
+import { DEFAULT_WEIGHT, findOverallBest } from './utils/scoring';
+import { normalizeRawValue, applyNormalization } from './utils/normalization';
+import {
+  applyEvaluatorAggregation,
+  countDisagreements,
+  getEvaluationSettings,
+  projectEvaluatorView,
+  removeEvaluator,
+  setEvaluatorScore,
+  AGGREGATION_LABELS
+} from './utils/evaluators';
+import { DimensionScoringSettings } from './components/DimensionScoringEditor';
+import { generateId } from './utils/id';
+import { useHistory } from './hooks/useHistory';
+import { useSeriesVisibility } from './hooks/useSeriesVisibility';
+import { downloadFile, todayStamp } from './utils/download';
+import { buildProjectFile, parseProjectFile } from './utils/projectFile';
+import { parseCSV, buildComparisonCSV, readComparisonRows, ImportReadResult } from './utils/csv';
+import { buildComparisonWorkbook, readComparisonWorkbook } from './utils/xlsx';
+import { attachmentCellKey, attachmentKindFor, countAttachmentsByCell } from './utils/attachments';
+import { buildProjectBundle, readProjectBundle, ProjectBundle } from './utils/bundle';
+import { countRunsByCell, deleteRun, getRunSettings, metricsForDimension, runsOfSoftware, unmapDimensions } from './utils/runs';
+import { countSamplesByCell, detectionTargetFor, getDetectionTest, unlinkDimensions } from './utils/detection';
+import { setCellTrials, withoutCellTrials } from './utils/trials';
+import { VersionSelection, archivedSoftwareIds, projectVersionView } from './utils/versions';
+import { SharedViewSettings } from './utils/share';
+import {
+  initProjects,
+  createProjectMeta,
+  DEFAULT_PROJECT_NAME,
+  loadProjectData,
+  saveProjectData,
+  deleteProjectData,
+  saveProjectIndex,
+  saveActiveProjectId,
+  loadSnapshots,
+  saveSnapshots
+} from './services/projectStorage';
+import {
+  listAttachments,
+  saveAttachment,
+  getAttachmentBlob,
+  deleteAttachment,
+  deleteProjectAttachments,
+  copyProjectAttachments
+} from './services/attachmentStore';
 import RadarChartVis from './components/RadarChartVis';
+import BarChartVis from './components/BarChartVis';
+import HeatmapVis from './components/HeatmapVis';
+import RankingChartVis from './components/RankingChartVis';
+import ChartTypeSwitcher, { ChartType } from './components/ChartTypeSwitcher';
 import ComparisonTable from './components/ComparisonTable';
+import ProjectSwitcher from './components/ProjectSwitcher';
+import SnapshotPanel from './components/SnapshotPanel';
+import ImportWizard, { ImportMode } from './components/ImportWizard';
+import ExportMenu, { ExportMenuItem } from './components/ExportMenu';
+import ReportPanel from './components/ReportPanel';
+import EvaluatorPanel from './components/EvaluatorPanel';
+import AttachmentPanel from './components/AttachmentPanel';
+import MarkdownText from './components/MarkdownText';
+import AnalysisPanel from './components/AnalysisPanel';
+import RunIngestPanel from './components/RunIngestPanel';
+import RunDetailsPanel from './components/RunDetailsPanel';
+import DetectionPanel from './components/DetectionPanel';
+import TrialsPanel from './components/TrialsPanel';
+import VersionPanel from './components/VersionPanel';
+import ShareDialog from './components/ShareDialog';
+import PresentationMode from './components/PresentationMode';
 import { arrayMove } from '@dnd-kit/sortable';
 import { 
   ShieldCheck, 
@@ -12,118 +78,176 @@ import {
   X,
   Save,
   MessageSquare,
-  Download,
+  FileText,
+  FileSpreadsheet,
   Upload,
-  RotateCcw
+  RotateCcw,
+  History,
+  Undo2,
+  Redo2,
+  FileJson,
+  ScrollText,
+  FolderPlus,
+  Users,
+  Archive,
+  Paperclip,
+  Activity,
+  Bug,
+  Tag,
+  Share2,
+  Presentation
 } from 'lucide-react';
 
-// Simple unique ID generator
-const generateId = () => Math.random().toString(36).substr(2, 9);
-
-// CSV Helper Functions
-const escapeCSV = (str: string | number | undefined) => {
-  if (str === null || str === undefined) return '';
-  const stringValue = String(str);
-  if (stringValue.includes(',') || stringValue.includes('"') || stringValue.includes('\n')) {
-    return `"${stringValue.replace(/"/g, '""')}"`;
-  }
-  return stringValue;
-};
-
-// Robust CSV Parser handling multilines
-const parseCSV = (text: string): string[][] => {
-  const rows: string[][] = [];
-  let currentRow: string[] = [];
-  let currentCell = '';
-  let inQuotes = false;
-  
-  for (let i = 0; i < text.length; i++) {
-    const char = text[i];
-    const nextChar = text[i + 1];
-    
-    if (inQuotes) {
-      if (char === '"') {
-        if (nextChar === '"') {
-          currentCell += '"';
-          i++; // Skip next quote escape
-        } else {
-          inQuotes = false;
-        }
-      } else {
-        currentCell += char;
-      }
-    } else {
-      if (char === '"' && currentCell.length === 0) {
-        // Start of a quoted cell
-        inQuotes = true;
-      } else if (char === ',') {
-        currentRow.push(currentCell);
-        currentCell = '';
-      } else if (char === '\r' || char === '\n') {
-        if (char === '\r' && nextChar === '\n') {
-          i++;
-        }
-        currentRow.push(currentCell);
-        rows.push(currentRow);
-        currentRow = [];
-        currentCell = '';
-      } else {
-        currentCell += char;
-      }
-    }
-  }
-  
-  // Handle last cell/row
-  if (currentCell.length > 0 || currentRow.length > 0) {
-    currentRow.push(currentCell);
-    rows.push(currentRow);
-  }
+function App() {
+  // Load the project list and the active project's data from LocalStorage
+  const [initialState] = useState(initProjects);
+  const [projects, setProjects] = useState<ProjectMeta[]>(initialState.projects);
+  const [activeProjectId, setActiveProjectId] = useState(initialState.activeId);
+  const history = useHistory<ComparisonData>(initialState.data);
+  const data = history.present;
+  const { dimensions, softwares } = data;
+  const categories = data.categories ?? [];
+  const evaluators = data.evaluators ?? [];
+  const evaluation = getEvaluationSettings(data);
+  const updateData = history.set;
+  const [snapshots, setSnapshots] = useState<Snapshot[]>(() => loadSnapshots(initialState.activeId));
+  // Evidence attachments live in IndexedDB and are loaded per project
+  const [attachments, setAttachments] = useState<Attachment[]>([]);
   
-  return rows;
-};
+  // Persistence Effects
+  useEffect(() => {
+    saveProjectData(activeProjectId, data);
+  }, [activeProjectId, data]);
 
-// Storage Keys
-const STORAGE_KEY_DIMS = 'av_benchmark_dimensions_v1';
-const STORAGE_KEY_SW = 'av_benchmark_softwares_v1';
+  useEffect(() => {
+    saveSnapshots(activeProjectId, snapshots);
+  }, [activeProjectId, snapshots]);
 
-function App() {
-  // Initialize state from LocalStorage if available, otherwise use defaults
-  const [dimensions, setDimensions] = useState<Dimension[]>(() => {
-    try {
-      const saved = localStorage.getItem(STORAGE_KEY_DIMS);
-      return saved ? JSON.parse(saved) : INITIAL_DIMENSIONS;
-    } catch (e) {
-      console.warn('Failed to load dimensions from storage', e);
-      return INITIAL_DIMENSIONS;
-    }
-  });
+  useEffect(() => {
+    saveProjectIndex(projects);
+  }, [projects]);
+
+  useEffect(() => {
+    saveActiveProjectId(activeProjectId);
+  }, [activeProjectId]);
 
-  const [softwares, setSoftwares] = useState<Software[]>(() => {
-    try {
-      const saved = localStorage.getItem(STORAGE_KEY_SW);
-      return saved ? JSON.parse(saved) : INITIAL_SOFTWARES;
-    } catch (e) {
-      console.warn('Failed to load softwares from storage', e);
-      return INITIAL_SOFTWARES;
-    }
-  });
-  
-  // Persistence Effects
   useEffect(() => {
-    localStorage.setItem(STORAGE_KEY_DIMS, JSON.stringify(dimensions));
-  }, [dimensions]);
+    let cancelled = false;
+    setAttachments([]);
+    listAttachments(activeProjectId)
+      .then(list => {
+        if (!cancelled) setAttachments(list);
+      })
+      .catch(err => console.error('Failed to load attachments', err));
+    return () => {
+      cancelled = true;
+    };
+  }, [activeProjectId]);
 
+  // Attachments of a deleted software or dimension are kept while undo or a
+  // snapshot can still bring the cell back, and removed once neither can
   useEffect(() => {
-    localStorage.setItem(STORAGE_KEY_SW, JSON.stringify(softwares));
-  }, [softwares]);
+    const states = [...history.entries, ...snapshots.map(snapshot => snapshot.data)];
+    const softwareIds = new Set(states.flatMap(state => state.softwares.map(sw => sw.id)));
+    const dimensionIds = new Set(states.flatMap(state => state.dimensions.map(dim => dim.id)));
+    const orphans = attachments.filter(a =>
+      a.projectId === activeProjectId && (!softwareIds.has(a.softwareId) || !dimensionIds.has(a.dimensionId))
+    );
+    if (orphans.length === 0) return;
+    Promise.all(orphans.map(a => deleteAttachment(a.id)))
+      .then(() => setAttachments(prev => prev.filter(a => !orphans.includes(a))))
+      .catch(err => console.error('Failed to delete attachments', err));
+  }, [history.entries, snapshots, attachments, activeProjectId]);
+
+  // Single-list updates; each call is one undo step unless coalesced
+  const setDimensions = useCallback((updater: (prev: Dimension[]) => Dimension[], coalesceKey?: string) => {
+    updateData(data => ({ ...data, dimensions: updater(data.dimensions) }), coalesceKey);
+  }, [updateData]);
+
+  const setSoftwares = useCallback((updater: (prev: Software[]) => Software[], coalesceKey?: string) => {
+    updateData(data => ({ ...data, softwares: updater(data.softwares) }), coalesceKey);
+  }, [updateData]);
+
+  const setCategories = useCallback((updater: (prev: Category[]) => Category[]) => {
+    updateData(data => ({ ...data, categories: updater(data.categories ?? []) }));
+  }, [updateData]);
+
+  // Undo / Redo Shortcuts (text fields keep their native undo)
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey)) return;
+      const target = e.target as HTMLElement;
+      if (target.tagName === 'TEXTAREA' || (target.tagName === 'INPUT' && (target as HTMLInputElement).type === 'text')) return;
+
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        history.undo();
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault();
+        history.redo();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [history.undo, history.redo]);
 
   // UI State for Modals/Panels
   const [showAddSoftware, setShowAddSoftware] = useState(false);
   const [showAddDimension, setShowAddDimension] = useState(false);
+  const [showAddCategory, setShowAddCategory] = useState(false);
+  const [showSnapshots, setShowSnapshots] = useState(false);
+  const [showReport, setShowReport] = useState(false);
+  const [showEvaluators, setShowEvaluators] = useState(false);
+  const [showRunIngest, setShowRunIngest] = useState(false);
+  // Whose scores the table and charts show; null is the aggregated view
+  const [activeEvaluatorId, setActiveEvaluatorId] = useState<string | null>(null);
+  const activeEvaluator = evaluators.find(e => e.id === activeEvaluatorId) ?? null;
+  // Archived product versions chosen for display instead of the latest results
+  const [versionSelection, setVersionSelection] = useState<VersionSelection>({});
+  const [versionSoftwareId, setVersionSoftwareId] = useState<string | null>(null);
+  const archivedIds = archivedSoftwareIds(data, versionSelection);
+  // Memoized so views keyed on the data (e.g. the analysis) only react to real changes
+  const activeEvaluatorKey = activeEvaluator?.id;
+  const viewData = useMemo(() => projectVersionView(
+    activeEvaluatorKey ? projectEvaluatorView(data, activeEvaluatorKey) : data,
+    versionSelection
+  ), [data, activeEvaluatorKey, versionSelection]);
+  const [chartType, setChartType] = useState<ChartType>('radar');
+  const series = useSeriesVisibility();
+  const activeProject = projects.find(p => p.id === activeProjectId);
+  const activeProjectName = activeProject?.name ?? DEFAULT_PROJECT_NAME;
+  // What the share dialog links to, captured when it opens
+  const [sharing, setSharing] = useState<{ data: ComparisonData; view: SharedViewSettings } | null>(null);
+  const [presenting, setPresenting] = useState(false);
+  const [pendingImport, setPendingImport] = useState<{ fileName: string; result: ImportReadResult } | null>(null);
   
   // File Input Ref
   const fileInputRef = useRef<HTMLInputElement>(null);
 
+  // Cell whose attachments are shown in the viewer panel
+  const [attachmentCell, setAttachmentCell] = useState<{ swId: string; dimId: string } | null>(null);
+  const attachmentSoftware = attachmentCell ? softwares.find(s => s.id === attachmentCell.swId) : undefined;
+  const attachmentDimension = attachmentCell ? dimensions.find(d => d.id === attachmentCell.dimId) : undefined;
+  const attachmentCounts = countAttachmentsByCell(attachments);
+
+  // Cell whose harness runs are shown in the run viewer
+  const [runCell, setRunCell] = useState<{ swId: string; dimId: string } | null>(null);
+  const runSettings = getRunSettings(data);
+  const runSoftware = runCell ? softwares.find(s => s.id === runCell.swId) : undefined;
+  const runDimension = runCell ? dimensions.find(d => d.id === runCell.dimId) : undefined;
+  const runCounts = countRunsByCell(data);
+
+  // Sample detection test; focus opens the missed-sample list of one product
+  const [showDetection, setShowDetection] = useState(false);
+  const [detectionFocus, setDetectionFocus] = useState<{ softwareId: string; category?: string } | null>(null);
+  const sampleCounts = countSamplesByCell(data);
+
+  // Cell whose repeated trials are being edited
+  const [trialCell, setTrialCell] = useState<{ swId: string; dimId: string } | null>(null);
+  const trialSoftware = trialCell ? softwares.find(s => s.id === trialCell.swId) : undefined;
+  const trialDimension = trialCell ? dimensions.find(d => d.id === trialCell.dimId) : undefined;
+
   // State for Description Modal
   const [editingDesc, setEditingDesc] = useState<{
     swId: string;
@@ -135,14 +259,25 @@ function App() {
 
   const [newSoftwareName, setNewSoftwareName] = useState('');
   const [newDimensionName, setNewDimensionName] = useState('');
+  const [newDimensionCategoryId, setNewDimensionCategoryId] = useState('');
+  const [newCategoryName, setNewCategoryName] = useState('');
 
   // --- Handlers ---
 
-  const handleScoreUpdate = useCallback((softwareId: string, dimensionId: string, value: number) => {
+  const handleScoreUpdate = useCallback((softwareId: string, dimensionId: string, value: number | undefined) => {
+    // In an evaluator's view the input edits their own score, the aggregate follows
+    if (activeEvaluator) {
+      updateData(
+        data => setEvaluatorScore(data, softwareId, dimensionId, activeEvaluator.id, value),
+        `evaluator:${activeEvaluator.id}:${softwareId}:${dimensionId}`
+      );
+      return;
+    }
+    if (value === undefined) return;
     setSoftwares(prev => prev.map(sw => {
       if (sw.id === softwareId) {
         return {
-          ...sw,
+          ...withoutCellTrials(sw, dimensionId),
           scores: {
             ...sw.scores,
             [dimensionId]: value
@@ -150,20 +285,56 @@ function App() {
         };
       }
       return sw;
-    }));
-  }, []);
+    }), `score:${softwareId}:${dimensionId}`);
+  }, [activeEvaluator, setSoftwares, updateData]);
+
+  const handleRawValueUpdate = useCallback((softwareId: string, dimensionId: string, value: number | undefined) => {
+    const dim = dimensions.find(d => d.id === dimensionId);
+    setSoftwares(prev => prev.map(sw => {
+      if (sw.id !== softwareId) return sw;
+      const rawValues = { ...(sw.rawValues || {}) };
+      if (value === undefined || !Number.isFinite(value)) {
+        delete rawValues[dimensionId];
+        return { ...withoutCellTrials(sw, dimensionId), rawValues };
+      }
+      rawValues[dimensionId] = value;
+      const score = dim ? normalizeRawValue(value, dim) : null;
+      return {
+        ...withoutCellTrials(sw, dimensionId),
+        rawValues,
+        scores: score === null ? sw.scores : { ...sw.scores, [dimensionId]: score }
+      };
+    }), `raw:${softwareId}:${dimensionId}`);
+  }, [dimensions, setSoftwares]);
 
   const handleUpdateSoftwareDetails = useCallback((id: string, name: string, color: string) => {
     setSoftwares(prev => prev.map(sw => 
       sw.id === id ? { ...sw, name, color } : sw
     ));
-  }, []);
+  }, [setSoftwares]);
 
   const handleUpdateDimensionName = useCallback((id: string, name: string) => {
     setDimensions(prev => prev.map(dim => 
       dim.id === id ? { ...dim, name } : dim
     ));
-  }, []);
+  }, [setDimensions]);
+
+  const handleUpdateDimensionWeight = useCallback((id: string, weight: number) => {
+    setDimensions(prev => prev.map(dim => 
+      dim.id === id ? { ...dim, weight } : dim
+    ), `weight:${id}`);
+  }, [setDimensions]);
+
+  const handleUpdateDimensionScoring = useCallback((id: string, settings: DimensionScoringSettings) => {
+    const dim = dimensions.find(d => d.id === id);
+    if (!dim) return;
+    const updated: Dimension = { ...dim, ...settings };
+    updateData(data => ({
+      ...data,
+      dimensions: data.dimensions.map(d => d.id === id ? updated : d),
+      softwares: applyNormalization(data.softwares, updated)
+    }));
+  }, [dimensions, updateData]);
 
   const handleOpenDescriptionModal = useCallback((softwareId: string, dimensionId: string) => {
     const sw = softwares.find(s => s.id === softwareId);
@@ -179,6 +350,63 @@ function App() {
     }
   }, [softwares, dimensions]);
 
+  // --- Attachment Handlers ---
+  const handleOpenAttachments = useCallback((softwareId: string, dimensionId: string) => {
+    setAttachmentCell({ swId: softwareId, dimId: dimensionId });
+  }, []);
+
+  const addAttachment = (fields: Pick<Attachment, 'kind' | 'name' | 'mimeType' | 'size' | 'url'>, blob?: Blob) => {
+    if (!attachmentCell) return;
+    const attachment: Attachment = {
+      ...fields,
+      id: generateId(),
+      projectId: activeProjectId,
+      softwareId: attachmentCell.swId,
+      dimensionId: attachmentCell.dimId,
+      createdAt: new Date().toISOString()
+    };
+    saveAttachment(attachment, blob)
+      .then(() => setAttachments(prev => [...prev, attachment]))
+      .catch(err => {
+        console.error(err);
+        alert(`保存附件「${attachment.name}」失败，浏览器存储空间可能不足。`);
+      });
+  };
+
+  const handleAddAttachmentFiles = (files: File[]) => {
+    files.forEach(file => addAttachment({
+      kind: attachmentKindFor(file.name, file.type),
+      name: file.name,
+      mimeType: file.type || undefined,
+      size: file.size
+    }, file));
+  };
+
+  const handleAddAttachmentLog = (name: string, text: string) => {
+    const blob = new Blob([text], { type: 'text/plain;charset=utf-8' });
+    addAttachment({
+      kind: 'log',
+      name: name.toLowerCase().endsWith('.txt') || name.toLowerCase().endsWith('.log') ? name : `${name}.log`,
+      mimeType: 'text/plain',
+      size: blob.size
+    }, blob);
+  };
+
+  const handleAddAttachmentLink = (name: string, url: string) => {
+    addAttachment({ kind: 'link', name, url });
+  };
+
+  const handleDeleteAttachment = (id: string) => {
+    const attachment = attachments.find(a => a.id === id);
+    if (!attachment || !window.confirm(`确定要删除附件「${attachment.name}」吗？`)) return;
+    deleteAttachment(id)
+      .then(() => setAttachments(prev => prev.filter(a => a.id !== id)))
+      .catch(err => {
+        console.error(err);
+        alert('删除附件失败。');
+      });
+  };
+
   const handleSaveDescription = () => {
     if (!editingDesc) return;
     
@@ -206,7 +434,7 @@ function App() {
       scores: dimensions.reduce((acc, dim) => ({ ...acc, [dim.id]: 5 }), {}),
       descriptions: {}
     };
-    setSoftwares([...softwares, newSw]);
+    setSoftwares(prev => [...prev, newSw]);
     setNewSoftwareName('');
     setShowAddSoftware(false);
   };
@@ -214,37 +442,242 @@ function App() {
   const handleAddDimension = () => {
     if (!newDimensionName.trim()) return;
     const newId = newDimensionName.toLowerCase().replace(/\s+/g, '_') + '_' + generateId();
-    const newDim: Dimension = { id: newId, name: newDimensionName };
+    const newDim: Dimension = {
+      id: newId,
+      name: newDimensionName,
+      weight: DEFAULT_WEIGHT,
+      categoryId: newDimensionCategoryId || undefined
+    };
     
     // Update existing software to include this new dimension initialized at 0 or 5
-    setSoftwares(prev => prev.map(sw => ({
-      ...sw,
-      scores: { ...sw.scores, [newId]: 5 },
-      descriptions: { ...(sw.descriptions || {}) }
-    })));
-    
-    setDimensions([...dimensions, newDim]);
+    updateData(data => ({
+      ...data,
+      dimensions: [...data.dimensions, newDim],
+      softwares: data.softwares.map(sw => ({
+        ...sw,
+        scores: { ...sw.scores, [newId]: 5 },
+        descriptions: { ...(sw.descriptions || {}) }
+      }))
+    }));
     setNewDimensionName('');
     setShowAddDimension(false);
   };
 
   const handleDeleteSoftware = (id: string) => {
     if (window.confirm("确定要删除该软件吗？")) {
-      setSoftwares(prev => prev.filter(s => s.id !== id));
+      updateData(data => ({
+        ...data,
+        softwares: data.softwares.filter(s => s.id !== id),
+        runs: data.runs?.filter(run => run.softwareId !== id),
+        detection: data.detection && {
+          ...data.detection,
+          verdicts: Object.fromEntries(Object.entries(data.detection.verdicts).filter(([swId]) => swId !== id))
+        }
+      }));
     }
   };
 
   const handleDeleteDimension = (id: string) => {
     if (window.confirm("确定要删除该维度吗？")) {
-      setDimensions(prev => prev.filter(d => d.id !== id));
+      // The dimension's cells go with it, trials included, so nothing refers to the missing id
+      const withoutCells = (list: Software[]) => list.map((sw) => {
+        const { [id]: _score, ...scores } = sw.scores;
+        const { [id]: _raw, ...rawValues } = sw.rawValues ?? {};
+        const { [id]: _description, ...descriptions } = sw.descriptions ?? {};
+        const { [id]: _evaluatorScores, ...evaluatorScores } = sw.evaluatorScores ?? {};
+        const { [id]: _trials, ...trials } = sw.trials ?? {};
+        return { ...sw, scores, rawValues, descriptions, evaluatorScores, trials };
+      });
+      updateData(data => unlinkDimensions(
+        unmapDimensions({
+          ...data,
+          dimensions: data.dimensions.filter(d => d.id !== id),
+          softwares: withoutCells(data.softwares)
+        }, [id]),
+        [id]
+      ));
+    }
+  };
+
+  // --- Category Handlers ---
+  const handleAddCategory = () => {
+    if (!newCategoryName.trim()) return;
+    const newCategory: Category = { id: generateId(), name: newCategoryName.trim() };
+    setCategories(prev => [...prev, newCategory]);
+    setNewCategoryName('');
+    setShowAddCategory(false);
+  };
+
+  const handleRenameCategory = useCallback((id: string, name: string) => {
+    setCategories(prev => prev.map(c => c.id === id ? { ...c, name } : c));
+  }, [setCategories]);
+
+  // Dimensions of a deleted category become uncategorized, nothing else is lost
+  const handleDeleteCategory = useCallback((id: string) => {
+    const category = categories.find(c => c.id === id);
+    if (!category || !window.confirm(`确定要删除分类「${category.name}」吗？其中的维度将变为未分类。`)) return;
+    updateData(data => ({
+      ...data,
+      categories: (data.categories ?? []).filter(c => c.id !== id),
+      dimensions: data.dimensions.map(d => d.categoryId === id ? { ...d, categoryId: undefined } : d)
+    }));
+  }, [categories, updateData]);
+
+  const handleUpdateDimensionCategory = useCallback((id: string, categoryId: string | undefined) => {
+    setDimensions(prev => prev.map(dim => 
+      dim.id === id ? { ...dim, categoryId } : dim
+    ));
+  }, [setDimensions]);
+
+  // --- Evaluator Handlers ---
+  const handleAddEvaluator = (name: string) => {
+    const evaluator: Evaluator = { id: generateId(), name };
+    updateData(data => ({ ...data, evaluators: [...(data.evaluators ?? []), evaluator] }));
+  };
+
+  const handleRenameEvaluator = (id: string, name: string) => {
+    updateData(data => ({
+      ...data,
+      evaluators: (data.evaluators ?? []).map(e => e.id === id ? { ...e, name } : e)
+    }));
+  };
+
+  const handleDeleteEvaluator = (id: string) => {
+    const evaluator = evaluators.find(e => e.id === id);
+    if (!evaluator || !window.confirm(`确定要删除评估人「${evaluator.name}」吗？其全部评分将被移除，汇总评分会重新计算。`)) return;
+    updateData(data => removeEvaluator(data, id));
+  };
+
+  const handleUpdateEvaluation = (settings: EvaluationSettings) => {
+    updateData(data => applyEvaluatorAggregation({ ...data, evaluation: settings }), 'evaluation');
+  };
+
+  // --- Harness Run Handlers ---
+  const handleApplyRuns = (nextData: ComparisonData, newRunCount: number) => {
+    if (newRunCount > 0) createSnapshot(`导入 ${newRunCount} 条运行记录前自动保存`);
+    updateData(() => nextData);
+    setShowRunIngest(false);
+  };
+
+  // Scores already derived from the runs stay as they are
+  const handleClearRuns = () => {
+    if (!window.confirm('确定要清空全部运行记录吗？已换算的实测值与评分会保留。')) return;
+    updateData(data => ({ ...data, runs: [] }));
+  };
+
+  const handleDeleteRun = (id: string) => {
+    updateData(data => deleteRun(data, id));
+  };
+
+  // --- Detection Test Handlers ---
+  const handleOpenDetection = (swId: string, dimId: string) => {
+    const target = detectionTargetFor(getDetectionTest(data), dimId);
+    setDetectionFocus({ softwareId: swId, category: target?.kind === 'category' ? target.category : undefined });
+    setShowDetection(true);
+  };
+
+  // --- Trial Handlers ---
+  const handleSaveTrials = (values: number[]) => {
+    if (!trialCell) return;
+    updateData(data => setCellTrials(data, trialCell.swId, trialCell.dimId, values));
+    setTrialCell(null);
+  };
+
+  // --- Version Handlers ---
+  const handleSelectVersion = (softwareId: string, versionId: string | null) => {
+    setVersionSelection(prev => {
+      const { [softwareId]: _previous, ...rest } = prev;
+      return versionId ? { ...rest, [softwareId]: versionId } : rest;
+    });
+  };
+
+  // --- Project Handlers ---
+  // The current project is already persisted by the effects above
+  const openProject = (id: string, data: ComparisonData) => {
+    setActiveProjectId(id);
+    history.reset(data);
+    setSnapshots(loadSnapshots(id));
+  };
+
+  const handleSwitchProject = (id: string) => {
+    if (id === activeProjectId) return;
+    openProject(id, loadProjectData(id));
+  };
+
+  const handleCreateProject = (name: string) => {
+    const meta = createProjectMeta(generateId(), name);
+    // New projects start with the default dimensions and no softwares
+    const newData = { dimensions: INITIAL_DIMENSIONS, softwares: [], categories: INITIAL_CATEGORIES };
+    saveProjectData(meta.id, newData);
+    setProjects(prev => [...prev, meta]);
+    openProject(meta.id, newData);
+  };
+
+  const handleRenameProject = (id: string, name: string) => {
+    setProjects(prev => prev.map(p => p.id === id ? { ...p, name } : p));
+  };
+
+  const handleDuplicateProject = (id: string) => {
+    const source = projects.find(p => p.id === id);
+    if (!source) return;
+    const sourceData = id === activeProjectId ? data : loadProjectData(id);
+    const meta = createProjectMeta(generateId(), `${source.name} 副本`);
+    saveProjectData(meta.id, sourceData);
+    saveSnapshots(meta.id, id === activeProjectId ? snapshots : loadSnapshots(id));
+    copyProjectAttachments(id, meta.id).catch(err => console.error('Failed to copy attachments', err));
+    setProjects(prev => {
+      const index = prev.findIndex(p => p.id === id);
+      const next = [...prev];
+      next.splice(index + 1, 0, meta);
+      return next;
+    });
+  };
+
+  const handleDeleteProject = (id: string) => {
+    if (projects.length <= 1) return;
+    const project = projects.find(p => p.id === id);
+    if (!project || !window.confirm(`确定要删除项目「${project.name}」吗？该项目的所有数据将被清除。`)) return;
+
+    const remaining = projects.filter(p => p.id !== id);
+    deleteProjectData(id);
+    deleteProjectAttachments(id).catch(err => console.error('Failed to delete attachments', err));
+    setProjects(remaining);
+    if (id === activeProjectId) {
+      openProject(remaining[0].id, loadProjectData(remaining[0].id));
+    }
+  };
+
+  // --- Snapshot Handlers ---
+  const createSnapshot = (name: string) => {
+    const snapshot: Snapshot = {
+      id: generateId(),
+      name,
+      createdAt: new Date().toISOString(),
+      data
+    };
+    setSnapshots(prev => [...prev, snapshot]);
+  };
+
+  const handleDeleteSnapshot = (id: string) => {
+    if (window.confirm('确定要删除该快照吗？')) {
+      setSnapshots(prev => prev.filter(s => s.id !== id));
+    }
+  };
+
+  const handleRestoreSnapshot = (id: string) => {
+    const snapshot = snapshots.find(s => s.id === id);
+    if (!snapshot) return;
+    if (window.confirm(`确定要恢复到快照「${snapshot.name}」吗？当前数据会先自动保存为快照。`)) {
+      createSnapshot(`恢复「${snapshot.name}」前自动保存`);
+      updateData(() => snapshot.data);
     }
   };
 
   // Reset Handler
   const handleReset = () => {
-    if (window.confirm('确定要重置所有数据到默认状态吗？这将清除您所有的自定义修改。')) {
-      setDimensions(INITIAL_DIMENSIONS);
-      setSoftwares(INITIAL_SOFTWARES);
+    if (window.confirm('确定要将当前项目重置到默认状态吗？这将清除该项目的所有自定义修改。')) {
+      createSnapshot('重置前自动保存');
+      updateData(() => ({ dimensions: INITIAL_DIMENSIONS, softwares: INITIAL_SOFTWARES, categories: INITIAL_CATEGORIES }));
       // Effects will automatically update localStorage
     }
   };
@@ -254,45 +687,95 @@ function App() {
     setSoftwares((items) => arrayMove(items, oldIndex, newIndex));
   };
 
-  const handleReorderDimensions = (oldIndex: number, newIndex: number) => {
-    setDimensions((items) => arrayMove(items, oldIndex, newIndex));
+  const handleReorderDimensions = (oldIndex: number, newIndex: number, targetCategoryId?: string | null) => {
+    setDimensions((items) => {
+      const moved = arrayMove(items, oldIndex, newIndex);
+      if (targetCategoryId === undefined) return moved;
+      const movedId = items[oldIndex].id;
+      return moved.map(d => d.id === movedId ? { ...d, categoryId: targetCategoryId ?? undefined } : d);
+    });
   };
 
   // --- Import / Export Handlers ---
   const handleExportCSV = () => {
-    // 1. Header Row: Dimension, Type, [Software Names...]
-    const headers = ['Dimension', 'Type', ...softwares.map(s => escapeCSV(s.name))];
-    const csvRows = [headers.join(',')];
-
-    // 2. Data Rows
-    dimensions.forEach(dim => {
-      // Score Row
-      const scoreRow = [
-        escapeCSV(dim.name),
-        'Score',
-        ...softwares.map(s => s.scores[dim.id] || 0)
-      ];
-      csvRows.push(scoreRow.join(','));
-
-      // Description Row
-      const descRow = [
-        escapeCSV(dim.name),
-        'Description',
-        ...softwares.map(s => escapeCSV(s.descriptions[dim.id] || ''))
-      ];
-      csvRows.push(descRow.join(','));
-    });
+    const csvString = buildComparisonCSV(data);
+    downloadFile(csvString, `av_comparison_${todayStamp()}.csv`, 'text/csv;charset=utf-8;');
+  };
+
+  const handleExportXLSX = async () => {
+    try {
+      const buffer = await buildComparisonWorkbook(data, activeProjectName);
+      downloadFile(buffer, `av_comparison_${todayStamp()}.xlsx`, 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet');
+    } catch (err) {
+      console.error(err);
+      alert('导出 Excel 失败。');
+    }
+  };
+
+  // Full-fidelity export: ids, colors, descriptions, scoring rules and snapshots
+  const handleExportJSON = () => {
+    const projectFile = buildProjectFile(
+      activeProjectName,
+      data,
+      snapshots,
+      activeProject?.createdAt
+    );
+    downloadFile(JSON.stringify(projectFile, null, 2), `av_project_${todayStamp()}.json`, 'application/json');
+  };
 
-    // 3. Download
-    const csvString = '\uFEFF' + csvRows.join('\n'); // Add BOM for Excel UTF-8
-    const blob = new Blob([csvString], { type: 'text/csv;charset=utf-8;' });
-    const url = URL.createObjectURL(blob);
-    const link = document.createElement('a');
-    link.href = url;
-    link.download = `av_comparison_${new Date().toISOString().split('T')[0]}.csv`;
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
+  // Project file plus every attachment of cells that still exist
+  const handleExportBundle = async () => {
+    try {
+      const projectFile = buildProjectFile(activeProjectName, data, snapshots, activeProject?.createdAt);
+      const bundle = await buildProjectBundle(projectFile, attachments, getAttachmentBlob);
+      downloadFile(bundle, `av_bundle_${todayStamp()}.zip`, 'application/zip');
+    } catch (err) {
+      console.error(err);
+      alert('导出项目包失败。');
+    }
+  };
+
+  // JSON project files (and bundles) are imported as a new project so nothing is overwritten
+  const handleImportJSON = (text: string, bundle?: ProjectBundle) => {
+    const result = parseProjectFile(text);
+    if (!result.file) {
+      const shown = result.errors.slice(0, 15).join('\n');
+      const more = result.errors.length > 15 ? `\n……另有 ${result.errors.length - 15} 个问题` : '';
+      alert(`导入失败，项目文件校验未通过：\n\n${shown}${more}`);
+      return;
+    }
+
+    const { project, data, snapshots: importedSnapshots = [] } = result.file;
+    const name = projects.some(p => p.name === project.name) ? `${project.name} (导入)` : project.name;
+    const attachmentLine = bundle ? `\n${bundle.attachments.length} 个附件` : '';
+    const skippedLine = bundle && bundle.errors.length > 0 ? `\n（${bundle.errors.length} 个附件无法读取，将被跳过）` : '';
+    if (!window.confirm(`即将导入项目「${name}」:\n${data.softwares.length} 个软件\n${data.dimensions.length} 个维度\n${importedSnapshots.length} 个快照${attachmentLine}${skippedLine}\n\n将作为新项目添加，不会影响当前项目。`)) {
+      return;
+    }
+
+    const meta = createProjectMeta(generateId(), name);
+    saveProjectData(meta.id, data);
+    saveSnapshots(meta.id, importedSnapshots);
+    setProjects(prev => [...prev, meta]);
+
+    // Attachments get fresh ids so importing the same bundle twice keeps both copies
+    const pending = (bundle?.attachments ?? []).map(({ attachment, blob }) =>
+      saveAttachment({ ...attachment, id: generateId(), projectId: meta.id }, blob)
+    );
+    Promise.all(pending)
+      .catch(err => {
+        console.error(err);
+        alert('部分附件导入失败，浏览器存储空间可能不足。');
+      })
+      .finally(() => openProject(meta.id, data));
+  };
+
+  const handleApplyImport = (nextData: ComparisonData, mode: ImportMode) => {
+    if (!pendingImport) return;
+    const action = mode === 'merge' ? '合并' : '导入';
+    createSnapshot(`${action}「${pendingImport.fileName}」前自动保存`);
+    updateData(() => nextData);
+    setPendingImport(null);
   };
 
   const handleImportClick = () => {
@@ -301,96 +784,66 @@ function App() {
     }
   };
 
+  const exportItems: ExportMenuItem[] = [
+    { key: 'report', label: '对比报告', hint: 'Markdown / HTML，含排名与雷达图', icon: <ScrollText size={16} />, onSelect: () => setShowReport(true) },
+    { key: 'xlsx', label: 'Excel (.xlsx)', hint: '评分、描述与元数据分表', icon: <FileSpreadsheet size={16} />, onSelect: handleExportXLSX },
+    { key: 'csv', label: 'CSV', hint: '兼容旧版导入', icon: <FileText size={16} />, onSelect: handleExportCSV },
+    { key: 'json', label: '完整项目 (JSON)', hint: '包含颜色、规则与快照', icon: <FileJson size={16} />, onSelect: handleExportJSON },
+    { key: 'bundle', label: '项目包 (ZIP)', hint: '完整项目与全部证据附件', icon: <Archive size={16} />, onSelect: handleExportBundle },
+  ];
+
   const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
     if (!file) return;
 
+    if (file.name.toLowerCase().endsWith('.zip')) {
+      file.arrayBuffer()
+        .then(readProjectBundle)
+        .then(bundle => {
+          if (bundle.projectText === null) {
+            alert(`导入失败：\n\n${bundle.errors.join('\n')}`);
+            return;
+          }
+          handleImportJSON(bundle.projectText, bundle);
+        })
+        .catch(err => {
+          console.error(err);
+          alert('导入失败，无法读取该项目包。');
+        })
+        .finally(() => {
+          if (fileInputRef.current) fileInputRef.current.value = '';
+        });
+      return;
+    }
+
+    // Spreadsheets are binary and go through the same validation as CSV
+    if (file.name.toLowerCase().endsWith('.xlsx')) {
+      file.arrayBuffer()
+        .then(readComparisonWorkbook)
+        .then(result => setPendingImport({ fileName: file.name, result }))
+        .catch(err => {
+          console.error(err);
+          alert('导入失败，无法读取该 Excel 文件。');
+        })
+        .finally(() => {
+          if (fileInputRef.current) fileInputRef.current.value = '';
+        });
+      return;
+    }
+
     const reader = new FileReader();
     reader.onload = (e) => {
       const text = e.target?.result as string;
       if (!text) return;
 
-      try {
-        // Use robust parser instead of splitting by line
-        const rows = parseCSV(text);
-        
-        // Filter out empty rows (e.g. trailing newlines)
-        const cleanRows = rows.filter(row => row.length > 0 && !(row.length === 1 && row[0].trim() === ''));
-
-        if (cleanRows.length < 2) throw new Error('Invalid CSV format');
-
-        // Parse Header
-        const headers = cleanRows[0]; 
-        // Expected: Dimension, Type, Software1, Software2...
-        if (headers.length < 3) throw new Error('CSV must have at least Dimension, Type and one Software column');
-
-        // Extract Software Names (Columns 2+)
-        const softwareNames = headers.slice(2);
-        
-        // 1. Create NEW Software List
-        // Preserve ID and Color if software name matches existing state
-        const newSoftwares: Software[] = softwareNames.map(name => {
-          const trimmedName = name.trim();
-          const existing = softwares.find(s => s.name === trimmedName);
-          
-          return {
-            id: existing ? existing.id : generateId(),
-            name: trimmedName,
-            color: existing ? existing.color : `hsl(${Math.random() * 360}, 70%, 50%)`,
-            scores: {},
-            descriptions: {}
-          };
-        });
-
-        const newDimensions: Dimension[] = [];
-        
-        // 2. Process Data Rows
-        for(let i = 1; i < cleanRows.length; i++) {
-           const row = cleanRows[i];
-           if(row.length < 3) continue;
-           
-           const dimName = row[0].trim();
-           const type = row[1].trim().toLowerCase(); // 'score' or 'description'
-           const values = row.slice(2);
-
-           // Find or Create Dimension in our new list
-           let dim = newDimensions.find(d => d.name === dimName);
-           if (!dim) {
-             dim = {
-               id: dimName.toLowerCase().replace(/\s+/g, '_') + '_' + generateId(),
-               name: dimName
-             };
-             newDimensions.push(dim);
-           }
-
-           // Update the corresponding software
-           values.forEach((val, index) => {
-             // Ensure index is within bounds of our new software list
-             if (index < newSoftwares.length) {
-               if (type === 'score') {
-                 newSoftwares[index].scores[dim!.id] = Number(val) || 0;
-               } else if (type === 'description') {
-                 newSoftwares[index].descriptions[dim!.id] = val;
-               }
-             }
-           });
-        }
-
-        // 3. Replace State Completely
-        if (newDimensions.length === 0 || newSoftwares.length === 0) {
-            alert("CSV文件似乎为空或格式不正确。");
-            return;
-        }
-
-        if (window.confirm(`即将导入:\n${newSoftwares.length} 个软件\n${newDimensions.length} 个维度\n\n注意：这将覆盖当前的表格数据！`)) {
-            setDimensions(newDimensions);
-            setSoftwares(newSoftwares);
-        }
-
-      } catch (err) {
-        console.error(err);
-        alert('导入失败，请检查文件格式是否正确。');
+      if (file.name.toLowerCase().endsWith('.json')) {
+        handleImportJSON(text);
+        if (fileInputRef.current) fileInputRef.current.value = '';
+        return;
       }
+
+      // Use robust parser instead of splitting by line; problems show in the wizard
+      setPendingImport({ fileName: file.name, result: readComparisonRows(parseCSV(text)) });
       
       // Reset input
       if (fileInputRef.current) fileInputRef.current.value = '';
@@ -406,7 +859,7 @@ function App() {
         type="file" 
         ref={fileInputRef} 
         onChange={handleFileChange} 
-        accept=".csv" 
+        accept=".xlsx,.csv,.json,.zip" 
         className="hidden" 
       />
 
@@ -415,6 +868,15 @@ function App() {
         <div className="flex items-center space-x-3 mb-4 md:mb-0">
           <ShieldCheck className="text-blue-500 shrink-0" size={32} />
           <h1 className="text-xl font-bold tracking-tight text-white">杀软能力对比</h1>
+          <ProjectSwitcher
+            projects={projects}
+            activeProjectId={activeProjectId}
+            onSwitch={handleSwitchProject}
+            onCreate={handleCreateProject}
+            onRename={handleRenameProject}
+            onDuplicate={handleDuplicateProject}
+            onDelete={handleDeleteProject}
+          />
         </div>
         
         <div className="flex items-center gap-3 w-full md:w-auto flex-wrap justify-center">
@@ -427,19 +889,55 @@ function App() {
               >
                 <RotateCcw size={16} />
               </button>
-              <div className="w-px h-6 bg-gray-600 mx-1"></div>
               <button 
-                onClick={handleExportCSV}
+                onClick={() => setShowSnapshots(true)}
                 className="flex items-center gap-2 px-3 py-2 bg-gray-700 hover:bg-gray-600 text-gray-200 rounded-lg transition-all text-sm font-medium border border-gray-600"
-                title="导出为CSV"
+                title="快照与对比"
               >
-                <Download size={16} />
-                <span className="hidden sm:inline">导出</span>
+                <History size={16} />
+                <span className="hidden sm:inline">快照</span>
+              </button>
+              <button 
+                onClick={history.undo}
+                disabled={!history.canUndo}
+                className="flex items-center gap-2 px-3 py-2 bg-gray-700 hover:bg-gray-600 text-gray-200 rounded-lg transition-all text-sm font-medium border border-gray-600 disabled:opacity-40 disabled:hover:bg-gray-700"
+                title="撤销 (Ctrl+Z)"
+              >
+                <Undo2 size={16} />
+              </button>
+              <button 
+                onClick={history.redo}
+                disabled={!history.canRedo}
+                className="flex items-center gap-2 px-3 py-2 bg-gray-700 hover:bg-gray-600 text-gray-200 rounded-lg transition-all text-sm font-medium border border-gray-600 disabled:opacity-40 disabled:hover:bg-gray-700"
+                title="重做 (Ctrl+Shift+Z)"
+              >
+                <Redo2 size={16} />
+              </button>
+              <div className="w-px h-6 bg-gray-600 mx-1"></div>
+              <ExportMenu items={exportItems} />
+              <button
+                onClick={() => setSharing({
+                  data: viewData,
+                  view: { chartType, hiddenIds: series.hiddenIds, baselineId: series.baselineId },
+                })}
+                className="flex items-center gap-2 px-3 py-2 bg-gray-700 hover:bg-gray-600 text-gray-200 rounded-lg transition-all text-sm font-medium border border-gray-600"
+                title="生成只读分享链接"
+              >
+                <Share2 size={16} />
+                <span className="hidden sm:inline">分享</span>
+              </button>
+              <button
+                onClick={() => setPresenting(true)}
+                className="flex items-center gap-2 px-3 py-2 bg-gray-700 hover:bg-gray-600 text-gray-200 rounded-lg transition-all text-sm font-medium border border-gray-600"
+                title="全屏演示模式（方向键翻页，Esc 退出）"
+              >
+                <Presentation size={16} />
+                <span className="hidden sm:inline">演示</span>
               </button>
               <button 
                 onClick={handleImportClick}
                 className="flex items-center gap-2 px-3 py-2 bg-gray-700 hover:bg-gray-600 text-gray-200 rounded-lg transition-all text-sm font-medium border border-gray-600"
-                title="导入CSV"
+                title="导入 Excel、CSV、JSON 项目文件或项目包"
               >
                 <Upload size={16} />
                 <span className="hidden sm:inline">导入</span>
@@ -490,11 +988,7 @@ function App() {
                <span className="text-sm font-medium">综合最佳</span>
              </div>
              <p className="text-xl font-bold text-white truncate">
-                {softwares.length > 0 ? softwares.reduce((prev, current) => {
-                  const prevTotal = Object.values(prev.scores).reduce((a: number, b: number) => a + b, 0);
-                  const currTotal = Object.values(current.scores).reduce((a: number, b: number) => a + b, 0);
-                  return prevTotal > currTotal ? prev : current;
-                }).name : "暂无"}
+                {findOverallBest(viewData.softwares, viewData.dimensions)?.name ?? "暂无"}
              </p>
            </div>
         </div>
@@ -502,26 +996,120 @@ function App() {
         {/* Visualization & Table */}
         <div className="flex flex-col gap-8 mb-8">
           <div className="flex flex-col space-y-4">
-             <h2 className="text-xl font-semibold text-white">可视化对比</h2>
-             <RadarChartVis softwares={softwares} dimensions={dimensions} />
+             <div className="flex justify-between items-center flex-wrap gap-3">
+               <h2 className="text-xl font-semibold text-white">可视化对比</h2>
+               <ChartTypeSwitcher value={chartType} onChange={setChartType} />
+             </div>
+             {chartType === 'radar' && (
+               <RadarChartVis
+                 softwares={viewData.softwares}
+                 dimensions={dimensions}
+                 categories={categories}
+                 exportSubtitle={`${activeProjectName}${activeEvaluator ? ` · ${activeEvaluator.name}` : ''} · ${todayStamp()}`}
+                 series={series}
+               />
+             )}
+             {chartType === 'bar' && <BarChartVis softwares={viewData.softwares} dimensions={dimensions} series={series} />}
+             {chartType === 'heatmap' && <HeatmapVis softwares={viewData.softwares} dimensions={dimensions} />}
+             {chartType === 'ranking' && <RankingChartVis softwares={viewData.softwares} dimensions={dimensions} />}
+             <AnalysisPanel data={viewData} />
           </div>
           
           <div className="flex flex-col space-y-4">
-            <div className="flex justify-between items-center">
+            <div className="flex justify-between items-center flex-wrap gap-3">
                <h2 className="text-xl font-semibold text-white">详细评分与描述</h2>
-               <span className="text-sm text-gray-400">点击软件或维度名旁的编辑图标修改名称与颜色；拖拽可调整排序。</span>
+               <div className="flex flex-wrap items-center gap-4">
+                 <span className="text-sm text-gray-400">
+                   {activeEvaluator
+                     ? `正在查看「${activeEvaluator.name}」的个人评分，修改只影响该评估人。`
+                     : series.filterTable && series.hiddenIds.some(id => softwares.some(sw => sw.id === id))
+                       ? '已按图表隐藏部分软件列，可在图表下方取消「表格同步隐藏」。'
+                       : '点击软件或维度名旁的编辑图标修改名称与颜色；拖拽可调整排序。'}
+                 </span>
+                 {evaluators.length > 0 && (
+                   <select
+                     value={activeEvaluator?.id ?? ''}
+                     onChange={(e) => setActiveEvaluatorId(e.target.value || null)}
+                     className="bg-gray-800 border border-gray-700 rounded-lg px-2 py-1.5 text-sm text-gray-200 focus:ring-2 focus:ring-blue-500 outline-none"
+                     title="切换汇总评分或单个评估人的评分"
+                   >
+                     <option value="">汇总（{AGGREGATION_LABELS[evaluation.method]}）</option>
+                     {evaluators.map(e => (
+                       <option key={e.id} value={e.id}>{e.name}</option>
+                     ))}
+                   </select>
+                 )}
+                 {archivedIds.length > 0 && (
+                   <button
+                     onClick={() => setVersionSelection({})}
+                     className="flex items-center gap-1.5 px-3 py-1.5 bg-amber-900/30 hover:bg-amber-900/50 text-amber-300 rounded-lg transition-all text-sm border border-amber-700/50 shrink-0"
+                     title="所有产品恢复显示最新版本"
+                   >
+                     <Tag size={16} />
+                     <span>{archivedIds.length} 个产品显示历史版本 · 恢复最新</span>
+                   </button>
+                 )}
+                 <button
+                   onClick={() => setShowRunIngest(true)}
+                   className="flex items-center gap-1.5 px-3 py-1.5 bg-gray-800 hover:bg-gray-700 text-gray-300 rounded-lg transition-all text-sm border border-gray-700 shrink-0"
+                 >
+                   <Activity size={16} />
+                   <span>运行记录</span>
+                 </button>
+                 <button
+                   onClick={() => { setDetectionFocus(null); setShowDetection(true); }}
+                   className="flex items-center gap-1.5 px-3 py-1.5 bg-gray-800 hover:bg-gray-700 text-gray-300 rounded-lg transition-all text-sm border border-gray-700 shrink-0"
+                 >
+                   <Bug size={16} />
+                   <span>样本检测</span>
+                 </button>
+                 <button
+                   onClick={() => setShowEvaluators(true)}
+                   className="flex items-center gap-1.5 px-3 py-1.5 bg-gray-800 hover:bg-gray-700 text-gray-300 rounded-lg transition-all text-sm border border-gray-700 shrink-0"
+                 >
+                   <Users size={16} />
+                   <span>评估人</span>
+                 </button>
+                 <button
+                   onClick={() => setShowAddCategory(true)}
+                   className="flex items-center gap-1.5 px-3 py-1.5 bg-gray-800 hover:bg-gray-700 text-gray-300 rounded-lg transition-all text-sm border border-gray-700 shrink-0"
+                 >
+                   <FolderPlus size={16} />
+                   <span>添加分类</span>
+                 </button>
+               </div>
             </div>
             <ComparisonTable 
               dimensions={dimensions} 
-              softwares={softwares}
+              softwares={viewData.softwares}
+              categories={categories}
               onUpdateScore={handleScoreUpdate}
+              onUpdateRawValue={handleRawValueUpdate}
               onEditDescription={handleOpenDescriptionModal}
+              onOpenAttachments={handleOpenAttachments}
+              onOpenRuns={(swId, dimId) => setRunCell({ swId, dimId })}
+              onOpenDetection={handleOpenDetection}
+              onOpenTrials={(swId, dimId) => setTrialCell({ swId, dimId })}
+              onOpenVersions={setVersionSoftwareId}
               onDeleteDimension={handleDeleteDimension}
               onDeleteSoftware={handleDeleteSoftware}
               onReorderSoftwares={handleReorderSoftwares}
               onReorderDimensions={handleReorderDimensions}
               onUpdateSoftwareDetails={handleUpdateSoftwareDetails}
               onUpdateDimensionName={handleUpdateDimensionName}
+              onUpdateDimensionWeight={handleUpdateDimensionWeight}
+              onUpdateDimensionScoring={handleUpdateDimensionScoring}
+              onUpdateDimensionCategory={handleUpdateDimensionCategory}
+              onRenameCategory={handleRenameCategory}
+              onDeleteCategory={handleDeleteCategory}
+              hiddenSoftwareIds={series.filterTable ? series.hiddenIds : undefined}
+              evaluators={evaluators}
+              disagreementThreshold={evaluation.disagreementThreshold}
+              activeEvaluatorId={activeEvaluator?.id ?? null}
+              attachmentCounts={attachmentCounts}
+              runCounts={runCounts}
+              sampleCounts={sampleCounts}
+              archivedSoftwareIds={archivedIds}
             />
           </div>
         </div>
@@ -570,6 +1158,18 @@ function App() {
               onChange={(e) => setNewDimensionName(e.target.value)}
               onKeyDown={(e) => e.key === 'Enter' && handleAddDimension()}
             />
+            {categories.length > 0 && (
+              <select
+                className="w-full bg-gray-900 border border-gray-600 rounded p-3 text-white mb-4 focus:ring-2 focus:ring-blue-500 outline-none"
+                value={newDimensionCategoryId}
+                onChange={(e) => setNewDimensionCategoryId(e.target.value)}
+              >
+                <option value="">未分类</option>
+                {categories.map(c => (
+                  <option key={c.id} value={c.id}>{c.name}</option>
+                ))}
+              </select>
+            )}
             <div className="flex justify-end space-x-2">
               <button onClick={() => setShowAddDimension(false)} className="px-4 py-2 text-gray-400 hover:text-white transition-colors">取消</button>
               <button onClick={handleAddDimension} className="px-4 py-2 bg-green-600 hover:bg-green-500 text-white rounded font-medium transition-colors">添加</button>
@@ -578,10 +1178,154 @@ function App() {
         </div>
       )}
 
+      {/* Add Category Modal */}
+      {showAddCategory && (
+        <div className="fixed inset-0 bg-black/70 flex items-center justify-center z-50 backdrop-blur-sm p-4">
+          <div className="bg-gray-800 p-6 rounded-lg w-full max-w-md border border-gray-700 shadow-2xl">
+             <div className="flex justify-between items-center mb-4">
+              <h3 className="text-lg font-bold">添加维度分类</h3>
+              <button onClick={() => setShowAddCategory(false)} className="text-gray-400 hover:text-white"><X size={20}/></button>
+            </div>
+            <input
+              autoFocus
+              className="w-full bg-gray-900 border border-gray-600 rounded p-3 text-white mb-4 focus:ring-2 focus:ring-blue-500 outline-none"
+              placeholder="例如：防护能力"
+              value={newCategoryName}
+              onChange={(e) => setNewCategoryName(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && handleAddCategory()}
+            />
+            <div className="flex justify-end space-x-2">
+              <button onClick={() => setShowAddCategory(false)} className="px-4 py-2 text-gray-400 hover:text-white transition-colors">取消</button>
+              <button onClick={handleAddCategory} className="px-4 py-2 bg-green-600 hover:bg-green-500 text-white rounded font-medium transition-colors">添加</button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Snapshot Panel */}
+      {showSnapshots && (
+        <SnapshotPanel
+          snapshots={snapshots}
+          currentData={data}
+          onCreate={createSnapshot}
+          onDelete={handleDeleteSnapshot}
+          onRestore={handleRestoreSnapshot}
+          onClose={() => setShowSnapshots(false)}
+        />
+      )}
+
+      {/* Evaluators */}
+      {showEvaluators && (
+        <EvaluatorPanel
+          evaluators={evaluators}
+          settings={evaluation}
+          disagreementCount={countDisagreements(data)}
+          onAdd={handleAddEvaluator}
+          onRename={handleRenameEvaluator}
+          onDelete={handleDeleteEvaluator}
+          onUpdateSettings={handleUpdateEvaluation}
+          onClose={() => setShowEvaluators(false)}
+        />
+      )}
+
+      {/* Harness Runs */}
+      {showRunIngest && (
+        <RunIngestPanel
+          currentData={data}
+          onApply={handleApplyRuns}
+          onClearRuns={handleClearRuns}
+          onClose={() => setShowRunIngest(false)}
+        />
+      )}
+
+      {runSoftware && runDimension && (
+        <RunDetailsPanel
+          software={runSoftware}
+          dimension={runDimension}
+          runs={runsOfSoftware(data.runs ?? [], runSoftware.id)}
+          metrics={metricsForDimension(runSettings, runDimension.id)}
+          aggregation={runSettings.aggregation}
+          onDeleteRun={handleDeleteRun}
+          onClose={() => setRunCell(null)}
+        />
+      )}
+
+      {trialSoftware && trialDimension && (
+        <TrialsPanel
+          software={trialSoftware}
+          dimension={trialDimension}
+          softwares={softwares}
+          onSave={handleSaveTrials}
+          onClose={() => setTrialCell(null)}
+        />
+      )}
+
+      {versionSoftwareId && (
+        <VersionPanel
+          data={data}
+          softwareId={versionSoftwareId}
+          selection={versionSelection}
+          onSelect={handleSelectVersion}
+          onUpdate={(updater, coalesceKey) => updateData(updater, coalesceKey)}
+          onClose={() => setVersionSoftwareId(null)}
+        />
+      )}
+
+      {/* Sample Detection Test */}
+      {showDetection && (
+        <DetectionPanel
+          data={data}
+          focus={detectionFocus}
+          onUpdate={updater => updateData(updater)}
+          onClose={() => setShowDetection(false)}
+        />
+      )}
+
+      {/* Share Link */}
+      {sharing && (
+        <ShareDialog
+          projectName={activeProjectName}
+          data={sharing.data}
+          view={sharing.view}
+          onClose={() => setSharing(null)}
+        />
+      )}
+
+      {/* Presentation Mode */}
+      {presenting && (
+        <PresentationMode
+          title={activeProjectName}
+          softwares={viewData.softwares.filter(sw => !series.hiddenIds.includes(sw.id))}
+          dimensions={dimensions}
+          categories={categories}
+          onClose={() => setPresenting(false)}
+        />
+      )}
+
+      {/* Report Generator */}
+      {showReport && (
+        <ReportPanel
+          data={data}
+          projectName={activeProjectName}
+          onClose={() => setShowReport(false)}
+        />
+      )}
+
+      {/* Import Wizard */}
+      {pendingImport && (
+        <ImportWizard
+          fileName={pendingImport.fileName}
+          result={pendingImport.result}
+          currentData={data}
+          onApply={handleApplyImport}
+          onCancel={() => setPendingImport(null)}
+        />
+      )}
+
       {/* Edit Description Modal */}
       {editingDesc && (
         <div className="fixed inset-0 bg-black/80 flex items-center justify-center z-50 backdrop-blur-sm p-4">
-          <div className="bg-gray-800 rounded-xl w-full max-w-lg border border-gray-700 shadow-2xl flex flex-col max-h-[90vh]">
+          <div className="bg-gray-800 rounded-xl w-full max-w-4xl border border-gray-700 shadow-2xl flex flex-col max-h-[90vh]">
             <div className="p-5 border-b border-gray-700 flex justify-between items-center bg-gray-900/50 rounded-t-xl">
               <div className="flex items-center gap-3">
                 <div className="bg-blue-900/30 p-2 rounded-lg text-blue-400">
@@ -596,19 +1340,45 @@ function App() {
             </div>
             
             <div className="p-6 flex-1 overflow-y-auto">
-              <textarea
-                autoFocus
-                className="w-full h-48 bg-gray-900 border border-gray-600 rounded-lg p-4 text-white placeholder-gray-600 focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none resize-none leading-relaxed"
-                placeholder="请输入详细的描述内容，例如：该软件在内存占用方面表现优秀，但在高负载扫描时会有卡顿..."
-                value={editingDesc.text}
-                onChange={(e) => setEditingDesc({ ...editingDesc, text: e.target.value })}
-              />
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div className="flex flex-col gap-1.5">
+                  <span className="text-xs text-gray-500">编辑（Markdown）</span>
+                  <textarea
+                    autoFocus
+                    className="w-full h-72 bg-gray-900 border border-gray-600 rounded-lg p-4 text-white placeholder-gray-600 focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none resize-none leading-relaxed font-mono text-sm"
+                    placeholder={'请输入详细的描述内容，例如：\n该软件在内存占用方面表现**优秀**，但在高负载扫描时会有卡顿：\n- 空闲约 80MB\n- 全盘扫描峰值 450MB'}
+                    value={editingDesc.text}
+                    onChange={(e) => setEditingDesc({ ...editingDesc, text: e.target.value })}
+                  />
+                </div>
+                <div className="flex flex-col gap-1.5 min-w-0">
+                  <span className="text-xs text-gray-500">预览</span>
+                  <div className="h-72 overflow-y-auto bg-gray-900/50 border border-gray-700 rounded-lg p-4 text-sm text-gray-200 leading-relaxed">
+                    {editingDesc.text.trim()
+                      ? <MarkdownText>{editingDesc.text}</MarkdownText>
+                      : <p className="text-gray-600">暂无内容</p>}
+                  </div>
+                </div>
+              </div>
               <div className="mt-2 text-right text-xs text-gray-500">
-                支持换行，鼠标悬停时将显示全部内容
+                支持 Markdown：**加粗**、列表、[链接](https://…)、``` 代码块（适合粘贴日志），换行会保留
               </div>
             </div>
 
             <div className="p-5 border-t border-gray-700 flex justify-end space-x-3 bg-gray-900/50 rounded-b-xl">
+              <button
+                onClick={() => handleOpenAttachments(editingDesc.swId, editingDesc.dimId)}
+                className="mr-auto px-4 py-2.5 text-gray-300 hover:text-white hover:bg-gray-700 rounded-lg transition-colors font-medium flex items-center gap-2"
+                title="截图、日志、测试结果与参考链接"
+              >
+                <Paperclip size={18} />
+                证据附件
+                {attachmentCounts[attachmentCellKey(editingDesc.swId, editingDesc.dimId)] > 0 && (
+                  <span className="text-xs px-1.5 py-0.5 rounded-full bg-blue-900/50 text-blue-300">
+                    {attachmentCounts[attachmentCellKey(editingDesc.swId, editingDesc.dimId)]}
+                  </span>
+                )}
+              </button>
               <button 
                 onClick={() => setEditingDesc(null)} 
                 className="px-5 py-2.5 text-gray-300 hover:text-white hover:bg-gray-700 rounded-lg transition-colors font-medium"
@@ -627,6 +1397,21 @@ function App() {
         </div>
       )}
 
+      {/* Evidence Attachment Viewer (opens on top of the description modal) */}
+      {attachmentSoftware && attachmentDimension && (
+        <AttachmentPanel
+          softwareName={attachmentSoftware.name}
+          dimensionName={attachmentDimension.name}
+          attachments={attachments.filter(a => a.softwareId === attachmentSoftware.id && a.dimensionId === attachmentDimension.id)}
+          loadBlob={getAttachmentBlob}
+          onAddFiles={handleAddAttachmentFiles}
+          onAddLog={handleAddAttachmentLog}
+          onAddLink={handleAddAttachmentLink}
+          onDelete={handleDeleteAttachment}
+          onClose={() => setAttachmentCell(null)}
+        />
+      )}
+
     </div>
   );
 }
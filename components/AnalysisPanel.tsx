@@ -0,0 +1,199 @@
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { Components } from 'react-markdown';
+import { AnalysisSettings, ComparisonData } from '../types';
+import { ANALYSIS_PROVIDERS, analysisInputKey, generateComparisonAnalysis, resolveAnalysisSettings } from '../services/geminiService';
+import { loadAnalysisSettings, saveAnalysisSettings } from '../services/projectStorage';
+import MarkdownText from './MarkdownText';
+import AnalysisSettingsDialog from './AnalysisSettingsDialog';
+import { Lightbulb, ChevronDown, ChevronRight, Copy, Check, Settings, Sparkles, Square, Loader2, AlertTriangle } from 'lucide-react';
+
+interface AnalysisPanelProps {
+  data: ComparisonData;
+}
+
+type AnalysisStatus = 'idle' | 'running' | 'done' | 'cancelled' | 'error';
+
+const headingComponents: Components = {
+  h2: ({ children }) => <h4 className="text-base font-semibold text-white mt-6 mb-2 pb-1 border-b border-gray-700">{children}</h4>,
+  h3: ({ children }) => <h5 className="font-semibold text-gray-100 mt-4 mb-1">{children}</h5>,
+};
+
+/**
+ * Collapsible written analysis of the charted data. The offline rules are
+ * rerun whenever the data changes; remote providers only run on request and
+ * stream their answer into the panel.
+ */
+const AnalysisPanel: React.FC<AnalysisPanelProps> = ({ data }) => {
+  const [open, setOpen] = useState(false);
+  const [settings, setSettings] = useState<AnalysisSettings>(() => resolveAnalysisSettings(loadAnalysisSettings()));
+  const [showSettings, setShowSettings] = useState(false);
+  const [analysis, setAnalysis] = useState('');
+  const [status, setStatus] = useState<AnalysisStatus>('idle');
+  const [error, setError] = useState('');
+  // Input key of the data the current text was generated from, to flag it as outdated after edits
+  const [generatedFor, setGeneratedFor] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+  const controllerRef = useRef<AbortController | null>(null);
+
+  const provider = ANALYSIS_PROVIDERS[settings.provider];
+  // Only built while the panel is open; unrelated edits (runs, versions, samples) leave it unchanged
+  const inputKey = useMemo(() => (open ? analysisInputKey(data) : ''), [open, data]);
+  // Read at run time, so the offline rules rerun when the input changes rather than on every edit
+  const dataRef = useRef(data);
+  dataRef.current = data;
+
+  const run = useCallback(() => {
+    controllerRef.current?.abort();
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    setStatus('running');
+    setError('');
+    setAnalysis('');
+    setGeneratedFor(inputKey);
+
+    // Results of a superseded request are dropped
+    const isCurrent = () => controllerRef.current === controller;
+    generateComparisonAnalysis(dataRef.current, settings, {
+      signal: controller.signal,
+      onChunk: text => isCurrent() && setAnalysis(text),
+    })
+      .then(text => {
+        if (!isCurrent()) return;
+        setAnalysis(text);
+        setStatus('done');
+      })
+      .catch(err => {
+        if (!isCurrent()) return;
+        if (controller.signal.aborted) {
+          setStatus('cancelled');
+        } else {
+          setError(err instanceof Error ? err.message : String(err));
+          setStatus('error');
+        }
+      });
+  }, [inputKey, settings]);
+
+  const cancel = () => controllerRef.current?.abort();
+
+  useEffect(() => {
+    if (open && !provider.remote) run();
+  }, [open, provider, run]);
+
+  useEffect(() => () => controllerRef.current?.abort(), []);
+
+  const handleSaveSettings = (next: AnalysisSettings) => {
+    const resolved = resolveAnalysisSettings(next);
+    saveAnalysisSettings(resolved);
+    controllerRef.current?.abort();
+    controllerRef.current = null;
+    setSettings(resolved);
+    setAnalysis('');
+    setError('');
+    setStatus('idle');
+    setGeneratedFor(null);
+    setShowSettings(false);
+  };
+
+  const handleCopy = () => {
+    navigator.clipboard.writeText(analysis)
+      .then(() => {
+        setCopied(true);
+        setTimeout(() => setCopied(false), 1500);
+      })
+      .catch(err => {
+        console.error(err);
+        alert('复制失败，浏览器未允许访问剪贴板，请手动选中文本复制。');
+      });
+  };
+
+  const running = status === 'running';
+  const outdated = provider.remote && !running && analysis !== '' && generatedFor !== inputKey;
+  const subtitle = provider.remote
+    ? `${provider.label} · ${settings.model.trim() || '默认模型'}`
+    : '基于评分规则离线生成';
+
+  return (
+    <div className="bg-gray-800 rounded-xl border border-gray-700 shadow-lg">
+      <div className="flex items-center justify-between gap-3 px-4 py-3">
+        <button
+          onClick={() => setOpen(!open)}
+          className="flex items-center gap-2 text-gray-200 hover:text-white font-semibold min-w-0"
+        >
+          {open ? <ChevronDown size={18} /> : <ChevronRight size={18} />}
+          <Lightbulb size={18} className="text-amber-400" />
+          <span>对比分析</span>
+          <span className="text-xs font-normal text-gray-500 truncate">{subtitle}</span>
+        </button>
+        <div className="flex items-center gap-3 shrink-0">
+          {open && provider.remote && (running ? (
+            <button
+              onClick={cancel}
+              className="flex items-center gap-1 text-xs text-red-300 hover:text-red-200"
+              title="中断当前请求"
+            >
+              <Square size={12} /> 停止
+            </button>
+          ) : (
+            <button
+              onClick={run}
+              className="flex items-center gap-1 text-xs text-blue-300 hover:text-blue-200"
+            >
+              <Sparkles size={14} /> {analysis ? '重新生成' : '生成'}
+            </button>
+          ))}
+          {open && analysis && !running && (
+            <button
+              onClick={handleCopy}
+              className="flex items-center gap-1 text-xs text-gray-400 hover:text-white"
+              title="复制为 Markdown"
+            >
+              {copied ? <Check size={14} /> : <Copy size={14} />}
+              {copied ? '已复制' : '复制'}
+            </button>
+          )}
+          <button
+            onClick={() => setShowSettings(true)}
+            className="text-gray-400 hover:text-white"
+            title="分析设置"
+          >
+            <Settings size={16} />
+          </button>
+        </div>
+      </div>
+      {open && (
+        <div className="px-6 pb-6 pt-2 border-t border-gray-700 text-sm text-gray-300 leading-relaxed">
+          {status === 'error' && (
+            <div className="flex items-start gap-2 my-3 p-3 rounded-lg border border-red-800 bg-red-900/20 text-red-200 text-xs">
+              <AlertTriangle size={16} className="shrink-0 mt-0.5" />
+              <span className="whitespace-pre-wrap break-words">{error}</span>
+            </div>
+          )}
+          {status === 'cancelled' && (
+            <p className="my-3 text-xs text-gray-500">已取消生成{analysis ? '，以下为中断前收到的内容' : ''}。</p>
+          )}
+          {outdated && (
+            <p className="my-3 text-xs text-amber-300/80">评分已修改，以下分析基于修改前的数据，可点击「重新生成」更新。</p>
+          )}
+          {running && !analysis && (
+            <p className="flex items-center gap-2 my-3 text-xs text-gray-400">
+              <Loader2 size={14} className="animate-spin" /> 等待模型响应…
+            </p>
+          )}
+          {status === 'idle' && provider.remote && (
+            <p className="my-3 text-xs text-gray-500">点击「生成」，通过 {provider.label} 生成对比分析。</p>
+          )}
+          {analysis && <MarkdownText components={headingComponents}>{analysis}</MarkdownText>}
+        </div>
+      )}
+      {showSettings && (
+        <AnalysisSettingsDialog
+          settings={settings}
+          onSave={handleSaveSettings}
+          onClose={() => setShowSettings(false)}
+        />
+      )}
+    </div>
+  );
+};
+
+export default AnalysisPanel;
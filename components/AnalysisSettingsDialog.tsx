@@ -0,0 +1,154 @@
+import React, { useState } from 'react';
+import { AnalysisProviderId, AnalysisSettings } from '../types';
+import { ANALYSIS_PROVIDERS, DEFAULT_PROMPT_TEMPLATE, PROMPT_PLACEHOLDERS, chatCompletionsUrl } from '../services/geminiService';
+import { X, Settings, RotateCcw } from 'lucide-react';
+
+interface AnalysisSettingsDialogProps {
+  settings: AnalysisSettings;
+  onSave: (settings: AnalysisSettings) => void;
+  onClose: () => void;
+}
+
+const PROVIDER_HINTS: Record<AnalysisProviderId, string> = {
+  rules: '按评分规则在本地生成，无需网络，结果固定',
+  openai: '调用 OpenAI 或兼容其接口的本地模型服务（如 vLLM、Ollama、LM Studio），流式显示生成内容',
+};
+
+const inputClass = 'w-full bg-gray-900 border border-gray-600 rounded p-2 text-white text-sm focus:ring-2 focus:ring-blue-500 outline-none';
+
+// Edits a draft of the analysis settings; nothing is stored until 保存
+const AnalysisSettingsDialog: React.FC<AnalysisSettingsDialogProps> = ({ settings, onSave, onClose }) => {
+  const [draft, setDraft] = useState(settings);
+  const update = (patch: Partial<AnalysisSettings>) => setDraft(prev => ({ ...prev, ...patch }));
+  const remote = ANALYSIS_PROVIDERS[draft.provider].remote;
+
+  return (
+    <div className="fixed inset-0 bg-black/80 flex items-center justify-center z-50 backdrop-blur-sm p-4">
+      <div className="bg-gray-800 rounded-xl w-full max-w-2xl border border-gray-700 shadow-2xl flex flex-col max-h-[90vh]">
+        <div className="p-5 border-b border-gray-700 flex justify-between items-center bg-gray-900/50 rounded-t-xl">
+          <div className="flex items-center gap-3">
+            <div className="bg-blue-900/30 p-2 rounded-lg text-blue-400">
+              <Settings size={20} />
+            </div>
+            <div>
+              <h3 className="text-lg font-bold text-white">分析设置</h3>
+              <p className="text-sm text-gray-400">选择对比分析的生成方式，设置仅保存在当前浏览器</p>
+            </div>
+          </div>
+          <button onClick={onClose} className="text-gray-500 hover:text-white transition-colors"><X size={24}/></button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-5 flex flex-col gap-6">
+          <section className="flex flex-col gap-2">
+            {(Object.keys(ANALYSIS_PROVIDERS) as AnalysisProviderId[]).map(id => (
+              <label
+                key={id}
+                className={`flex items-start gap-3 p-3 rounded-lg border cursor-pointer transition-colors ${draft.provider === id ? 'border-blue-500 bg-blue-900/20' : 'border-gray-700 hover:border-gray-600'}`}
+              >
+                <input
+                  type="radio"
+                  name="analysis-provider"
+                  checked={draft.provider === id}
+                  onChange={() => update({ provider: id })}
+                  className="mt-1 accent-blue-500"
+                />
+                <span>
+                  <span className="block text-sm text-gray-200">{ANALYSIS_PROVIDERS[id].label}</span>
+                  <span className="block text-xs text-gray-500">{PROVIDER_HINTS[id]}</span>
+                </span>
+              </label>
+            ))}
+          </section>
+
+          {remote && (
+            <>
+              <section className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                <label className="flex flex-col gap-1 sm:col-span-2">
+                  <span className="text-sm text-gray-300">接口地址</span>
+                  <input
+                    className={inputClass}
+                    placeholder="http://localhost:8000/v1"
+                    value={draft.endpoint}
+                    onChange={(e) => update({ endpoint: e.target.value })}
+                  />
+                  {draft.endpoint.trim() && (
+                    <span className="text-xs text-gray-500 break-all">请求地址：{chatCompletionsUrl(draft.endpoint)}</span>
+                  )}
+                </label>
+                <label className="flex flex-col gap-1">
+                  <span className="text-sm text-gray-300">模型名称</span>
+                  <input
+                    className={inputClass}
+                    placeholder="例如：qwen2.5-7b-instruct"
+                    value={draft.model}
+                    onChange={(e) => update({ model: e.target.value })}
+                  />
+                </label>
+                <label className="flex flex-col gap-1">
+                  <span className="text-sm text-gray-300">超时（秒）</span>
+                  <input
+                    type="number"
+                    min="5"
+                    max="600"
+                    className={inputClass}
+                    value={draft.timeoutSeconds}
+                    onChange={(e) => update({ timeoutSeconds: Number(e.target.value) || 0 })}
+                  />
+                  <span className="text-xs text-gray-500">超过该时间没有收到新内容即中断请求</span>
+                </label>
+                <label className="flex flex-col gap-1 sm:col-span-2">
+                  <span className="text-sm text-gray-300">API Key</span>
+                  <input
+                    type="password"
+                    autoComplete="off"
+                    className={inputClass}
+                    placeholder="本地服务通常无需填写"
+                    value={draft.apiKey}
+                    onChange={(e) => update({ apiKey: e.target.value })}
+                  />
+                  <span className="text-xs text-gray-500">仅保存在本浏览器中，不会写入项目文件或导出内容</span>
+                </label>
+              </section>
+
+              <section className="flex flex-col gap-2">
+                <div className="flex items-center justify-between">
+                  <span className="text-sm text-gray-300">提示词模板</span>
+                  <button
+                    onClick={() => update({ promptTemplate: DEFAULT_PROMPT_TEMPLATE })}
+                    className="flex items-center gap-1 text-xs text-gray-400 hover:text-white"
+                  >
+                    <RotateCcw size={12} /> 恢复默认
+                  </button>
+                </div>
+                <textarea
+                  className={`${inputClass} h-56 font-mono text-xs leading-relaxed resize-y`}
+                  value={draft.promptTemplate}
+                  onChange={(e) => update({ promptTemplate: e.target.value })}
+                />
+                <ul className="text-xs text-gray-500 flex flex-col gap-0.5">
+                  {PROMPT_PLACEHOLDERS.map(p => (
+                    <li key={p.key}>
+                      <code className="text-amber-200">{p.key}</code> {p.label}
+                    </li>
+                  ))}
+                </ul>
+              </section>
+            </>
+          )}
+        </div>
+
+        <div className="p-4 border-t border-gray-700 flex justify-end gap-2">
+          <button onClick={onClose} className="px-4 py-2 text-sm text-gray-300 hover:text-white">取消</button>
+          <button
+            onClick={() => onSave(draft)}
+            className="px-4 py-2 bg-blue-600 hover:bg-blue-500 text-white rounded text-sm font-medium"
+          >
+            保存
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default AnalysisSettingsDialog;
@@ -0,0 +1,321 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Attachment, AttachmentKind } from '../types';
+import {
+  ATTACHMENT_KIND_LABELS,
+  TEXT_PREVIEW_LIMIT,
+  formatFileSize,
+  isImageAttachment,
+  isTextAttachment,
+  normalizeUrl
+} from '../utils/attachments';
+import { downloadFile } from '../utils/download';
+import { X, Paperclip, Upload, ScrollText, Link, Image, FileText, File as FileIcon, Trash2, Download, ExternalLink } from 'lucide-react';
+
+interface AttachmentPanelProps {
+  softwareName: string;
+  dimensionName: string;
+  attachments: Attachment[];
+  loadBlob: (id: string) => Promise<Blob | null>;
+  onAddFiles: (files: File[]) => void;
+  onAddLog: (name: string, text: string) => void;
+  onAddLink: (name: string, url: string) => void;
+  onDelete: (id: string) => void;
+  onClose: () => void;
+}
+
+type AddMode = 'log' | 'link' | null;
+
+const KIND_ICONS: Record<AttachmentKind, React.ReactNode> = {
+  screenshot: <Image size={16} />,
+  log: <ScrollText size={16} />,
+  file: <FileIcon size={16} />,
+  link: <Link size={16} />,
+};
+
+const formatDate = (iso: string) => new Date(iso).toLocaleString();
+
+interface PreviewState {
+  attachmentId: string;
+  blob: Blob | null;
+  objectUrl: string | null;
+  text: string | null;
+}
+
+// Shows one attachment: images inline, text files as plain text, links and other files as actions
+const AttachmentPreview: React.FC<{ attachment: Attachment; loadBlob: AttachmentPanelProps['loadBlob'] }> = ({
+  attachment,
+  loadBlob,
+}) => {
+  const [preview, setPreview] = useState<PreviewState | null>(null);
+  const [error, setError] = useState(false);
+
+  useEffect(() => {
+    if (attachment.kind === 'link') return;
+    let cancelled = false;
+    let objectUrl: string | null = null;
+    setPreview(null);
+    setError(false);
+
+    loadBlob(attachment.id)
+      .then(async (blob) => {
+        if (cancelled) return;
+        if (!blob) {
+          setError(true);
+          return;
+        }
+        objectUrl = isImageAttachment(attachment) ? URL.createObjectURL(blob) : null;
+        const text = isTextAttachment(attachment) && blob.size <= TEXT_PREVIEW_LIMIT ? await blob.text() : null;
+        if (!cancelled) setPreview({ attachmentId: attachment.id, blob, objectUrl, text });
+      })
+      .catch(err => {
+        console.error(err);
+        if (!cancelled) setError(true);
+      });
+
+    return () => {
+      cancelled = true;
+      if (objectUrl) URL.revokeObjectURL(objectUrl);
+    };
+  }, [attachment, loadBlob]);
+
+  if (attachment.kind === 'link') {
+    return (
+      <div className="flex flex-col gap-3">
+        <p className="text-sm text-gray-300 break-all">{attachment.url}</p>
+        <a
+          href={attachment.url}
+          target="_blank"
+          rel="noopener noreferrer"
+          className="self-start flex items-center gap-2 px-3 py-2 bg-blue-600 hover:bg-blue-500 text-white rounded text-sm font-medium"
+        >
+          <ExternalLink size={16} /> 打开链接
+        </a>
+      </div>
+    );
+  }
+
+  if (error) return <p className="text-sm text-red-400">无法读取该附件，文件可能已被浏览器清除。</p>;
+  if (!preview || preview.attachmentId !== attachment.id) return <p className="text-sm text-gray-500">加载中…</p>;
+
+  return (
+    <div className="flex flex-col gap-3 min-h-0">
+      <button
+        onClick={() => preview.blob && downloadFile(preview.blob, attachment.name, attachment.mimeType || 'application/octet-stream')}
+        className="self-start flex items-center gap-2 px-3 py-1.5 bg-gray-700 hover:bg-gray-600 text-gray-200 rounded text-sm border border-gray-600"
+      >
+        <Download size={14} /> 下载
+      </button>
+      {preview.objectUrl && (
+        <img src={preview.objectUrl} alt={attachment.name} className="max-w-full rounded border border-gray-700" />
+      )}
+      {preview.text !== null && (
+        <pre className="bg-gray-900 border border-gray-700 rounded p-3 text-xs text-gray-300 whitespace-pre-wrap break-words overflow-auto max-h-[50vh]">
+          {preview.text}
+        </pre>
+      )}
+      {!preview.objectUrl && preview.text === null && (
+        <p className="text-sm text-gray-500">该文件类型无法预览，请下载后查看。</p>
+      )}
+    </div>
+  );
+};
+
+// Evidence files and links attached to one software/dimension cell
+const AttachmentPanel: React.FC<AttachmentPanelProps> = ({
+  softwareName,
+  dimensionName,
+  attachments,
+  loadBlob,
+  onAddFiles,
+  onAddLog,
+  onAddLink,
+  onDelete,
+  onClose,
+}) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [addMode, setAddMode] = useState<AddMode>(null);
+  const [draftName, setDraftName] = useState('');
+  const [draftBody, setDraftBody] = useState('');
+  const [selectedId, setSelectedId] = useState<string | null>(attachments[0]?.id ?? null);
+  const selected = attachments.find(a => a.id === selectedId) ?? attachments[0] ?? null;
+  const draftUrl = addMode === 'link' ? normalizeUrl(draftBody) : null;
+
+  const resetDraft = (mode: AddMode) => {
+    setAddMode(mode);
+    setDraftName('');
+    setDraftBody('');
+  };
+
+  const handleSubmitDraft = () => {
+    if (addMode === 'log' && draftBody.trim()) {
+      onAddLog(draftName.trim() || '日志片段', draftBody);
+      resetDraft(null);
+    } else if (addMode === 'link' && draftUrl) {
+      onAddLink(draftName.trim() || draftUrl, draftUrl);
+      resetDraft(null);
+    }
+  };
+
+  // Screenshots can be pasted straight from the clipboard
+  const handlePaste = (e: React.ClipboardEvent) => {
+    const images = Array.from(e.clipboardData.files).filter(f => f.type.startsWith('image/'));
+    if (images.length === 0) return;
+    e.preventDefault();
+    const stamp = new Date().toISOString().replace(/[:.]/g, '-');
+    onAddFiles(images.map((f, i) =>
+      new File([f], `截图-${stamp}${images.length > 1 ? `-${i + 1}` : ''}.${f.type.split('/')[1] || 'png'}`, { type: f.type })
+    ));
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/80 flex items-center justify-center z-50 backdrop-blur-sm p-4" onPaste={handlePaste}>
+      <div className="bg-gray-800 rounded-xl w-full max-w-5xl border border-gray-700 shadow-2xl flex flex-col max-h-[90vh]">
+        <div className="p-5 border-b border-gray-700 flex justify-between items-center bg-gray-900/50 rounded-t-xl">
+          <div className="flex items-center gap-3">
+            <div className="bg-blue-900/30 p-2 rounded-lg text-blue-400">
+              <Paperclip size={20} />
+            </div>
+            <div>
+              <h3 className="text-lg font-bold text-white">证据附件</h3>
+              <p className="text-sm text-gray-400">{softwareName} - {dimensionName}</p>
+            </div>
+          </div>
+          <button onClick={onClose} className="text-gray-500 hover:text-white transition-colors"><X size={24}/></button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto flex flex-col lg:flex-row min-h-0">
+          {/* Attachment List */}
+          <div className="lg:w-80 shrink-0 p-5 border-b lg:border-b-0 lg:border-r border-gray-700 flex flex-col gap-4">
+            <input
+              type="file"
+              multiple
+              ref={fileInputRef}
+              className="hidden"
+              onChange={(e) => {
+                const files = Array.from(e.target.files ?? []);
+                if (files.length > 0) onAddFiles(files);
+                e.target.value = '';
+              }}
+            />
+            <div className="grid grid-cols-3 gap-2">
+              <button
+                onClick={() => fileInputRef.current?.click()}
+                className="flex flex-col items-center gap-1 px-2 py-2 bg-gray-700 hover:bg-gray-600 text-gray-200 rounded text-xs border border-gray-600"
+                title="截图、测试结果等任意文件"
+              >
+                <Upload size={16} /> 上传文件
+              </button>
+              <button
+                onClick={() => resetDraft(addMode === 'log' ? null : 'log')}
+                className={`flex flex-col items-center gap-1 px-2 py-2 rounded text-xs border ${addMode === 'log' ? 'bg-blue-900/30 border-blue-500 text-blue-300' : 'bg-gray-700 hover:bg-gray-600 text-gray-200 border-gray-600'}`}
+              >
+                <ScrollText size={16} /> 日志片段
+              </button>
+              <button
+                onClick={() => resetDraft(addMode === 'link' ? null : 'link')}
+                className={`flex flex-col items-center gap-1 px-2 py-2 rounded text-xs border ${addMode === 'link' ? 'bg-blue-900/30 border-blue-500 text-blue-300' : 'bg-gray-700 hover:bg-gray-600 text-gray-200 border-gray-600'}`}
+              >
+                <Link size={16} /> 参考链接
+              </button>
+            </div>
+            <p className="text-[11px] text-gray-500">提示：在此窗口中按 Ctrl+V 可直接粘贴截图。</p>
+
+            {addMode && (
+              <div className="flex flex-col gap-2 bg-gray-900/50 border border-gray-700 rounded-lg p-3">
+                <input
+                  className="bg-gray-900 border border-gray-600 rounded p-2 text-white text-sm focus:ring-2 focus:ring-blue-500 outline-none"
+                  placeholder={addMode === 'log' ? '名称（可选），例如：扫描日志' : '名称（可选），例如：厂商白皮书'}
+                  value={draftName}
+                  onChange={(e) => setDraftName(e.target.value)}
+                />
+                {addMode === 'log' ? (
+                  <textarea
+                    autoFocus
+                    className="h-32 bg-gray-900 border border-gray-600 rounded p-2 text-white text-xs font-mono focus:ring-2 focus:ring-blue-500 outline-none resize-none"
+                    placeholder="粘贴日志内容…"
+                    value={draftBody}
+                    onChange={(e) => setDraftBody(e.target.value)}
+                  />
+                ) : (
+                  <input
+                    autoFocus
+                    className="bg-gray-900 border border-gray-600 rounded p-2 text-white text-sm focus:ring-2 focus:ring-blue-500 outline-none"
+                    placeholder="https://"
+                    value={draftBody}
+                    onChange={(e) => setDraftBody(e.target.value)}
+                    onKeyDown={(e) => e.key === 'Enter' && handleSubmitDraft()}
+                  />
+                )}
+                {addMode === 'link' && draftBody.trim() && !draftUrl && (
+                  <p className="text-xs text-red-400">请输入有效的 http(s) 链接</p>
+                )}
+                <div className="flex justify-end gap-2">
+                  <button onClick={() => resetDraft(null)} className="px-2 py-1 text-xs text-gray-400 hover:text-white">取消</button>
+                  <button
+                    onClick={handleSubmitDraft}
+                    disabled={addMode === 'log' ? !draftBody.trim() : !draftUrl}
+                    className="px-3 py-1 bg-blue-600 hover:bg-blue-500 text-white text-xs rounded disabled:opacity-40"
+                  >
+                    添加
+                  </button>
+                </div>
+              </div>
+            )}
+
+            <ul className="flex flex-col gap-2">
+              {attachments.map(attachment => (
+                <li
+                  key={attachment.id}
+                  onClick={() => setSelectedId(attachment.id)}
+                  className={`group flex items-start gap-2 rounded-lg p-3 border cursor-pointer transition-colors ${selected?.id === attachment.id ? 'bg-blue-900/20 border-blue-500/60' : 'bg-gray-900/50 border-gray-700 hover:border-gray-600'}`}
+                >
+                  <span className="text-gray-400 mt-0.5 shrink-0">{KIND_ICONS[attachment.kind]}</span>
+                  <div className="min-w-0 flex-1">
+                    <p className="text-sm text-gray-200 truncate" title={attachment.name}>{attachment.name}</p>
+                    <p className="text-[11px] text-gray-500">
+                      {ATTACHMENT_KIND_LABELS[attachment.kind]}
+                      {attachment.size !== undefined && ` · ${formatFileSize(attachment.size)}`}
+                      {` · ${formatDate(attachment.createdAt)}`}
+                    </p>
+                  </div>
+                  <button
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      onDelete(attachment.id);
+                    }}
+                    className="p-1 text-gray-500 hover:text-red-400 opacity-0 group-hover:opacity-100 transition-opacity shrink-0"
+                    title="删除附件"
+                  >
+                    <Trash2 size={14} />
+                  </button>
+                </li>
+              ))}
+              {attachments.length === 0 && (
+                <li className="text-sm text-gray-500 text-center py-4">暂无附件</li>
+              )}
+            </ul>
+          </div>
+
+          {/* Preview */}
+          <div className="flex-1 p-5 min-w-0 flex flex-col gap-3">
+            {selected ? (
+              <>
+                <div className="flex items-center gap-2 text-gray-200">
+                  {selected.kind === 'link' ? <Link size={16} /> : <FileText size={16} />}
+                  <h4 className="font-semibold truncate" title={selected.name}>{selected.name}</h4>
+                </div>
+                <AttachmentPreview attachment={selected} loadBlob={loadBlob} />
+              </>
+            ) : (
+              <p className="text-sm text-gray-500 text-center py-12">
+                上传截图、日志片段、测试结果文件或参考链接，作为该项评分的依据。
+              </p>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default AttachmentPanel;
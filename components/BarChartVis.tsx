@@ -0,0 +1,105 @@
+import React, { useState } from 'react';
+import {
+  BarChart,
+  Bar,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  ResponsiveContainer,
+  Tooltip
+} from 'recharts';
+import { Software, Dimension } from '../types';
+import ChartLegend from './ChartLegend';
+import SeriesControls from './SeriesControls';
+import SeriesTooltip from './SeriesTooltip';
+import { SeriesVisibility } from '../hooks/useSeriesVisibility';
+import { GRID_STROKE, AXIS_TICK } from './chartStyles';
+
+interface BarChartVisProps {
+  softwares: Software[];
+  dimensions: Dimension[];
+  series?: SeriesVisibility;
+}
+
+type BarLayout = 'grouped' | 'stacked';
+
+const BarChartVis: React.FC<BarChartVisProps> = ({ softwares, dimensions, series }) => {
+  const [layout, setLayout] = useState<BarLayout>('grouped');
+  const [highlightedId, setHighlightedId] = useState<string | null>(null);
+
+  const visibleSoftwares = series ? softwares.filter(sw => !series.hiddenIds.includes(sw.id)) : softwares;
+
+  // One row per dimension, one key per software id (same shape as the radar data)
+  const data = dimensions.map((dim) => {
+    const point: Record<string, string | number> = { dimension: dim.name };
+    softwares.forEach((sw) => {
+      point[sw.id] = sw.scores[dim.id] || 0;
+    });
+    return point;
+  });
+
+  const stacked = layout === 'stacked';
+
+  return (
+    <div className="w-full bg-gray-800 rounded-xl p-4 shadow-lg border border-gray-700 flex flex-col">
+      <div className="relative mb-2">
+        <h3 className="text-lg font-semibold text-gray-200 text-center">各维度评分</h3>
+        <div className="absolute right-0 top-1/2 -translate-y-1/2 flex bg-gray-900/50 border border-gray-700 rounded-lg p-0.5 text-xs">
+          {(['grouped', 'stacked'] as BarLayout[]).map(option => (
+            <button
+              key={option}
+              onClick={() => setLayout(option)}
+              className={`px-2.5 py-1 rounded-md transition-colors ${layout === option ? 'bg-gray-700 text-white' : 'text-gray-400 hover:text-white'}`}
+            >
+              {option === 'grouped' ? '分组' : '堆叠'}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="h-[400px] w-full">
+        <ResponsiveContainer width="100%" height="100%">
+          <BarChart data={data} margin={{ top: 10, right: 10, left: -10, bottom: 0 }}>
+            <CartesianGrid stroke={GRID_STROKE} strokeDasharray="3 3" vertical={false} />
+            <XAxis dataKey="dimension" tick={AXIS_TICK} stroke={GRID_STROKE} interval={0} />
+            <YAxis
+              tick={AXIS_TICK}
+              stroke={GRID_STROKE}
+              domain={stacked ? [0, 'auto'] : [0, 10]}
+              allowDecimals={false}
+            />
+            {visibleSoftwares.map((sw) => (
+              <Bar
+                key={sw.id}
+                name={sw.name}
+                dataKey={sw.id}
+                fill={sw.color}
+                fillOpacity={highlightedId !== null && highlightedId !== sw.id ? 0.25 : 1}
+                stackId={stacked ? 'scores' : undefined}
+                radius={stacked ? undefined : [3, 3, 0, 0]}
+                maxBarSize={40}
+              />
+            ))}
+            <Tooltip
+              cursor={{ fill: 'rgba(55, 65, 81, 0.4)' }}
+              content={<SeriesTooltip softwares={softwares} baselineId={series?.baselineId ?? null} />}
+            />
+          </BarChart>
+        </ResponsiveContainer>
+      </div>
+
+      {series && softwares.length > 0 && <SeriesControls softwares={softwares} series={series} />}
+
+      <ChartLegend
+        softwares={softwares}
+        hiddenIds={series?.hiddenIds}
+        highlightedId={highlightedId}
+        baselineId={series?.baselineId}
+        onToggle={series?.toggle}
+        onHover={setHighlightedId}
+      />
+    </div>
+  );
+};
+
+export default BarChartVis;
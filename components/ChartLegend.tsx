@@ -0,0 +1,57 @@
+import React from 'react';
+import { Software } from '../types';
+
+interface ChartLegendProps {
+  softwares: Software[];
+  hiddenIds?: string[];
+  highlightedId?: string | null;
+  baselineId?: string | null;
+  // When set, chips become buttons that toggle visibility
+  onToggle?: (id: string) => void;
+  onHover?: (id: string | null) => void;
+}
+
+// Custom legend shared by the charts - handles many items by wrapping
+const ChartLegend: React.FC<ChartLegendProps> = ({
+  softwares,
+  hiddenIds = [],
+  highlightedId = null,
+  baselineId = null,
+  onToggle,
+  onHover,
+}) => (
+  <div className="mt-4 flex flex-wrap justify-center gap-3 px-2 border-t border-gray-700/50 pt-4">
+    {softwares.map((sw) => {
+      const hidden = hiddenIds.includes(sw.id);
+      const highlighted = highlightedId === sw.id;
+      return (
+        <button
+          key={sw.id}
+          type="button"
+          disabled={!onToggle}
+          onClick={() => onToggle?.(sw.id)}
+          onMouseEnter={() => !hidden && onHover?.(sw.id)}
+          onMouseLeave={() => onHover?.(null)}
+          className={`flex items-center bg-gray-900/50 px-3 py-1.5 rounded-full border transition-colors hover:bg-gray-700/50 disabled:cursor-default ${highlighted ? 'border-gray-400' : 'border-gray-700/50'} ${hidden ? 'opacity-40' : ''}`}
+          title={onToggle ? (hidden ? '点击显示' : '点击隐藏') : undefined}
+        >
+          <span
+            className="w-3 h-3 rounded-full mr-2 shadow-sm shrink-0"
+            style={{ backgroundColor: hidden ? 'transparent' : sw.color, boxShadow: hidden ? `inset 0 0 0 2px ${sw.color}` : undefined }}
+          />
+          <span className={`text-sm text-gray-300 font-medium whitespace-nowrap ${hidden ? 'line-through' : ''}`}>
+            {sw.name}
+          </span>
+          {baselineId === sw.id && (
+            <span className="ml-2 text-[10px] px-1.5 py-0.5 rounded bg-blue-900/50 text-blue-300">基准</span>
+          )}
+        </button>
+      );
+    })}
+    {softwares.length === 0 && (
+      <span className="text-sm text-gray-500">暂无数据</span>
+    )}
+  </div>
+);
+
+export default ChartLegend;
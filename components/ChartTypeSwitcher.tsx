@@ -0,0 +1,34 @@
+import React from 'react';
+import { Radar, BarChart3, Grid3x3, BarChartHorizontal } from 'lucide-react';
+
+export type ChartType = 'radar' | 'bar' | 'heatmap' | 'ranking';
+
+const CHART_TYPES: { type: ChartType; label: string; icon: React.ReactNode }[] = [
+  { type: 'radar', label: '雷达图', icon: <Radar size={16} /> },
+  { type: 'bar', label: '柱状图', icon: <BarChart3 size={16} /> },
+  { type: 'heatmap', label: '热力图', icon: <Grid3x3 size={16} /> },
+  { type: 'ranking', label: '排名', icon: <BarChartHorizontal size={16} /> },
+];
+
+interface ChartTypeSwitcherProps {
+  value: ChartType;
+  onChange: (type: ChartType) => void;
+}
+
+const ChartTypeSwitcher: React.FC<ChartTypeSwitcherProps> = ({ value, onChange }) => (
+  <div className="flex bg-gray-800 border border-gray-700 rounded-lg p-1">
+    {CHART_TYPES.map(({ type, label, icon }) => (
+      <button
+        key={type}
+        onClick={() => onChange(type)}
+        className={`flex items-center gap-1.5 px-3 py-1.5 rounded-md text-sm transition-colors ${value === type ? 'bg-blue-600 text-white shadow' : 'text-gray-400 hover:text-white hover:bg-gray-700'}`}
+        title={label}
+      >
+        {icon}
+        <span className="hidden sm:inline">{label}</span>
+      </button>
+    ))}
+  </div>
+);
+
+export default ChartTypeSwitcher;
@@ -1,6 +1,6 @@
 import React, { useState, useRef, useEffect } from 'react';
-import { Dimension, Software } from '../types';
-import { Trash2, Plus, FileText, Edit2, GripVertical, Settings, Check, X } from 'lucide-react';
+import { Category, Dimension, Evaluator, Software } from '../types';
+import { Trash2, Plus, FileText, Edit2, GripVertical, Settings, Check, X, Gauge, ChevronDown, ChevronRight, AlertTriangle, Users, Paperclip, Activity, Bug, Sigma, Tag } from 'lucide-react';
 import {
   DndContext,
   closestCenter,
@@ -19,35 +19,84 @@ import {
   useSortable,
 } from '@dnd-kit/sortable';
 import { CSS } from '@dnd-kit/utilities';
+import { getDimensionWeight, computeWeightedScore } from '../utils/scoring';
+import { describeNormalization } from '../utils/normalization';
+import { groupDimensions, DimensionGroup, UNCATEGORIZED_ID, UNCATEGORIZED_NAME } from '../utils/categories';
+import { getCellScores, isDisagreement, scoreSpread, EvaluatorScore } from '../utils/evaluators';
+import { attachmentCellKey } from '../utils/attachments';
+import { cellTrialStats, formatMeanSd, formatTrialValue, overlappingSoftwares } from '../utils/trials';
+import { versionLabel } from '../utils/versions';
+import { markdownToPlainText } from '../utils/markdown';
+import MarkdownText from './MarkdownText';
+import DimensionScoringEditor, { DimensionScoringSettings } from './DimensionScoringEditor';
 
 interface ComparisonTableProps {
   dimensions: Dimension[];
   softwares: Software[];
-  onUpdateScore: (softwareId: string, dimensionId: string, value: number) => void;
+  categories: Category[];
+  // undefined clears the active evaluator's score for the cell
+  onUpdateScore: (softwareId: string, dimensionId: string, value: number | undefined) => void;
+  onUpdateRawValue: (softwareId: string, dimensionId: string, value: number | undefined) => void;
   onEditDescription: (softwareId: string, dimensionId: string) => void;
+  onOpenAttachments: (softwareId: string, dimensionId: string) => void;
+  onOpenRuns: (softwareId: string, dimensionId: string) => void;
+  onOpenDetection: (softwareId: string, dimensionId: string) => void;
+  onOpenTrials: (softwareId: string, dimensionId: string) => void;
+  onOpenVersions: (softwareId: string) => void;
   onDeleteDimension: (id: string) => void;
   onDeleteSoftware: (id: string) => void;
   onReorderSoftwares: (oldIndex: number, newIndex: number) => void;
-  onReorderDimensions: (oldIndex: number, newIndex: number) => void;
+  // targetCategoryId is set when a dimension is dropped into another category (null = uncategorized)
+  onReorderDimensions: (oldIndex: number, newIndex: number, targetCategoryId?: string | null) => void;
   onUpdateSoftwareDetails: (id: string, name: string, color: string) => void;
   onUpdateDimensionName: (id: string, name: string) => void;
+  onUpdateDimensionWeight: (id: string, weight: number) => void;
+  onUpdateDimensionScoring: (id: string, settings: DimensionScoringSettings) => void;
+  onUpdateDimensionCategory: (id: string, categoryId: string | undefined) => void;
+  onRenameCategory: (id: string, name: string) => void;
+  onDeleteCategory: (id: string) => void;
+  // Columns hidden from view; drag-and-drop still reorders the full list
+  hiddenSoftwareIds?: string[];
+  evaluators?: Evaluator[];
+  disagreementThreshold?: number;
+  // When set, score inputs show and edit this evaluator's own scores
+  activeEvaluatorId?: string | null;
+  // Number of evidence attachments per cell, keyed by attachmentCellKey
+  attachmentCounts?: Record<string, number>;
+  // Number of harness runs behind each cell, same keys as attachmentCounts
+  runCounts?: Record<string, number>;
+  // Number of tested samples behind cells linked to the detection test
+  sampleCounts?: Record<string, number>;
+  // Columns showing an archived product version; their cells are read-only
+  archivedSoftwareIds?: string[];
 }
 
+const describeCellScores = (scores: EvaluatorScore[]) =>
+  [
+    ...scores.map(({ evaluator, score }) => `${evaluator.name}：${score}`),
+    scores.length >= 2 ? `分差 ${Math.round(scoreSpread(scores) * 10) / 10}` : '',
+  ].filter(Boolean).join('\n');
+
 // --- Sortable Components ---
 
 interface SortableHeaderProps {
   id: string;
   software: Software;
+  // The column shows an archived version instead of the latest results
+  archived: boolean;
   onDelete: (id: string) => void;
   onUpdateDetails: (id: string, name: string, color: string) => void;
+  onOpenVersions: (id: string) => void;
 }
 
 // Sortable Header (Column)
 const SortableHeader: React.FC<SortableHeaderProps> = ({
   id,
   software,
+  archived,
   onDelete,
   onUpdateDetails,
+  onOpenVersions,
 }) => {
   const { attributes, listeners, setNodeRef, transform, transition, isDragging } =
     useSortable({ id });
@@ -121,6 +170,26 @@ const SortableHeader: React.FC<SortableHeaderProps> = ({
           </button>
         </div>
 
+        <button
+          onClick={() => onOpenVersions(software.id)}
+          className={`flex items-center gap-1 text-[10px] normal-case tracking-normal transition-colors ${
+            archived
+              ? 'text-amber-400 hover:text-amber-300'
+              : software.version || software.testedAt
+                ? 'text-gray-500 hover:text-blue-400'
+                : 'text-gray-500 hover:text-blue-400 opacity-0 group-hover:opacity-60 hover:!opacity-100'
+          }`}
+          title={archived ? '正在显示历史版本，点击切换' : '版本记录与评分变化'}
+        >
+          <Tag size={10} />
+          <span className="truncate max-w-[120px]">
+            {software.version || software.testedAt
+              ? `${versionLabel(software)}${software.version && software.testedAt ? ` · ${software.testedAt}` : ''}`
+              : '版本'}
+            {archived && '（历史）'}
+          </span>
+        </button>
+
         {/* Action Buttons (Absolute) */}
         <button
             onClick={() => onDelete(software.id)}
@@ -183,18 +252,26 @@ const SortableHeader: React.FC<SortableHeaderProps> = ({
 interface SortableRowProps {
   id: string;
   dimension: Dimension;
+  categories: Category[];
   children: React.ReactNode;
   onDelete: (id: string) => void;
   onUpdateName: (id: string, name: string) => void;
+  onUpdateWeight: (id: string, weight: number) => void;
+  onUpdateScoring: (id: string, settings: DimensionScoringSettings) => void;
+  onUpdateCategory: (id: string, categoryId: string | undefined) => void;
 }
 
 // Sortable Row (Dimension)
 const SortableRow: React.FC<SortableRowProps> = ({
   id,
   dimension,
+  categories,
   children,
   onDelete,
   onUpdateName,
+  onUpdateWeight,
+  onUpdateScoring,
+  onUpdateCategory,
 }) => {
   const { attributes, listeners, setNodeRef, transform, transition, isDragging } =
     useSortable({ id });
@@ -209,6 +286,8 @@ const SortableRow: React.FC<SortableRowProps> = ({
 
   const [isEditing, setIsEditing] = useState(false);
   const [editName, setEditName] = useState(dimension.name);
+  const [isEditingScoring, setIsEditingScoring] = useState(false);
+  const scoringSummary = describeNormalization(dimension);
 
   const handleSave = () => {
     if (editName.trim()) {
@@ -266,6 +345,13 @@ const SortableRow: React.FC<SortableRowProps> = ({
                 >
                     <Edit2 size={12} />
                 </button>
+                <button
+                    onClick={() => setIsEditingScoring(true)}
+                    className={`p-1 transition-opacity ${dimension.normalization ? 'text-blue-400' : 'text-gray-600 hover:text-blue-400 opacity-0 group-hover/row:opacity-100'}`}
+                    title="实测值与评分换算"
+                >
+                    <Gauge size={12} />
+                </button>
             </>
           )}
 
@@ -277,26 +363,210 @@ const SortableRow: React.FC<SortableRowProps> = ({
             <Trash2 size={14} />
           </button>
         </div>
+
+        {scoringSummary && (
+          <div className="text-[10px] text-gray-500 mt-1 ml-4 truncate" title={scoringSummary}>
+            {scoringSummary}
+          </div>
+        )}
+
+        {/* Weight Input */}
+        <div className="flex items-center gap-1 mt-2 ml-4">
+          <span className="text-[10px] text-gray-500 uppercase tracking-tighter">
+            权重
+          </span>
+          <input
+            type="number"
+            min="0"
+            step="0.5"
+            value={getDimensionWeight(dimension)}
+            onChange={(e) => {
+              const val = Math.max(0, Number(e.target.value) || 0);
+              onUpdateWeight(dimension.id, val);
+            }}
+            className="w-14 bg-gray-900 border border-gray-700 rounded text-center text-gray-300 focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none px-1 py-0.5 text-xs"
+            title="该维度在加权总分中的权重"
+          />
+        </div>
+
+        {/* Category Select */}
+        {categories.length > 0 && (
+          <div className="flex items-center gap-1 mt-2 ml-4">
+            <span className="text-[10px] text-gray-500 uppercase tracking-tighter">
+              分类
+            </span>
+            <select
+              value={categories.some(c => c.id === dimension.categoryId) ? dimension.categoryId : ''}
+              onChange={(e) => onUpdateCategory(dimension.id, e.target.value || undefined)}
+              className="max-w-[110px] bg-gray-900 border border-gray-700 rounded text-gray-300 focus:ring-2 focus:ring-blue-500 outline-none px-1 py-0.5 text-xs"
+            >
+              <option value="">{UNCATEGORIZED_NAME}</option>
+              {categories.map(c => (
+                <option key={c.id} value={c.id}>{c.name}</option>
+              ))}
+            </select>
+          </div>
+        )}
+
+        {isEditingScoring && (
+          <DimensionScoringEditor
+            dimension={dimension}
+            onSave={(settings) => {
+              onUpdateScoring(dimension.id, settings);
+              setIsEditingScoring(false);
+            }}
+            onClose={() => setIsEditingScoring(false)}
+          />
+        )}
       </td>
       {children}
     </tr>
   );
 };
 
+interface CategoryHeaderRowProps {
+  group: DimensionGroup;
+  softwares: Software[];
+  collapsed: boolean;
+  onToggle: () => void;
+  onRename: (id: string, name: string) => void;
+  onDelete: (id: string) => void;
+}
+
+// Collapsible group header with the category's weighted subtotal per software
+const CategoryHeaderRow: React.FC<CategoryHeaderRowProps> = ({
+  group,
+  softwares,
+  collapsed,
+  onToggle,
+  onRename,
+  onDelete,
+}) => {
+  const { category, dimensions } = group;
+  const [isEditing, setIsEditing] = useState(false);
+  const [editName, setEditName] = useState(category?.name ?? '');
+
+  const handleSave = () => {
+    if (category && editName.trim()) {
+      onRename(category.id, editName.trim());
+    } else {
+      setEditName(category?.name ?? '');
+    }
+    setIsEditing(false);
+  };
+
+  return (
+    <tr className="bg-gray-900/60 group/category">
+      <td className="px-4 py-2.5 text-sm font-semibold text-gray-200 sticky left-0 bg-gray-900 z-10 shadow-[2px_0_5px_-2px_rgba(0,0,0,0.5)]">
+        <div className="flex items-center gap-2">
+          <button onClick={onToggle} className="text-gray-500 hover:text-white -ml-1 shrink-0" title={collapsed ? '展开' : '折叠'}>
+            {collapsed ? <ChevronRight size={16} /> : <ChevronDown size={16} />}
+          </button>
+          {isEditing ? (
+            <input
+              type="text"
+              value={editName}
+              onChange={(e) => setEditName(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') handleSave();
+                if (e.key === 'Escape') {
+                  setEditName(category?.name ?? '');
+                  setIsEditing(false);
+                }
+              }}
+              onBlur={handleSave}
+              autoFocus
+              className="w-full bg-gray-900 border border-blue-500 rounded px-2 py-0.5 text-sm outline-none"
+            />
+          ) : (
+            <>
+              <span className="truncate" title={category?.name ?? UNCATEGORIZED_NAME}>
+                {category?.name ?? UNCATEGORIZED_NAME}
+              </span>
+              <span className="text-xs font-normal text-gray-500 shrink-0">{dimensions.length}</span>
+              {category && (
+                <>
+                  <button
+                    onClick={() => {
+                      setEditName(category.name);
+                      setIsEditing(true);
+                    }}
+                    className="text-gray-600 hover:text-blue-400 p-1 opacity-0 group-hover/category:opacity-100 transition-opacity"
+                    title="编辑分类名称"
+                  >
+                    <Edit2 size={12} />
+                  </button>
+                  <button
+                    onClick={() => onDelete(category.id)}
+                    className="text-gray-600 hover:text-red-400 p-1 rounded opacity-0 group-hover/category:opacity-100 ml-auto shrink-0"
+                    title="删除该分类"
+                  >
+                    <Trash2 size={14} />
+                  </button>
+                </>
+              )}
+            </>
+          )}
+        </div>
+      </td>
+      {softwares.map((sw) => (
+        <td key={sw.id} className="px-2 py-2.5 text-center text-sm font-semibold" style={{ color: sw.color }}>
+          {dimensions.length > 0 ? computeWeightedScore(sw, dimensions).toFixed(1) : '-'}
+        </td>
+      ))}
+    </tr>
+  );
+};
+
 // --- Main Component ---
 
 const ComparisonTable: React.FC<ComparisonTableProps> = ({
   dimensions,
   softwares,
+  categories,
   onUpdateScore,
+  onUpdateRawValue,
   onEditDescription,
+  onOpenAttachments,
+  onOpenRuns,
+  onOpenDetection,
+  onOpenTrials,
+  onOpenVersions,
   onDeleteDimension,
   onDeleteSoftware,
   onReorderSoftwares,
   onReorderDimensions,
   onUpdateSoftwareDetails,
   onUpdateDimensionName,
+  onUpdateDimensionWeight,
+  onUpdateDimensionScoring,
+  onUpdateDimensionCategory,
+  onRenameCategory,
+  onDeleteCategory,
+  hiddenSoftwareIds = [],
+  evaluators = [],
+  disagreementThreshold = 0,
+  activeEvaluatorId = null,
+  attachmentCounts = {},
+  runCounts = {},
+  sampleCounts = {},
+  archivedSoftwareIds = [],
 }) => {
+  const visibleSoftwares = softwares.filter((s) => !hiddenSoftwareIds.includes(s.id));
+  const [collapsedGroups, setCollapsedGroups] = useState<string[]>([]);
+
+  // Without categories the table stays a flat list of dimensions
+  const groups = categories.length > 0 ? groupDimensions(dimensions, categories) : null;
+  const groupKey = (group: DimensionGroup) => group.category?.id ?? UNCATEGORIZED_ID;
+  const isCollapsed = (group: DimensionGroup) => collapsedGroups.includes(groupKey(group));
+  const renderedDimensionIds = groups
+    ? groups.filter(g => !isCollapsed(g)).flatMap(g => g.dimensions.map(d => d.id))
+    : dimensions.map(d => d.id);
+
+  const toggleGroup = (key: string) => {
+    setCollapsedGroups(prev => prev.includes(key) ? prev.filter(k => k !== key) : [...prev, key]);
+  };
+
   const sensors = useSensors(
     useSensor(PointerSensor, {
       activationConstraint: {
@@ -330,11 +600,238 @@ const ComparisonTable: React.FC<ComparisonTableProps> = ({
       const oldIndex = dimensions.findIndex((d) => d.id === activeId);
       const newIndex = dimensions.findIndex((d) => d.id === overId);
       if (oldIndex !== -1 && newIndex !== -1) {
-        onReorderDimensions(oldIndex, newIndex);
+        // Dropping onto a row of another group moves the dimension into that category
+        const fromGroup = groups?.find(g => g.dimensions.some(d => d.id === activeId));
+        const toGroup = groups?.find(g => g.dimensions.some(d => d.id === overId));
+        const targetCategoryId = fromGroup && toGroup && fromGroup !== toGroup
+          ? toGroup.category?.id ?? null
+          : undefined;
+        onReorderDimensions(oldIndex, newIndex, targetCategoryId);
       }
     }
   };
 
+  const renderDimensionRow = (dim: Dimension) => (
+    <SortableRow
+      key={dim.id}
+      id={dim.id}
+      dimension={dim}
+      categories={categories}
+      onDelete={onDeleteDimension}
+      onUpdateName={onUpdateDimensionName}
+      onUpdateWeight={onUpdateDimensionWeight}
+      onUpdateScoring={onUpdateDimensionScoring}
+      onUpdateCategory={onUpdateDimensionCategory}
+    >
+      {/* Render cells for this row */}
+      {visibleSoftwares.map((sw) => {
+        const description = sw.descriptions?.[dim.id];
+        const rawValue = sw.rawValues?.[dim.id];
+        const cellScores = getCellScores(sw, dim.id, evaluators);
+        const disagreement = isDisagreement(cellScores, disagreementThreshold);
+        // In the summary view, scores with evaluator input are derived and read-only
+        const aggregated = !activeEvaluatorId && cellScores.length > 0;
+        const attachmentCount = attachmentCounts[attachmentCellKey(sw.id, dim.id)] || 0;
+        const runCount = runCounts[attachmentCellKey(sw.id, dim.id)] || 0;
+        const sampleCount = sampleCounts[attachmentCellKey(sw.id, dim.id)] || 0;
+        const trialStats = cellTrialStats(sw, dim.id);
+        const overlapping = overlappingSoftwares(softwares, sw, dim.id);
+        // Trials set the cell value, so they stay out of evaluator-derived scores
+        const archived = archivedSoftwareIds.includes(sw.id);
+        const trialsEditable = !archived && !activeEvaluatorId && (!!dim.normalization || cellScores.length === 0);
+        return (
+          <td
+            key={`${sw.id}-${dim.id}`}
+            className="px-2 py-3 align-top relative"
+          >
+            <div className="flex flex-col items-center gap-3">
+              {dim.normalization ? (
+                <>
+                  {/* Raw Value Input (score is computed) */}
+                  <div className="flex items-center justify-center gap-1">
+                    <span className="text-[10px] text-gray-500 uppercase tracking-tighter">
+                      实测
+                    </span>
+                    <input
+                      type="number"
+                      value={rawValue ?? ''}
+                      onChange={(e) => {
+                        const val = e.target.value === '' ? undefined : Number(e.target.value);
+                        onUpdateRawValue(sw.id, dim.id, val);
+                      }}
+                      readOnly={archived}
+                      className="w-16 bg-gray-900 border border-gray-600 rounded text-center text-white focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none p-1 text-sm"
+                    />
+                    {dim.unit && (
+                      <span className="text-[10px] text-gray-500">{dim.unit}</span>
+                    )}
+                  </div>
+                  <div
+                    className="flex items-center justify-center gap-1"
+                    title={rawValue === undefined ? '尚未录入实测值，沿用手动评分' : '根据实测值自动换算'}
+                  >
+                    <span className="text-[10px] text-gray-500 uppercase tracking-tighter">
+                      评分
+                    </span>
+                    <span className={`text-sm font-bold ${rawValue === undefined ? 'text-gray-500' : 'text-blue-300'}`}>
+                      {(sw.scores[dim.id] || 0).toFixed(1)}
+                    </span>
+                  </div>
+                </>
+              ) : (
+                /* Score Input */
+                <div className="flex items-center justify-center gap-1">
+                  <span className="text-[10px] text-gray-500 uppercase tracking-tighter">
+                    评分
+                  </span>
+                  <input
+                    type="number"
+                    min="0"
+                    max="10"
+                    value={activeEvaluatorId ? sw.scores[dim.id] ?? '' : sw.scores[dim.id] || 0}
+                    placeholder="-"
+                    readOnly={aggregated || archived}
+                    onChange={(e) => {
+                      if (activeEvaluatorId && e.target.value === '') {
+                        onUpdateScore(sw.id, dim.id, undefined);
+                        return;
+                      }
+                      const val = Math.max(
+                        0,
+                        Math.min(10, Number(e.target.value))
+                      );
+                      onUpdateScore(sw.id, dim.id, val);
+                    }}
+                    className={`w-12 bg-gray-900 border border-gray-600 rounded text-center focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none p-1 text-sm font-bold ${aggregated || archived ? 'text-blue-300 cursor-default' : 'text-white'}`}
+                    title={archived ? '历史版本的评分为只读' : aggregated ? `${describeCellScores(cellScores)}\n切换到评估人视图可修改个人评分` : undefined}
+                  />
+                </div>
+              )}
+
+              {cellScores.length > 0 && (
+                <div
+                  className={`flex items-center gap-1 text-[10px] ${disagreement ? 'text-amber-400' : 'text-gray-500'}`}
+                  title={describeCellScores(cellScores)}
+                >
+                  {disagreement ? <AlertTriangle size={12} /> : <Users size={12} />}
+                  <span>{disagreement ? `分歧 ${Math.round(scoreSpread(cellScores) * 10) / 10}` : `${cellScores.length} 人评分`}</span>
+                </div>
+              )}
+
+              {runCount > 0 && (
+                <button
+                  onClick={() => onOpenRuns(sw.id, dim.id)}
+                  className="flex items-center gap-1 text-[10px] text-gray-500 hover:text-blue-400"
+                  title="查看原始运行记录"
+                >
+                  <Activity size={12} />
+                  <span>{runCount} 次运行</span>
+                </button>
+              )}
+
+              {sampleCount > 0 && (
+                <button
+                  onClick={() => onOpenDetection(sw.id, dim.id)}
+                  className="flex items-center gap-1 text-[10px] text-gray-500 hover:text-blue-400"
+                  title="查看漏检样本"
+                >
+                  <Bug size={12} />
+                  <span>{sampleCount} 个样本</span>
+                </button>
+              )}
+
+              {trialStats && (
+                <button
+                  onClick={() => onOpenTrials(sw.id, dim.id)}
+                  disabled={!trialsEditable}
+                  className="flex items-center gap-1 text-[10px] text-gray-400 hover:text-blue-400 disabled:hover:text-gray-400 disabled:cursor-default"
+                  title={trialStats.interval
+                    ? `${trialStats.n} 次试验，95% 置信区间 ${formatTrialValue(trialStats.interval.low, trialStats.mean)} ~ ${formatTrialValue(trialStats.interval.high, trialStats.mean)}`
+                    : `${trialStats.n} 次试验`}
+                >
+                  <Sigma size={12} />
+                  <span>{formatMeanSd(trialStats)}</span>
+                </button>
+              )}
+
+              {overlapping.length > 0 && (
+                <div
+                  className="flex items-center gap-1 text-[10px] text-amber-400"
+                  title={`95% 置信区间与 ${overlapping.map(o => o.name).join('、')} 重叠`}
+                >
+                  <AlertTriangle size={12} />
+                  <span>差异不显著</span>
+                </div>
+              )}
+
+              {/* Description Button / Preview */}
+              {description ? (
+                <div className="relative group/tooltip w-full">
+                  <button
+                    onClick={() => onEditDescription(sw.id, dim.id)}
+                    disabled={archived}
+                    className="w-full flex items-center justify-center gap-2 px-2 py-1.5 rounded border border-gray-700 bg-gray-800/50 hover:bg-gray-700 hover:border-blue-500/50 transition-all text-left group"
+                  >
+                    <FileText
+                      size={14}
+                      className="text-blue-400 shrink-0"
+                    />
+                    <span className="text-xs text-gray-300 truncate max-w-[80px] opacity-80 group-hover:opacity-100">
+                      {markdownToPlainText(description)}
+                    </span>
+                    <Edit2
+                      size={10}
+                      className="text-gray-500 opacity-0 group-hover:opacity-100 ml-auto shrink-0"
+                    />
+                  </button>
+
+                  {/* Custom Tooltip on Hover */}
+                  <div className="absolute bottom-full left-1/2 -translate-x-1/2 mb-2 w-80 max-h-96 overflow-hidden p-3 bg-gray-900 text-xs text-gray-200 rounded-lg shadow-xl border border-gray-600 hidden group-hover/tooltip:block z-50 pointer-events-none leading-relaxed text-left">
+                    <div className="font-semibold text-blue-400 mb-1 border-b border-gray-700 pb-1">
+                      详细描述
+                    </div>
+                    <MarkdownText>{description}</MarkdownText>
+                    {/* Arrow */}
+                    <div className="absolute top-full left-1/2 -translate-x-1/2 border-8 border-transparent border-t-gray-600"></div>
+                  </div>
+                </div>
+              ) : !archived && (
+                <button
+                  onClick={() => onEditDescription(sw.id, dim.id)}
+                  className="flex items-center gap-1 text-xs text-gray-500 hover:text-blue-400 transition-colors px-2 py-1 rounded hover:bg-gray-700/50 opacity-60 hover:opacity-100"
+                >
+                  <Plus size={12} />
+                  <span>添加描述</span>
+                </button>
+              )}
+
+              {!trialStats && trialsEditable && (
+                <button
+                  onClick={() => onOpenTrials(sw.id, dim.id)}
+                  className="flex items-center gap-1 text-xs px-2 py-0.5 rounded-full transition-colors text-gray-500 hover:text-blue-400 hover:bg-gray-700/50 opacity-0 group-hover/row:opacity-60 hover:!opacity-100"
+                  title="录入多次试验的数值，计算平均值与置信区间"
+                >
+                  <Sigma size={12} />
+                  <span>多次测量</span>
+                </button>
+              )}
+
+              {/* Evidence Attachments */}
+              <button
+                onClick={() => onOpenAttachments(sw.id, dim.id)}
+                className={`flex items-center gap-1 text-xs px-2 py-0.5 rounded-full transition-colors ${attachmentCount > 0 ? 'bg-blue-900/40 text-blue-300 hover:bg-blue-900/60' : 'text-gray-500 hover:text-blue-400 hover:bg-gray-700/50 opacity-0 group-hover/row:opacity-60 hover:!opacity-100'}`}
+                title={attachmentCount > 0 ? `${attachmentCount} 个证据附件` : '添加截图、日志、测试结果或链接'}
+              >
+                <Paperclip size={12} />
+                <span>{attachmentCount > 0 ? attachmentCount : '附件'}</span>
+              </button>
+            </div>
+          </td>
+        );
+      })}
+    </SortableRow>
+  );
+
   return (
     <DndContext
       sensors={sensors}
@@ -350,16 +847,18 @@ const ComparisonTable: React.FC<ComparisonTableProps> = ({
               </th>
               
               <SortableContext
-                items={softwares.map((s) => s.id)}
+                items={visibleSoftwares.map((s) => s.id)}
                 strategy={horizontalListSortingStrategy}
               >
-                {softwares.map((sw) => (
+                {visibleSoftwares.map((sw) => (
                   <SortableHeader
                     key={sw.id}
                     id={sw.id}
                     software={sw}
+                    archived={archivedSoftwareIds.includes(sw.id)}
                     onDelete={onDeleteSoftware}
                     onUpdateDetails={onUpdateSoftwareDetails}
+                    onOpenVersions={onOpenVersions}
                   />
                 ))}
               </SortableContext>
@@ -367,100 +866,55 @@ const ComparisonTable: React.FC<ComparisonTableProps> = ({
           </thead>
           <tbody className="divide-y divide-gray-700">
             <SortableContext
-              items={dimensions.map((d) => d.id)}
+              items={renderedDimensionIds}
               strategy={verticalListSortingStrategy}
             >
-              {dimensions.map((dim) => (
-                <SortableRow
-                  key={dim.id}
-                  id={dim.id}
-                  dimension={dim}
-                  onDelete={onDeleteDimension}
-                  onUpdateName={onUpdateDimensionName}
-                >
-                  {/* Render cells for this row */}
-                  {softwares.map((sw) => {
-                    const description = sw.descriptions?.[dim.id];
-                    return (
-                      <td
-                        key={`${sw.id}-${dim.id}`}
-                        className="px-2 py-3 align-top relative"
-                      >
-                        <div className="flex flex-col items-center gap-3">
-                          {/* Score Input */}
-                          <div className="flex items-center justify-center gap-1">
-                            <span className="text-[10px] text-gray-500 uppercase tracking-tighter">
-                              评分
-                            </span>
-                            <input
-                              type="number"
-                              min="0"
-                              max="10"
-                              value={sw.scores[dim.id] || 0}
-                              onChange={(e) => {
-                                const val = Math.max(
-                                  0,
-                                  Math.min(10, Number(e.target.value))
-                                );
-                                onUpdateScore(sw.id, dim.id, val);
-                              }}
-                              className="w-12 bg-gray-900 border border-gray-600 rounded text-center text-white focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none p-1 text-sm font-bold"
-                            />
-                          </div>
-
-                          {/* Description Button / Preview */}
-                          {description ? (
-                            <div className="relative group/tooltip w-full">
-                              <button
-                                onClick={() => onEditDescription(sw.id, dim.id)}
-                                className="w-full flex items-center justify-center gap-2 px-2 py-1.5 rounded border border-gray-700 bg-gray-800/50 hover:bg-gray-700 hover:border-blue-500/50 transition-all text-left group"
-                              >
-                                <FileText
-                                  size={14}
-                                  className="text-blue-400 shrink-0"
-                                />
-                                <span className="text-xs text-gray-300 truncate max-w-[80px] opacity-80 group-hover:opacity-100">
-                                  {description}
-                                </span>
-                                <Edit2
-                                  size={10}
-                                  className="text-gray-500 opacity-0 group-hover:opacity-100 ml-auto shrink-0"
-                                />
-                              </button>
-
-                              {/* Custom Tooltip on Hover */}
-                              <div className="absolute bottom-full left-1/2 -translate-x-1/2 mb-2 w-72 p-3 bg-gray-900 text-xs text-gray-200 rounded-lg shadow-xl border border-gray-600 hidden group-hover/tooltip:block z-50 pointer-events-none whitespace-pre-wrap break-words leading-relaxed text-left">
-                                <div className="font-semibold text-blue-400 mb-1 border-b border-gray-700 pb-1">
-                                  详细描述
-                                </div>
-                                {description}
-                                {/* Arrow */}
-                                <div className="absolute top-full left-1/2 -translate-x-1/2 border-8 border-transparent border-t-gray-600"></div>
-                              </div>
-                            </div>
-                          ) : (
-                            <button
-                              onClick={() => onEditDescription(sw.id, dim.id)}
-                              className="flex items-center gap-1 text-xs text-gray-500 hover:text-blue-400 transition-colors px-2 py-1 rounded hover:bg-gray-700/50 opacity-60 hover:opacity-100"
-                            >
-                              <Plus size={12} />
-                              <span>添加描述</span>
-                            </button>
-                          )}
-                        </div>
-                      </td>
-                    );
-                  })}
-                </SortableRow>
-              ))}
+              {groups
+                ? groups.map((group) => (
+                    <React.Fragment key={groupKey(group)}>
+                      <CategoryHeaderRow
+                        group={group}
+                        softwares={visibleSoftwares}
+                        collapsed={isCollapsed(group)}
+                        onToggle={() => toggleGroup(groupKey(group))}
+                        onRename={onRenameCategory}
+                        onDelete={onDeleteCategory}
+                      />
+                      {!isCollapsed(group) && group.dimensions.map(renderDimensionRow)}
+                    </React.Fragment>
+                  ))
+                : dimensions.map(renderDimensionRow)}
             </SortableContext>
           </tbody>
+          {visibleSoftwares.length > 0 && dimensions.length > 0 && (
+            <tfoot className="bg-gray-900/50 border-t-2 border-gray-600">
+              <tr>
+                <td className="px-4 py-4 text-sm font-semibold text-gray-200 sticky left-0 bg-gray-900/95 z-10 shadow-[2px_0_5px_-2px_rgba(0,0,0,0.5)]">
+                  加权总分
+                </td>
+                {visibleSoftwares.map((sw) => (
+                  <td
+                    key={`${sw.id}-total`}
+                    className="px-2 py-4 text-center text-lg font-bold"
+                    style={{ color: sw.color }}
+                  >
+                    {computeWeightedScore(sw, dimensions).toFixed(1)}
+                  </td>
+                ))}
+              </tr>
+            </tfoot>
+          )}
         </table>
         {softwares.length === 0 && (
           <div className="p-8 text-center text-gray-500">
             暂无软件数据，请添加软件开始对比。
           </div>
         )}
+        {softwares.length > 0 && visibleSoftwares.length === 0 && (
+          <div className="p-8 text-center text-gray-500">
+            所有软件均已在图表中隐藏。
+          </div>
+        )}
       </div>
     </DndContext>
   );
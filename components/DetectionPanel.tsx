@@ -0,0 +1,433 @@
+import React, { useRef, useState } from 'react';
+import { ComparisonData, SampleVerdict } from '../types';
+import {
+  DetectionTarget,
+  LATE_CREDIT_OPTIONS,
+  VERDICT_LABELS,
+  computeProductDetection,
+  createLinkedDimension,
+  falsePositiveSamples,
+  getDetectionTest,
+  importCleanSamples,
+  importSamples,
+  importVerdicts,
+  linkedDimensionId,
+  missedSamples,
+  parseCleanManifest,
+  parseSampleManifest,
+  parseVerdicts,
+  sampleCategories,
+  setDetectionLink,
+  updateDetectionTest,
+} from '../utils/detection';
+import { X, Bug, FileUp, Trash2, AlertTriangle, Plus } from 'lucide-react';
+
+type DetectionTab = 'import' | 'results' | 'missed';
+type ImportKind = 'samples' | 'clean' | 'verdicts';
+
+interface DetectionPanelProps {
+  data: ComparisonData;
+  // Opens the missed-sample list for this software (and category) instead of the overview
+  focus?: { softwareId: string; category?: string } | null;
+  onUpdate: (updater: (data: ComparisonData) => ComparisonData) => void;
+  onClose: () => void;
+}
+
+const TAB_LABELS: Record<DetectionTab, string> = {
+  import: '导入数据',
+  results: '检出率',
+  missed: '漏检明细',
+};
+
+const IMPORT_CARDS: { kind: ImportKind; title: string; fields: string }[] = [
+  { kind: 'samples', title: '恶意样本清单', fields: 'hash, family, category, date' },
+  { kind: 'clean', title: '白样本清单', fields: 'hash, name' },
+  { kind: 'verdicts', title: '检测结果', fields: 'product, hash, verdict（detected / missed / late）' },
+];
+
+// Rows rendered in the drill-down; larger lists are cut off with a note
+const MAX_ROWS = 500;
+
+const VERDICT_STYLES: Record<SampleVerdict, string> = {
+  detected: 'bg-green-900/40 text-green-300',
+  missed: 'bg-red-900/40 text-red-300',
+  late: 'bg-amber-900/40 text-amber-300',
+};
+
+const formatRate = (rate: number | null) => (rate === null ? '-' : `${rate.toFixed(1)}%`);
+
+// Sample-based detection test: manifests and verdicts in, rates out into linked dimensions
+const DetectionPanel: React.FC<DetectionPanelProps> = ({ data, focus, onUpdate, onClose }) => {
+  const test = getDetectionTest(data);
+  const categories = sampleCategories(test);
+  const testedSoftwares = data.softwares.filter(sw => test.verdicts[sw.id]);
+
+  const [tab, setTab] = useState<DetectionTab>(focus ? 'missed' : test.samples.length === 0 ? 'import' : 'results');
+  const [messages, setMessages] = useState<Partial<Record<ImportKind, { text: string; errors: string[] }>>>({});
+  const [missedSoftwareId, setMissedSoftwareId] = useState(focus?.softwareId ?? testedSoftwares[0]?.id ?? '');
+  const [missedCategory, setMissedCategory] = useState(focus?.category ?? '');
+  const [includeLate, setIncludeLate] = useState(true);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const pendingKind = useRef<ImportKind>('samples');
+
+  const counts: Record<ImportKind, number> = {
+    samples: test.samples.length,
+    clean: test.cleanSamples.length,
+    verdicts: Object.values(test.verdicts).reduce((n, map) => n + Object.keys(map).length, 0),
+  };
+
+  const chooseFile = (kind: ImportKind) => {
+    pendingKind.current = kind;
+    fileInputRef.current?.click();
+  };
+
+  const handleFile = (file: File | undefined) => {
+    if (!file) return;
+    const kind = pendingKind.current;
+    file.text()
+      .then((text) => {
+        if (kind === 'samples') {
+          const { samples, errors } = parseSampleManifest(text, file.name);
+          if (samples.length > 0) onUpdate(d => importSamples(d, samples));
+          setMessages(prev => ({ ...prev, [kind]: { text: `${file.name}：读取 ${samples.length} 个样本`, errors } }));
+        } else if (kind === 'clean') {
+          const { samples, errors } = parseCleanManifest(text, file.name);
+          if (samples.length > 0) onUpdate(d => importCleanSamples(d, samples));
+          setMessages(prev => ({ ...prev, [kind]: { text: `${file.name}：读取 ${samples.length} 个白样本`, errors } }));
+        } else {
+          const { verdicts, errors } = parseVerdicts(text, file.name);
+          if (verdicts.length > 0) onUpdate(d => importVerdicts(d, verdicts));
+          setMessages(prev => ({ ...prev, [kind]: { text: `${file.name}：读取 ${verdicts.length} 条结果`, errors } }));
+        }
+      })
+      .catch(err => {
+        console.error(err);
+        alert('读取文件失败。');
+      })
+      .finally(() => {
+        if (fileInputRef.current) fileInputRef.current.value = '';
+      });
+  };
+
+  const handleClear = (kind: ImportKind) => {
+    const title = IMPORT_CARDS.find(card => card.kind === kind)!.title;
+    if (!window.confirm(`确定要清空${title}吗？`)) return;
+    onUpdate(d => updateDetectionTest(d,
+      kind === 'samples' ? { samples: [] } : kind === 'clean' ? { cleanSamples: [] } : { verdicts: {} }
+    ));
+    setMessages(prev => ({ ...prev, [kind]: undefined }));
+  };
+
+  const linkTargets: { target: DetectionTarget; label: string }[] = [
+    { target: { kind: 'overall' }, label: '总体检出率' },
+    ...categories.map(category => ({ target: { kind: 'category' as const, category }, label: `${category} 检出率` })),
+    { target: { kind: 'falsePositive' }, label: '误报率' },
+  ];
+
+  const renderImport = () => (
+    <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+      {IMPORT_CARDS.map(card => {
+        const message = messages[card.kind];
+        return (
+          <div key={card.kind} className="bg-gray-900/50 border border-gray-700 rounded-lg p-4 flex flex-col gap-3">
+            <div>
+              <p className="font-medium text-white">{card.title}</p>
+              <p className="text-xs text-gray-500 mt-1">JSON 或 CSV，字段：<code className="text-amber-200">{card.fields}</code></p>
+            </div>
+            <p className="text-2xl font-bold text-blue-300">{counts[card.kind]}</p>
+            <div className="flex items-center gap-2">
+              <button
+                onClick={() => chooseFile(card.kind)}
+                className="flex items-center gap-1.5 px-3 py-1.5 bg-blue-600 hover:bg-blue-500 text-white rounded text-sm"
+              >
+                <FileUp size={14} /> 导入
+              </button>
+              {counts[card.kind] > 0 && (
+                <button
+                  onClick={() => handleClear(card.kind)}
+                  className="flex items-center gap-1 text-xs text-gray-500 hover:text-red-400 ml-auto"
+                >
+                  <Trash2 size={12} /> 清空
+                </button>
+              )}
+            </div>
+            {message && (
+              <div className="text-xs flex flex-col gap-1">
+                <p className="text-gray-400">{message.text}</p>
+                {message.errors.length > 0 && (
+                  <ul className="flex flex-col gap-0.5 text-amber-300/90 max-h-24 overflow-y-auto">
+                    {message.errors.map((error, i) => (
+                      <li key={i} className="flex items-start gap-1">
+                        <AlertTriangle size={12} className="shrink-0 mt-0.5" /> {error}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            )}
+          </div>
+        );
+      })}
+      <p className="md:col-span-3 text-xs text-gray-500">
+        样本按 hash 匹配（不区分大小写），重复导入会覆盖同一 hash 的记录；检测结果按产品名称匹配软件，不存在的软件会自动添加。
+        白样本被标记（detected 或 late）即计为误报。
+      </p>
+    </div>
+  );
+
+  const renderResults = () => (
+    <div className="flex flex-col gap-6">
+      {testedSoftwares.length === 0 ? (
+        <p className="text-sm text-gray-500 text-center py-6">尚未导入检测结果</p>
+      ) : (
+        <div className="overflow-x-auto border border-gray-700 rounded-lg">
+          <table className="min-w-full text-xs">
+            <thead className="bg-gray-900/50 text-gray-400">
+              <tr>
+                <th className="px-3 py-2 text-left font-medium">软件</th>
+                <th className="px-3 py-2 text-right font-medium">总体检出率</th>
+                {categories.map(category => (
+                  <th key={category} className="px-3 py-2 text-right font-medium whitespace-nowrap">{category}</th>
+                ))}
+                <th className="px-3 py-2 text-right font-medium">误报率</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-700">
+              {testedSoftwares.map(sw => {
+                const result = computeProductDetection(test, sw.id);
+                return (
+                  <tr key={sw.id}>
+                    <td className="px-3 py-2 whitespace-nowrap font-medium" style={{ color: sw.color }}>{sw.name}</td>
+                    <td className="px-3 py-2 text-right whitespace-nowrap">
+                      <span className="font-bold text-white">{formatRate(result.overall.rate)}</span>
+                      <span className="block text-[10px] text-gray-500">
+                        检出 {result.overall.detected} · 延迟 {result.overall.late} · 漏检 {result.overall.missed}
+                      </span>
+                    </td>
+                    {categories.map(category => {
+                      const stats = result.byCategory[category];
+                      return (
+                        <td key={category} className="px-3 py-2 text-right whitespace-nowrap">
+                          <button
+                            onClick={() => {
+                              setMissedSoftwareId(sw.id);
+                              setMissedCategory(category);
+                              setTab('missed');
+                            }}
+                            className="text-gray-200 hover:text-blue-300"
+                            title="查看漏检样本"
+                          >
+                            {formatRate(stats?.rate ?? null)}
+                          </button>
+                          {stats && <span className="block text-[10px] text-gray-500">{stats.tested} 个样本</span>}
+                        </td>
+                      );
+                    })}
+                    <td className="px-3 py-2 text-right whitespace-nowrap">
+                      <span className="text-gray-200">{formatRate(result.falsePositive.rate)}</span>
+                      {result.falsePositive.tested > 0 && (
+                        <span className="block text-[10px] text-gray-500">
+                          {result.falsePositive.flagged} / {result.falsePositive.tested}
+                        </span>
+                      )}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      <section className="flex flex-col gap-2">
+        <h4 className="text-sm font-semibold text-gray-200">延迟检出</h4>
+        <div className="flex gap-2 flex-wrap">
+          {LATE_CREDIT_OPTIONS.map(option => (
+            <button
+              key={option.value}
+              onClick={() => onUpdate(d => updateDetectionTest(d, { lateCredit: option.value }))}
+              className={`px-3 py-1.5 rounded border text-xs ${test.lateCredit === option.value ? 'border-blue-500 bg-blue-900/30 text-white' : 'border-gray-700 text-gray-400 hover:border-gray-500'}`}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+      </section>
+
+      <section className="flex flex-col gap-2">
+        <h4 className="text-sm font-semibold text-gray-200">写入维度</h4>
+        <p className="text-xs text-gray-500">关联的维度以百分比作为实测值，并按维度的换算规则评分；检测数据变化时自动更新。</p>
+        <div className="border border-gray-700 rounded-lg divide-y divide-gray-700">
+          {linkTargets.map(({ target, label }) => {
+            const dimId = linkedDimensionId(test.links, target) ?? '';
+            const linked = data.dimensions.some(d => d.id === dimId);
+            return (
+              <div key={label} className="p-3 text-sm flex items-center gap-3">
+                <span className="flex-1 text-gray-200">{label}</span>
+                <select
+                  value={linked ? dimId : ''}
+                  onChange={(e) => onUpdate(d => setDetectionLink(d, target, e.target.value || undefined))}
+                  className="w-48 bg-gray-900 border border-gray-600 rounded p-1.5 text-white text-sm focus:ring-2 focus:ring-blue-500 outline-none"
+                >
+                  <option value="">不关联</option>
+                  {data.dimensions.map(d => (
+                    <option key={d.id} value={d.id}>{d.name}</option>
+                  ))}
+                </select>
+                <button
+                  onClick={() => onUpdate(d => createLinkedDimension(d, target))}
+                  disabled={linked}
+                  className="flex items-center gap-1 text-xs text-blue-300 hover:text-blue-200 disabled:invisible"
+                  title="新建百分比维度并关联"
+                >
+                  <Plus size={12} /> 新建维度
+                </button>
+              </div>
+            );
+          })}
+        </div>
+      </section>
+    </div>
+  );
+
+  const renderMissed = () => {
+    // Falls back to the first tested product, e.g. after results are imported or cleared
+    const softwareId = testedSoftwares.some(sw => sw.id === missedSoftwareId) ? missedSoftwareId : testedSoftwares[0]?.id ?? '';
+    const entries = softwareId
+      ? missedSamples(test, softwareId, missedCategory || undefined).filter(e => includeLate || e.verdict === 'missed')
+      : [];
+    const falsePositives = softwareId ? falsePositiveSamples(test, softwareId) : [];
+    return (
+      <div className="flex flex-col gap-4">
+        <div className="flex items-center gap-3 flex-wrap text-sm">
+          <select
+            value={softwareId}
+            onChange={(e) => setMissedSoftwareId(e.target.value)}
+            className="bg-gray-900 border border-gray-600 rounded p-1.5 text-white focus:ring-2 focus:ring-blue-500 outline-none"
+          >
+            {testedSoftwares.length === 0 && <option value="">暂无检测结果</option>}
+            {testedSoftwares.map(sw => (
+              <option key={sw.id} value={sw.id}>{sw.name}</option>
+            ))}
+          </select>
+          <select
+            value={missedCategory}
+            onChange={(e) => setMissedCategory(e.target.value)}
+            className="bg-gray-900 border border-gray-600 rounded p-1.5 text-white focus:ring-2 focus:ring-blue-500 outline-none"
+          >
+            <option value="">全部类别</option>
+            {categories.map(category => (
+              <option key={category} value={category}>{category}</option>
+            ))}
+          </select>
+          <label className="flex items-center gap-2 text-gray-300 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={includeLate}
+              onChange={(e) => setIncludeLate(e.target.checked)}
+              className="accent-blue-500"
+            />
+            包含延迟检出
+          </label>
+          <span className="text-gray-500 ml-auto">共 {entries.length} 个样本</span>
+        </div>
+
+        {entries.length > 0 ? (
+          <div className="overflow-x-auto border border-gray-700 rounded-lg">
+            <table className="min-w-full text-xs">
+              <thead className="bg-gray-900/50 text-gray-400">
+                <tr>
+                  <th className="px-3 py-2 text-left font-medium">Hash</th>
+                  <th className="px-3 py-2 text-left font-medium">家族</th>
+                  <th className="px-3 py-2 text-left font-medium">类别</th>
+                  <th className="px-3 py-2 text-left font-medium">日期</th>
+                  <th className="px-3 py-2 text-left font-medium">结果</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-700">
+                {entries.slice(0, MAX_ROWS).map(({ sample, verdict }) => (
+                  <tr key={sample.hash}>
+                    <td className="px-3 py-1.5 font-mono text-gray-300 max-w-[280px] truncate" title={sample.hash}>{sample.hash}</td>
+                    <td className="px-3 py-1.5 text-gray-200">{sample.family}</td>
+                    <td className="px-3 py-1.5 text-gray-400">{sample.category}</td>
+                    <td className="px-3 py-1.5 text-gray-400 whitespace-nowrap">{sample.date ?? '-'}</td>
+                    <td className="px-3 py-1.5">
+                      <span className={`px-2 py-0.5 rounded-full ${VERDICT_STYLES[verdict]}`}>{VERDICT_LABELS[verdict]}</span>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            {entries.length > MAX_ROWS && (
+              <p className="px-3 py-2 text-xs text-gray-500 border-t border-gray-700">仅显示前 {MAX_ROWS} 个样本</p>
+            )}
+          </div>
+        ) : (
+          softwareId && <p className="text-sm text-gray-500 text-center py-6">没有漏检样本</p>
+        )}
+
+        {falsePositives.length > 0 && !missedCategory && (
+          <section className="flex flex-col gap-2">
+            <h4 className="text-sm font-semibold text-gray-200">误报文件（{falsePositives.length}）</h4>
+            <ul className="border border-gray-700 rounded-lg divide-y divide-gray-700 text-xs">
+              {falsePositives.slice(0, MAX_ROWS).map(sample => (
+                <li key={sample.hash} className="px-3 py-1.5 flex gap-3">
+                  <span className="font-mono text-gray-300 truncate">{sample.hash}</span>
+                  {sample.name && <span className="text-gray-400 truncate">{sample.name}</span>}
+                </li>
+              ))}
+            </ul>
+          </section>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/80 flex items-center justify-center z-50 backdrop-blur-sm p-4">
+      <input
+        type="file"
+        ref={fileInputRef}
+        accept=".json,.csv"
+        className="hidden"
+        onChange={(e) => handleFile(e.target.files?.[0])}
+      />
+      <div className="bg-gray-800 rounded-xl w-full max-w-5xl border border-gray-700 shadow-2xl flex flex-col max-h-[90vh]">
+        <div className="p-5 border-b border-gray-700 flex justify-between items-center bg-gray-900/50 rounded-t-xl">
+          <div className="flex items-center gap-3">
+            <div className="bg-blue-900/30 p-2 rounded-lg text-blue-400">
+              <Bug size={20} />
+            </div>
+            <div>
+              <h3 className="text-lg font-bold text-white">样本检出测试</h3>
+              <p className="text-sm text-gray-400">
+                {test.samples.length} 个恶意样本 · {test.cleanSamples.length} 个白样本 · {testedSoftwares.length} 个产品
+              </p>
+            </div>
+          </div>
+          <button onClick={onClose} className="text-gray-500 hover:text-white transition-colors"><X size={24}/></button>
+        </div>
+
+        <div className="flex gap-1 px-5 pt-3 border-b border-gray-700">
+          {(Object.keys(TAB_LABELS) as DetectionTab[]).map(key => (
+            <button
+              key={key}
+              onClick={() => setTab(key)}
+              className={`px-4 py-2 text-sm rounded-t-lg border-b-2 -mb-px transition-colors ${tab === key ? 'border-blue-500 text-white' : 'border-transparent text-gray-400 hover:text-gray-200'}`}
+            >
+              {TAB_LABELS[key]}
+            </button>
+          ))}
+        </div>
+
+        <div className="p-6 flex-1 overflow-y-auto">
+          {tab === 'import' && renderImport()}
+          {tab === 'results' && renderResults()}
+          {tab === 'missed' && renderMissed()}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default DetectionPanel;
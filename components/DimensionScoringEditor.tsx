@@ -0,0 +1,214 @@
+import React, { useState, useRef, useEffect } from 'react';
+import { Dimension, NormalizationRule, ScoreThreshold } from '../types';
+import { sortThresholds } from '../utils/normalization';
+import { Plus, X } from 'lucide-react';
+
+type RuleType = 'manual' | NormalizationRule['type'];
+
+export interface DimensionScoringSettings {
+  unit?: string;
+  lowerIsBetter?: boolean;
+  normalization?: NormalizationRule;
+}
+
+interface DimensionScoringEditorProps {
+  dimension: Dimension;
+  onSave: (settings: DimensionScoringSettings) => void;
+  onClose: () => void;
+}
+
+const DimensionScoringEditor: React.FC<DimensionScoringEditorProps> = ({
+  dimension,
+  onSave,
+  onClose,
+}) => {
+  const rule = dimension.normalization;
+  const [unit, setUnit] = useState(dimension.unit || '');
+  const [lowerIsBetter, setLowerIsBetter] = useState(!!dimension.lowerIsBetter);
+  const [ruleType, setRuleType] = useState<RuleType>(rule ? rule.type : 'manual');
+  const [min, setMin] = useState(rule && rule.type !== 'thresholds' ? String(rule.min) : '0');
+  const [max, setMax] = useState(rule && rule.type !== 'thresholds' ? String(rule.max) : '100');
+  const [thresholds, setThresholds] = useState<ScoreThreshold[]>(
+    rule && rule.type === 'thresholds' ? rule.thresholds : [{ value: 0, score: 5 }]
+  );
+  const [error, setError] = useState('');
+  const popoverRef = useRef<HTMLDivElement>(null);
+
+  // Close popover on click outside
+  useEffect(() => {
+    const handleClickOutside = (event: MouseEvent) => {
+      if (popoverRef.current && !popoverRef.current.contains(event.target as Node)) {
+        onClose();
+      }
+    };
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => {
+      document.removeEventListener('mousedown', handleClickOutside);
+    };
+  }, [onClose]);
+
+  const updateThreshold = (index: number, field: keyof ScoreThreshold, value: number) => {
+    setThresholds(prev => prev.map((th, i) => (i === index ? { ...th, [field]: value } : th)));
+  };
+
+  const handleSave = () => {
+    let normalization: NormalizationRule | undefined;
+    if (ruleType === 'linear' || ruleType === 'log') {
+      const minVal = Number(min);
+      const maxVal = Number(max);
+      if (!Number.isFinite(minVal) || !Number.isFinite(maxVal) || minVal === maxVal) {
+        setError('最小值与最大值必须是不同的数字');
+        return;
+      }
+      if (ruleType === 'log' && (minVal <= 0 || maxVal <= 0)) {
+        setError('对数刻度要求最小值与最大值大于 0');
+        return;
+      }
+      normalization = { type: ruleType, min: minVal, max: maxVal };
+    } else if (ruleType === 'thresholds') {
+      if (thresholds.length === 0) {
+        setError('至少需要一个阈值');
+        return;
+      }
+      normalization = { type: 'thresholds', thresholds: sortThresholds(thresholds, lowerIsBetter) };
+    }
+    onSave({
+      unit: unit.trim() || undefined,
+      lowerIsBetter,
+      normalization,
+    });
+  };
+
+  return (
+    <div
+      ref={popoverRef}
+      className="absolute top-full left-4 mt-2 w-72 bg-gray-800 border border-gray-600 rounded-lg shadow-xl p-3 z-50 flex flex-col gap-3 text-left font-normal"
+      onMouseDown={(e) => e.stopPropagation()} // Prevent drag start
+    >
+      <div className="flex flex-col gap-1">
+        <label className="text-[10px] text-gray-400 uppercase">实测单位</label>
+        <input
+          type="text"
+          value={unit}
+          onChange={(e) => setUnit(e.target.value)}
+          placeholder="例如：MB、%、Wh"
+          className="w-full bg-gray-900 border border-gray-700 rounded p-1.5 text-white text-sm focus:border-blue-500 outline-none"
+          autoFocus
+        />
+      </div>
+
+      <label className="flex items-center gap-2 text-sm text-gray-300 cursor-pointer">
+        <input
+          type="checkbox"
+          checked={lowerIsBetter}
+          onChange={(e) => setLowerIsBetter(e.target.checked)}
+          className="accent-blue-500"
+        />
+        数值越低越好
+      </label>
+
+      <div className="flex flex-col gap-1">
+        <label className="text-[10px] text-gray-400 uppercase">评分换算规则</label>
+        <select
+          value={ruleType}
+          onChange={(e) => {
+            setRuleType(e.target.value as RuleType);
+            setError('');
+          }}
+          className="w-full bg-gray-900 border border-gray-700 rounded p-1.5 text-white text-sm focus:border-blue-500 outline-none"
+        >
+          <option value="manual">手动评分</option>
+          <option value="linear">线性 (最小值 / 最大值)</option>
+          <option value="log">对数刻度</option>
+          <option value="thresholds">阈值分段</option>
+        </select>
+      </div>
+
+      {(ruleType === 'linear' || ruleType === 'log') && (
+        <div className="flex gap-2">
+          <div className="flex flex-col gap-1 flex-1">
+            <label className="text-[10px] text-gray-400 uppercase">最小值</label>
+            <input
+              type="number"
+              value={min}
+              onChange={(e) => setMin(e.target.value)}
+              className="w-full bg-gray-900 border border-gray-700 rounded p-1.5 text-white text-sm focus:border-blue-500 outline-none"
+            />
+          </div>
+          <div className="flex flex-col gap-1 flex-1">
+            <label className="text-[10px] text-gray-400 uppercase">最大值</label>
+            <input
+              type="number"
+              value={max}
+              onChange={(e) => setMax(e.target.value)}
+              className="w-full bg-gray-900 border border-gray-700 rounded p-1.5 text-white text-sm focus:border-blue-500 outline-none"
+            />
+          </div>
+        </div>
+      )}
+
+      {ruleType === 'thresholds' && (
+        <div className="flex flex-col gap-1">
+          <label className="text-[10px] text-gray-400 uppercase">
+            {lowerIsBetter ? '实测值 ≤ 阈值 时得分' : '实测值 ≥ 阈值 时得分'}（取满足条件的最严格阈值）
+          </label>
+          {thresholds.map((th, index) => (
+            <div key={index} className="flex items-center gap-1">
+              <input
+                type="number"
+                value={th.value}
+                onChange={(e) => updateThreshold(index, 'value', Number(e.target.value))}
+                className="w-20 bg-gray-900 border border-gray-700 rounded p-1 text-white text-xs focus:border-blue-500 outline-none"
+                title="阈值"
+              />
+              <span className="text-xs text-gray-500">→</span>
+              <input
+                type="number"
+                min="0"
+                max="10"
+                value={th.score}
+                onChange={(e) => updateThreshold(index, 'score', Number(e.target.value))}
+                className="w-14 bg-gray-900 border border-gray-700 rounded p-1 text-white text-xs focus:border-blue-500 outline-none"
+                title="得分"
+              />
+              <span className="text-xs text-gray-500">分</span>
+              <button
+                onClick={() => setThresholds(prev => prev.filter((_, i) => i !== index))}
+                className="ml-auto text-gray-500 hover:text-red-400"
+                title="删除阈值"
+              >
+                <X size={12} />
+              </button>
+            </div>
+          ))}
+          <button
+            onClick={() => setThresholds(prev => [...prev, { value: 0, score: 0 }])}
+            className="flex items-center gap-1 text-xs text-gray-400 hover:text-blue-400 mt-1"
+          >
+            <Plus size={12} />
+            添加阈值
+          </button>
+        </div>
+      )}
+
+      {error && <p className="text-xs text-red-400">{error}</p>}
+
+      <div className="flex justify-end gap-2 mt-1">
+        <button
+          onClick={onClose}
+          className="px-2 py-1 text-xs text-gray-400 hover:text-white"
+        >
+          取消
+        </button>
+        <button
+          onClick={handleSave}
+          className="px-3 py-1 bg-blue-600 hover:bg-blue-500 text-white text-xs rounded"
+        >
+          保存
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default DimensionScoringEditor;
@@ -0,0 +1,175 @@
+import React, { useState } from 'react';
+import { AggregationMethod, EvaluationSettings, Evaluator } from '../types';
+import { AGGREGATION_LABELS } from '../utils/evaluators';
+import { X, Users, UserPlus, Trash2 } from 'lucide-react';
+
+interface EvaluatorPanelProps {
+  evaluators: Evaluator[];
+  settings: EvaluationSettings;
+  disagreementCount: number;
+  onAdd: (name: string) => void;
+  onRename: (id: string, name: string) => void;
+  onDelete: (id: string) => void;
+  onUpdateSettings: (settings: EvaluationSettings) => void;
+  onClose: () => void;
+}
+
+const AGGREGATION_HINTS: Record<AggregationMethod, string> = {
+  mean: '所有评估人评分的算术平均',
+  median: '排序后取中间值，不受个别极端评分影响',
+  trimmedMean: '去掉最高与最低约 20% 的评分后取平均（至少 3 人时生效）',
+};
+
+interface EvaluatorRowProps {
+  evaluator: Evaluator;
+  onRename: (id: string, name: string) => void;
+  onDelete: (id: string) => void;
+}
+
+const EvaluatorRow: React.FC<EvaluatorRowProps> = ({ evaluator, onRename, onDelete }) => {
+  const [name, setName] = useState(evaluator.name);
+
+  const handleSave = () => {
+    if (name.trim() && name.trim() !== evaluator.name) {
+      onRename(evaluator.id, name.trim());
+    } else {
+      setName(evaluator.name);
+    }
+  };
+
+  return (
+    <li className="group flex items-center gap-2 bg-gray-900/50 border border-gray-700 rounded-lg px-3 py-2">
+      <input
+        type="text"
+        value={name}
+        onChange={(e) => setName(e.target.value)}
+        onBlur={handleSave}
+        onKeyDown={(e) => e.key === 'Enter' && (e.target as HTMLInputElement).blur()}
+        className="flex-1 min-w-0 bg-transparent border border-transparent hover:border-gray-700 focus:border-blue-500 rounded px-2 py-1 text-sm text-gray-200 outline-none"
+      />
+      <button
+        onClick={() => onDelete(evaluator.id)}
+        className="p-1 text-gray-500 hover:text-red-400 opacity-0 group-hover:opacity-100 transition-opacity"
+        title="删除评估人及其评分"
+      >
+        <Trash2 size={14} />
+      </button>
+    </li>
+  );
+};
+
+// Manage evaluator profiles and how their scores are combined
+const EvaluatorPanel: React.FC<EvaluatorPanelProps> = ({
+  evaluators,
+  settings,
+  disagreementCount,
+  onAdd,
+  onRename,
+  onDelete,
+  onUpdateSettings,
+  onClose,
+}) => {
+  const [newName, setNewName] = useState('');
+
+  const handleAdd = () => {
+    if (!newName.trim()) return;
+    onAdd(newName.trim());
+    setNewName('');
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/80 flex items-center justify-center z-50 backdrop-blur-sm p-4">
+      <div className="bg-gray-800 rounded-xl w-full max-w-lg border border-gray-700 shadow-2xl flex flex-col max-h-[90vh]">
+        <div className="p-5 border-b border-gray-700 flex justify-between items-center bg-gray-900/50 rounded-t-xl">
+          <div className="flex items-center gap-3">
+            <div className="bg-blue-900/30 p-2 rounded-lg text-blue-400">
+              <Users size={20} />
+            </div>
+            <div>
+              <h3 className="text-lg font-bold text-white">评估人</h3>
+              <p className="text-sm text-gray-400">多人独立评分，汇总后用于表格与图表</p>
+            </div>
+          </div>
+          <button onClick={onClose} className="text-gray-500 hover:text-white transition-colors"><X size={24}/></button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-5 flex flex-col gap-6">
+          <section className="flex flex-col gap-3">
+            <div className="flex gap-2">
+              <input
+                className="flex-1 bg-gray-900 border border-gray-600 rounded p-2 text-white text-sm focus:ring-2 focus:ring-blue-500 outline-none"
+                placeholder="评估人名称，例如：张工"
+                value={newName}
+                onChange={(e) => setNewName(e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && handleAdd()}
+              />
+              <button
+                onClick={handleAdd}
+                className="flex items-center gap-1 px-3 py-2 bg-blue-600 hover:bg-blue-500 text-white rounded text-sm font-medium"
+              >
+                <UserPlus size={16} /> 添加
+              </button>
+            </div>
+            <ul className="flex flex-col gap-2">
+              {evaluators.map(evaluator => (
+                <EvaluatorRow key={evaluator.id} evaluator={evaluator} onRename={onRename} onDelete={onDelete} />
+              ))}
+              {evaluators.length === 0 && (
+                <li className="text-sm text-gray-500 text-center py-4">
+                  暂无评估人，表格中的评分即为最终评分
+                </li>
+              )}
+            </ul>
+          </section>
+
+          <section className="flex flex-col gap-3">
+            <h4 className="text-sm font-semibold text-gray-200">汇总方式</h4>
+            <div className="flex flex-col gap-2">
+              {(Object.keys(AGGREGATION_LABELS) as AggregationMethod[]).map(method => (
+                <label
+                  key={method}
+                  className={`flex items-start gap-3 p-3 rounded-lg border cursor-pointer transition-colors ${settings.method === method ? 'border-blue-500 bg-blue-900/20' : 'border-gray-700 hover:border-gray-600'}`}
+                >
+                  <input
+                    type="radio"
+                    name="aggregation"
+                    checked={settings.method === method}
+                    onChange={() => onUpdateSettings({ ...settings, method })}
+                    className="mt-1 accent-blue-500"
+                  />
+                  <span>
+                    <span className="block text-sm text-gray-200">{AGGREGATION_LABELS[method]}</span>
+                    <span className="block text-xs text-gray-500">{AGGREGATION_HINTS[method]}</span>
+                  </span>
+                </label>
+              ))}
+            </div>
+          </section>
+
+          <section className="flex flex-col gap-2">
+            <h4 className="text-sm font-semibold text-gray-200">分歧提示</h4>
+            <div className="flex items-center gap-2 text-sm text-gray-400">
+              <span>最高分与最低分相差超过</span>
+              <input
+                type="number"
+                min="0"
+                max="10"
+                step="0.5"
+                value={settings.disagreementThreshold}
+                onChange={(e) => onUpdateSettings({
+                  ...settings,
+                  disagreementThreshold: Math.max(0, Math.min(10, Number(e.target.value) || 0)),
+                })}
+                className="w-16 bg-gray-900 border border-gray-600 rounded text-center text-white focus:ring-2 focus:ring-blue-500 outline-none p-1"
+              />
+              <span>分时标记</span>
+            </div>
+            <p className="text-xs text-gray-500">当前共有 {disagreementCount} 个单元格存在分歧。</p>
+          </section>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default EvaluatorPanel;
@@ -0,0 +1,71 @@
+import React, { useState, useRef, useEffect } from 'react';
+import { Download, ChevronDown } from 'lucide-react';
+
+export interface ExportMenuItem {
+  key: string;
+  label: string;
+  hint?: string;
+  icon: React.ReactNode;
+  onSelect: () => void;
+}
+
+interface ExportMenuProps {
+  items: ExportMenuItem[];
+}
+
+const ExportMenu: React.FC<ExportMenuProps> = ({ items }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  // Close menu on click outside
+  useEffect(() => {
+    const handleClickOutside = (event: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+    if (isOpen) {
+      document.addEventListener('mousedown', handleClickOutside);
+    }
+    return () => {
+      document.removeEventListener('mousedown', handleClickOutside);
+    };
+  }, [isOpen]);
+
+  return (
+    <div ref={menuRef} className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="flex items-center gap-2 px-3 py-2 bg-gray-700 hover:bg-gray-600 text-gray-200 rounded-lg transition-all text-sm font-medium border border-gray-600"
+        title="导出"
+      >
+        <Download size={16} />
+        <span className="hidden sm:inline">导出</span>
+        <ChevronDown size={14} className="text-gray-400" />
+      </button>
+
+      {isOpen && (
+        <div className="absolute top-full right-0 mt-2 w-56 bg-gray-800 border border-gray-600 rounded-lg shadow-xl z-50 py-1">
+          {items.map(item => (
+            <button
+              key={item.key}
+              onClick={() => {
+                setIsOpen(false);
+                item.onSelect();
+              }}
+              className="w-full flex items-start gap-3 px-3 py-2 text-left hover:bg-gray-700/60 transition-colors"
+            >
+              <span className="text-gray-400 mt-0.5 shrink-0">{item.icon}</span>
+              <span className="flex flex-col">
+                <span className="text-sm text-gray-200">{item.label}</span>
+                {item.hint && <span className="text-[11px] text-gray-500">{item.hint}</span>}
+              </span>
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ExportMenu;
@@ -0,0 +1,89 @@
+import React from 'react';
+import { Software, Dimension } from '../types';
+import { computeWeightedScore } from '../utils/scoring';
+
+interface HeatmapVisProps {
+  softwares: Software[];
+  dimensions: Dimension[];
+}
+
+// 0 is red, 5 amber, 10 green
+const scoreColor = (score: number) => `hsl(${(Math.max(0, Math.min(10, score)) / 10) * 120}, 65%, 38%)`;
+
+const LEGEND_STEPS = [0, 2, 4, 6, 8, 10];
+
+// Recharts has no heatmap, so this is a plain grid using the same data and colors
+const HeatmapVis: React.FC<HeatmapVisProps> = ({ softwares, dimensions }) => {
+  return (
+    <div className="w-full bg-gray-800 rounded-xl p-4 shadow-lg border border-gray-700 flex flex-col">
+      <h3 className="text-lg font-semibold text-gray-200 mb-4 text-center">评分热力图</h3>
+
+      {softwares.length === 0 || dimensions.length === 0 ? (
+        <p className="text-sm text-gray-500 text-center py-16">暂无数据</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full border-separate border-spacing-1 text-sm">
+            <thead>
+              <tr>
+                <th className="w-40"></th>
+                {dimensions.map(dim => (
+                  <th key={dim.id} className="px-2 py-1 text-xs font-medium text-gray-400 min-w-[72px]">
+                    {dim.name}
+                  </th>
+                ))}
+                <th className="px-2 py-1 text-xs font-medium text-blue-400 min-w-[72px]">加权总分</th>
+              </tr>
+            </thead>
+            <tbody>
+              {softwares.map(sw => {
+                const total = computeWeightedScore(sw, dimensions);
+                return (
+                  <tr key={sw.id}>
+                    <td className="pr-2 py-1">
+                      <div className="flex items-center gap-2">
+                        <span className="w-3 h-3 rounded-full shrink-0" style={{ backgroundColor: sw.color }} />
+                        <span className="text-gray-200 font-medium truncate">{sw.name}</span>
+                      </div>
+                    </td>
+                    {dimensions.map(dim => {
+                      const score = sw.scores[dim.id] || 0;
+                      return (
+                        <td
+                          key={dim.id}
+                          className="h-11 rounded text-center font-semibold text-white"
+                          style={{ backgroundColor: scoreColor(score) }}
+                          title={`${sw.name} · ${dim.name}: ${score}`}
+                        >
+                          {score}
+                        </td>
+                      );
+                    })}
+                    <td
+                      className="h-11 rounded text-center font-bold text-white ring-1 ring-inset ring-white/20"
+                      style={{ backgroundColor: scoreColor(total) }}
+                    >
+                      {total.toFixed(2)}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {/* Color Scale */}
+      <div className="mt-4 flex items-center justify-center gap-2 border-t border-gray-700/50 pt-4 text-xs text-gray-400">
+        <span>低</span>
+        {LEGEND_STEPS.map(step => (
+          <span key={step} className="w-8 h-4 rounded-sm flex items-center justify-center text-[10px] text-white" style={{ backgroundColor: scoreColor(step) }}>
+            {step}
+          </span>
+        ))}
+        <span>高</span>
+      </div>
+    </div>
+  );
+};
+
+export default HeatmapVis;
@@ -0,0 +1,61 @@
+import React from 'react';
+import { ImportIssue, columnLabel } from '../utils/csv';
+import { AlertCircle, AlertTriangle, CheckCircle2 } from 'lucide-react';
+
+interface ImportValidationReportProps {
+  issues: ImportIssue[];
+}
+
+const ImportValidationReport: React.FC<ImportValidationReportProps> = ({ issues }) => {
+  const errors = issues.filter(issue => issue.severity === 'error');
+  const warnings = issues.filter(issue => issue.severity === 'warning');
+  const showSheet = issues.some(issue => issue.sheet);
+
+  if (issues.length === 0) {
+    return (
+      <div className="flex items-center gap-2 text-sm text-green-400">
+        <CheckCircle2 size={16} />
+        文件校验通过
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex flex-col gap-2">
+      <div className={`flex items-center gap-2 text-sm ${errors.length > 0 ? 'text-red-300' : 'text-yellow-300'}`}>
+        {errors.length > 0 ? <AlertCircle size={16} /> : <AlertTriangle size={16} />}
+        {errors.length > 0
+          ? `发现 ${errors.length} 个错误${warnings.length > 0 ? `、${warnings.length} 个警告` : ''}，请修正文件后重新导入`
+          : `发现 ${warnings.length} 个警告，确认无误后仍可导入`}
+      </div>
+      <div className="border border-gray-700 rounded-lg overflow-hidden max-h-60 overflow-y-auto">
+        <table className="min-w-full divide-y divide-gray-700 text-xs">
+          <thead className="bg-gray-900/50 text-gray-400 sticky top-0">
+            <tr>
+              <th className="px-3 py-2 text-left w-16">级别</th>
+              {showSheet && <th className="px-3 py-2 text-left w-24">工作表</th>}
+              <th className="px-3 py-2 text-left w-14">行</th>
+              <th className="px-3 py-2 text-left w-14">列</th>
+              <th className="px-3 py-2 text-left">问题</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-700">
+            {[...errors, ...warnings].map((issue, index) => (
+              <tr key={index} className={issue.severity === 'error' ? 'bg-red-900/10' : ''}>
+                <td className={`px-3 py-1.5 font-medium ${issue.severity === 'error' ? 'text-red-400' : 'text-yellow-400'}`}>
+                  {issue.severity === 'error' ? '错误' : '警告'}
+                </td>
+                {showSheet && <td className="px-3 py-1.5 text-gray-300">{issue.sheet ?? '—'}</td>}
+                <td className="px-3 py-1.5 text-gray-300 font-mono">{issue.row}</td>
+                <td className="px-3 py-1.5 text-gray-300 font-mono">{issue.column ? columnLabel(issue.column) : '—'}</td>
+                <td className="px-3 py-1.5 text-gray-200">{issue.message}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default ImportValidationReport;
@@ -0,0 +1,252 @@
+import React, { useMemo, useState } from 'react';
+import { ComparisonData } from '../types';
+import {
+  ConflictChoice,
+  MergeCellChange,
+  MERGE_FIELD_LABELS,
+  buildReplacementData,
+  mergeImportedTable
+} from '../utils/importTable';
+import { ImportReadResult, hasBlockingIssues } from '../utils/csv';
+import ImportValidationReport from './ImportValidationReport';
+import { X, Upload, GitMerge, Replace, AlertTriangle } from 'lucide-react';
+
+export type ImportMode = 'merge' | 'replace';
+
+interface ImportWizardProps {
+  fileName: string;
+  result: ImportReadResult;
+  currentData: ComparisonData;
+  onApply: (data: ComparisonData, mode: ImportMode) => void;
+  onCancel: () => void;
+}
+
+const formatValue = (value: number | string | undefined) => {
+  if (value === undefined || value === '') return '（空）';
+  return String(value);
+};
+
+const ImportWizard: React.FC<ImportWizardProps> = ({
+  fileName,
+  result,
+  currentData,
+  onApply,
+  onCancel,
+}) => {
+  const [mode, setMode] = useState<ImportMode>('merge');
+  const [resolutions, setResolutions] = useState<Record<string, ConflictChoice>>({});
+
+  const { table, issues } = result;
+  const blocked = hasBlockingIssues(result);
+  // Computed once per table, so new softwares, dimensions and categories keep their ids and colors
+  const baseMerge = useMemo(
+    () => (table && !blocked ? mergeImportedTable(table, currentData) : null),
+    [table, blocked, currentData]
+  );
+  const merge = useMemo(
+    () => (table && baseMerge ? mergeImportedTable(table, currentData, resolutions, baseMerge.data) : null),
+    [table, baseMerge, currentData, resolutions]
+  );
+
+  const setAllResolutions = (choice: ConflictChoice) => {
+    if (!merge) return;
+    setResolutions(Object.fromEntries(merge.plan.conflicts.map(c => [c.key, choice])));
+  };
+
+  const handleApply = () => {
+    if (!table || !merge) return;
+    onApply(mode === 'merge' ? merge.data : buildReplacementData(table, currentData), mode);
+  };
+
+  const renderChangeLabel = (change: MergeCellChange) => (
+    <>
+      <span className="text-gray-200">{change.softwareName}</span>
+      <span className="text-gray-500"> · {change.dimensionName} · {MERGE_FIELD_LABELS[change.field]}</span>
+    </>
+  );
+
+  return (
+    <div className="fixed inset-0 bg-black/80 flex items-center justify-center z-50 backdrop-blur-sm p-4">
+      <div className="bg-gray-800 rounded-xl w-full max-w-4xl border border-gray-700 shadow-2xl flex flex-col max-h-[90vh]">
+        <div className="p-5 border-b border-gray-700 flex justify-between items-center bg-gray-900/50 rounded-t-xl">
+          <div className="flex items-center gap-3">
+            <div className="bg-blue-900/30 p-2 rounded-lg text-blue-400">
+              <Upload size={20} />
+            </div>
+            <div>
+              <h3 className="text-lg font-bold text-white">导入数据</h3>
+              <p className="text-sm text-gray-400">
+                {fileName}
+                {table && ` · ${table.softwareNames.length} 个软件 · ${table.dimensions.length} 个维度`}
+              </p>
+            </div>
+          </div>
+          <button onClick={onCancel} className="text-gray-500 hover:text-white transition-colors"><X size={24}/></button>
+        </div>
+
+        <div className="p-6 flex-1 overflow-y-auto flex flex-col gap-5">
+          {/* Validation Report */}
+          <ImportValidationReport issues={issues} />
+
+          {table && merge && (
+            <>
+              {/* Mode Selection */}
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                <button
+                  onClick={() => setMode('merge')}
+                  className={`flex items-start gap-3 p-4 rounded-lg border text-left transition-colors ${mode === 'merge' ? 'border-blue-500 bg-blue-900/20' : 'border-gray-700 bg-gray-900/50 hover:border-gray-500'}`}
+                >
+                  <GitMerge size={20} className="text-blue-400 shrink-0 mt-0.5" />
+                  <div>
+                    <p className="font-medium text-white">合并到当前数据</p>
+                    <p className="text-xs text-gray-400 mt-1">按名称匹配软件与维度，只更新文件中出现的单元格</p>
+                  </div>
+                </button>
+                <button
+                  onClick={() => setMode('replace')}
+                  className={`flex items-start gap-3 p-4 rounded-lg border text-left transition-colors ${mode === 'replace' ? 'border-red-500 bg-red-900/20' : 'border-gray-700 bg-gray-900/50 hover:border-gray-500'}`}
+                >
+                  <Replace size={20} className="text-red-400 shrink-0 mt-0.5" />
+                  <div>
+                    <p className="font-medium text-white">替换全部数据</p>
+                    <p className="text-xs text-gray-400 mt-1">用文件内容覆盖当前表格，未出现在文件中的软件与维度将被移除</p>
+                  </div>
+                </button>
+              </div>
+
+              {mode === 'replace' ? (
+                <div className="flex items-start gap-3 p-4 rounded-lg border border-red-900/50 bg-red-900/10 text-sm text-red-200">
+                  <AlertTriangle size={18} className="shrink-0 mt-0.5" />
+                  <p>
+                    当前的 {currentData.softwares.length} 个软件与 {currentData.dimensions.length} 个维度将被替换为文件中的
+                    {' '}{table.softwareNames.length} 个软件与 {table.dimensions.length} 个维度。同名的软件与维度保留其附件、历史版本与关联设置，文件中没有的将连同其运行记录、样本结果与关联设置一起移除。导入前会自动保存快照。
+                  </p>
+                </div>
+              ) : (
+                <>
+                  {/* Merge Summary */}
+                  <div className="grid grid-cols-2 md:grid-cols-4 gap-3 text-center">
+                    <div className="bg-gray-900/50 border border-gray-700 rounded-lg p-3">
+                      <p className="text-2xl font-bold text-green-400">{merge.plan.addedSoftwares.length}</p>
+                      <p className="text-xs text-gray-400">新增软件</p>
+                    </div>
+                    <div className="bg-gray-900/50 border border-gray-700 rounded-lg p-3">
+                      <p className="text-2xl font-bold text-green-400">{merge.plan.addedDimensions.length}</p>
+                      <p className="text-xs text-gray-400">新增维度</p>
+                    </div>
+                    <div className="bg-gray-900/50 border border-gray-700 rounded-lg p-3">
+                      <p className="text-2xl font-bold text-blue-400">{merge.plan.updates.length}</p>
+                      <p className="text-xs text-gray-400">更新单元格</p>
+                    </div>
+                    <div className="bg-gray-900/50 border border-gray-700 rounded-lg p-3">
+                      <p className="text-2xl font-bold text-yellow-400">{merge.plan.conflicts.length}</p>
+                      <p className="text-xs text-gray-400">冲突</p>
+                    </div>
+                  </div>
+
+                  {(merge.plan.addedSoftwares.length > 0 || merge.plan.addedDimensions.length > 0 || merge.plan.addedCategories.length > 0 || merge.plan.movedDimensions.length > 0) && (
+                    <div className="text-sm flex flex-col gap-1">
+                      {merge.plan.addedSoftwares.length > 0 && (
+                        <p><span className="text-gray-400">新增软件：</span><span className="text-green-400">{merge.plan.addedSoftwares.join('、')}</span></p>
+                      )}
+                      {merge.plan.addedDimensions.length > 0 && (
+                        <p><span className="text-gray-400">新增维度：</span><span className="text-green-400">{merge.plan.addedDimensions.join('、')}</span></p>
+                      )}
+                      {merge.plan.addedCategories.length > 0 && (
+                        <p><span className="text-gray-400">新增分类：</span><span className="text-green-400">{merge.plan.addedCategories.join('、')}</span></p>
+                      )}
+                      {merge.plan.movedDimensions.length > 0 && (
+                        <p>
+                          <span className="text-gray-400">调整分类：</span>
+                          <span className="text-blue-400">
+                            {merge.plan.movedDimensions.map(move => `${move.dimensionName}（${move.from ?? '未分类'} → ${move.to}）`).join('、')}
+                          </span>
+                        </p>
+                      )}
+                    </div>
+                  )}
+
+                  {merge.plan.conflicts.length > 0 && (
+                    <div>
+                      <div className="flex items-center justify-between mb-2">
+                        <h4 className="font-semibold text-gray-200 text-sm">冲突处理</h4>
+                        <div className="flex gap-2 text-xs">
+                          <button onClick={() => setAllResolutions('current')} className="px-2 py-1 rounded bg-gray-700 hover:bg-gray-600 text-gray-200">全部保留当前</button>
+                          <button onClick={() => setAllResolutions('incoming')} className="px-2 py-1 rounded bg-gray-700 hover:bg-gray-600 text-gray-200">全部采用导入</button>
+                        </div>
+                      </div>
+                      <div className="border border-gray-700 rounded-lg divide-y divide-gray-700">
+                        {merge.plan.conflicts.map(conflict => {
+                          const choice = resolutions[conflict.key] ?? 'incoming';
+                          return (
+                            <div key={conflict.key} className="p-3 text-sm flex flex-col md:flex-row md:items-center gap-2">
+                              <div className="flex-1 min-w-0 truncate">{renderChangeLabel(conflict)}</div>
+                              <div className="flex gap-2 shrink-0">
+                                <button
+                                  onClick={() => setResolutions(prev => ({ ...prev, [conflict.key]: 'current' }))}
+                                  className={`px-3 py-1 rounded border text-xs max-w-[200px] truncate ${choice === 'current' ? 'border-blue-500 bg-blue-900/30 text-white' : 'border-gray-700 text-gray-400 hover:border-gray-500'}`}
+                                  title={formatValue(conflict.current)}
+                                >
+                                  保留：{formatValue(conflict.current)}
+                                </button>
+                                <button
+                                  onClick={() => setResolutions(prev => ({ ...prev, [conflict.key]: 'incoming' }))}
+                                  className={`px-3 py-1 rounded border text-xs max-w-[200px] truncate ${choice === 'incoming' ? 'border-blue-500 bg-blue-900/30 text-white' : 'border-gray-700 text-gray-400 hover:border-gray-500'}`}
+                                  title={formatValue(conflict.incoming)}
+                                >
+                                  导入：{formatValue(conflict.incoming)}
+                                </button>
+                              </div>
+                            </div>
+                          );
+                        })}
+                      </div>
+                    </div>
+                  )}
+
+                  {merge.plan.updates.length > 0 && (
+                    <details className="text-sm">
+                      <summary className="cursor-pointer text-gray-300 font-semibold">将写入的单元格（{merge.plan.updates.length}）</summary>
+                      <ul className="mt-2 flex flex-col gap-1 max-h-48 overflow-y-auto">
+                        {merge.plan.updates.map(update => (
+                          <li key={update.key} className="flex justify-between gap-4 text-xs">
+                            <span className="truncate">{renderChangeLabel(update)}</span>
+                            <span className="text-blue-300 truncate max-w-[240px]">{formatValue(update.incoming)}</span>
+                          </li>
+                        ))}
+                      </ul>
+                    </details>
+                  )}
+
+                  {merge.plan.addedSoftwares.length === 0 && merge.plan.addedDimensions.length === 0 && merge.plan.addedCategories.length === 0 &&
+                    merge.plan.movedDimensions.length === 0 && merge.plan.updates.length === 0 && merge.plan.conflicts.length === 0 && (
+                    <p className="text-sm text-gray-500 text-center py-4">文件内容与当前数据一致，无需合并</p>
+                  )}
+                </>
+              )}
+            </>
+          )}
+        </div>
+
+        <div className="p-5 border-t border-gray-700 flex justify-end space-x-3 bg-gray-900/50 rounded-b-xl">
+          <button
+            onClick={onCancel}
+            className="px-5 py-2.5 text-gray-300 hover:text-white hover:bg-gray-700 rounded-lg transition-colors font-medium"
+          >
+            取消
+          </button>
+          <button
+            onClick={handleApply}
+            disabled={!merge}
+            className={`disabled:opacity-40 disabled:pointer-events-none px-5 py-2.5 text-white rounded-lg font-medium shadow-lg flex items-center gap-2 transition-all active:scale-95 ${mode === 'replace' ? 'bg-red-600 hover:bg-red-500 shadow-red-900/20' : 'bg-blue-600 hover:bg-blue-500 shadow-blue-900/20'}`}
+          >
+            {mode === 'replace' ? <Replace size={18} /> : <GitMerge size={18} />}
+            {mode === 'replace' ? '替换导入' : '合并导入'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ImportWizard;
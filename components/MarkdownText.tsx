@@ -0,0 +1,48 @@
+import React from 'react';
+import ReactMarkdown, { Components } from 'react-markdown';
+import remarkGfm from 'remark-gfm';
+import { preserveLineBreaks } from '../utils/markdown';
+
+interface MarkdownTextProps {
+  children: string;
+  className?: string;
+  // Overrides for individual elements, e.g. larger headings in longer documents
+  components?: Components;
+}
+
+// Compact styles for the dark UI: descriptions are short and shown in tight spaces
+const components: Components = {
+  h1: ({ children }) => <p className="font-bold text-sm mt-2 mb-1">{children}</p>,
+  h2: ({ children }) => <p className="font-bold text-sm mt-2 mb-1">{children}</p>,
+  h3: ({ children }) => <p className="font-semibold mt-2 mb-1">{children}</p>,
+  p: ({ children }) => <p className="my-1">{children}</p>,
+  ul: ({ children }) => <ul className="list-disc pl-5 my-1 space-y-0.5">{children}</ul>,
+  ol: ({ children }) => <ol className="list-decimal pl-5 my-1 space-y-0.5">{children}</ol>,
+  a: ({ children, href }) => (
+    <a href={href} target="_blank" rel="noopener noreferrer" className="text-blue-400 underline hover:text-blue-300">
+      {children}
+    </a>
+  ),
+  code: ({ children }) => <code className="bg-gray-800 text-amber-200 px-1 rounded font-mono text-[0.9em]">{children}</code>,
+  pre: ({ children }) => (
+    <pre className="bg-gray-950 border border-gray-700 rounded p-2 my-1.5 overflow-x-auto text-[11px] leading-snug [&>code]:bg-transparent [&>code]:p-0 [&>code]:text-gray-300">
+      {children}
+    </pre>
+  ),
+  blockquote: ({ children }) => <blockquote className="border-l-2 border-gray-600 pl-2 text-gray-400 my-1">{children}</blockquote>,
+  table: ({ children }) => <table className="border-collapse my-1.5 text-[0.95em]">{children}</table>,
+  th: ({ children, style }) => <th style={style} className="border border-gray-700 bg-gray-800 px-2 py-0.5 text-left">{children}</th>,
+  td: ({ children, style }) => <td style={style} className="border border-gray-700 px-2 py-0.5">{children}</td>,
+  hr: () => <hr className="border-gray-700 my-2" />,
+};
+
+// Renders a Markdown description (GFM, line breaks kept) for the table tooltip and the editor preview
+const MarkdownText: React.FC<MarkdownTextProps> = ({ children, className, components: overrides }) => (
+  <div className={`break-words [&>*:first-child]:mt-0 [&>*:last-child]:mb-0 ${className ?? ''}`}>
+    <ReactMarkdown remarkPlugins={[remarkGfm]} components={{ ...components, ...overrides }}>
+      {preserveLineBreaks(children)}
+    </ReactMarkdown>
+  </div>
+);
+
+export default MarkdownText;
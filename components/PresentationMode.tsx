@@ -0,0 +1,305 @@
+import React, { useEffect, useRef, useState } from 'react';
+import {
+  Bar,
+  BarChart,
+  Cell,
+  LabelList,
+  PolarAngleAxis,
+  PolarGrid,
+  PolarRadiusAxis,
+  Radar,
+  RadarChart,
+  ResponsiveContainer,
+  XAxis,
+  YAxis,
+} from 'recharts';
+import { Components } from 'react-markdown';
+import { Category, Dimension, RadarChartPoint, Software } from '../types';
+import { computeWeightedScore, getDimensionWeight } from '../utils/scoring';
+import { groupDimensions, resolveCategory } from '../utils/categories';
+import MarkdownText from './MarkdownText';
+import { LIGHT_AXIS_TICK, LIGHT_GRID_STROKE } from './chartStyles';
+import { X, ChevronLeft, ChevronRight } from 'lucide-react';
+
+interface PresentationModeProps {
+  title: string;
+  softwares: Software[];
+  dimensions: Dimension[];
+  categories: Category[];
+  onClose: () => void;
+}
+
+type Slide =
+  | { kind: 'radar' }
+  | { kind: 'dimension'; dimension: Dimension }
+  | { kind: 'ranking' };
+
+const NEXT_KEYS = ['ArrowRight', 'ArrowDown', 'PageDown', ' ', 'Enter'];
+const PREV_KEYS = ['ArrowLeft', 'ArrowUp', 'PageUp', 'Backspace'];
+
+// Gold, silver and bronze for the podium places of the ranking
+const RANK_COLORS = ['#d97706', '#6b7280', '#b45309'];
+
+// Descriptions on white slides: the default styles are tuned for the dark UI
+const LIGHT_MARKDOWN: Components = {
+  a: ({ children, href }) => (
+    <a href={href} target="_blank" rel="noopener noreferrer" className="text-blue-700 underline">{children}</a>
+  ),
+  code: ({ children }) => <code className="bg-gray-100 text-gray-800 px-1 rounded font-mono text-[0.9em]">{children}</code>,
+  pre: ({ children }) => (
+    <pre className="bg-gray-50 border border-gray-200 rounded p-2 my-1.5 overflow-x-auto text-sm [&>code]:bg-transparent [&>code]:p-0">{children}</pre>
+  ),
+  blockquote: ({ children }) => <blockquote className="border-l-4 border-gray-300 pl-3 text-gray-500 my-1">{children}</blockquote>,
+  th: ({ children, style }) => <th style={style} className="border border-gray-300 bg-gray-100 px-2 py-0.5 text-left">{children}</th>,
+  td: ({ children, style }) => <td style={style} className="border border-gray-300 px-2 py-0.5">{children}</td>,
+  hr: () => <hr className="border-gray-200 my-2" />,
+};
+
+const formatScore = (score: number) => (Math.round(score * 10) / 10).toFixed(1);
+
+const RadarSlide: React.FC<{ softwares: Software[]; dimensions: Dimension[] }> = ({ softwares, dimensions }) => {
+  const data: RadarChartPoint[] = dimensions.map((dim) => {
+    const point: RadarChartPoint = { dimension: dim.name, fullMark: 10 };
+    softwares.forEach((sw) => {
+      point[sw.id] = sw.scores[dim.id] || 0;
+    });
+    return point;
+  });
+
+  return (
+    <div className="flex-1 min-h-0 flex flex-col">
+      <h2 className="text-4xl font-bold mb-4">综合能力雷达图</h2>
+      <div className="flex-1 min-h-0">
+        <ResponsiveContainer width="100%" height="100%">
+          <RadarChart cx="50%" cy="50%" outerRadius="78%" data={data}>
+            <PolarGrid stroke={LIGHT_GRID_STROKE} />
+            <PolarAngleAxis dataKey="dimension" tick={LIGHT_AXIS_TICK} />
+            <PolarRadiusAxis angle={30} domain={[0, 10]} tick={false} axisLine={false} />
+            {softwares.map(sw => (
+              <Radar
+                key={sw.id}
+                name={sw.name}
+                dataKey={sw.id}
+                stroke={sw.color}
+                strokeWidth={3}
+                fill={sw.color}
+                fillOpacity={0.12}
+                isAnimationActive={false}
+              />
+            ))}
+          </RadarChart>
+        </ResponsiveContainer>
+      </div>
+      <div className="flex flex-wrap justify-center gap-x-8 gap-y-2 mt-4">
+        {softwares.map(sw => (
+          <div key={sw.id} className="flex items-center gap-2 text-xl">
+            <span className="w-4 h-4 rounded-full" style={{ backgroundColor: sw.color }} />
+            <span className="font-medium">{sw.name}</span>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+const DimensionSlide: React.FC<{ dimension: Dimension; softwares: Software[]; categories: Category[] }> = ({
+  dimension,
+  softwares,
+  categories,
+}) => {
+  const category = resolveCategory(dimension, categories);
+  const ranked = [...softwares].sort((a, b) => (b.scores[dimension.id] || 0) - (a.scores[dimension.id] || 0));
+  const data = ranked.map(sw => ({ id: sw.id, name: sw.name, color: sw.color, score: sw.scores[dimension.id] || 0 }));
+  const meta = [
+    `权重 ${getDimensionWeight(dimension)}`,
+    dimension.unit,
+    dimension.lowerIsBetter ? '实测值越低越好' : '',
+  ].filter(Boolean);
+
+  return (
+    <div className="flex-1 min-h-0 flex flex-col">
+      {category && <p className="text-lg font-semibold text-blue-700">{category.name}</p>}
+      <h2 className="text-4xl font-bold">{dimension.name}</h2>
+      <p className="text-lg text-gray-500 mt-1 mb-6">{meta.join(' · ')}</p>
+
+      <div className="flex-1 min-h-0 grid grid-cols-5 gap-10">
+        <div className="col-span-2 min-h-0">
+          <ResponsiveContainer width="100%" height="100%">
+            <BarChart data={data} margin={{ top: 30, right: 10, bottom: 10, left: -10 }}>
+              <XAxis dataKey="name" tick={LIGHT_AXIS_TICK} interval={0} />
+              <YAxis domain={[0, 10]} tick={LIGHT_AXIS_TICK} />
+              <Bar dataKey="score" radius={[6, 6, 0, 0]} isAnimationActive={false}>
+                {data.map(entry => <Cell key={entry.id} fill={entry.color} />)}
+                <LabelList dataKey="score" position="top" fill="#111827" fontSize={20} fontWeight={700} />
+              </Bar>
+            </BarChart>
+          </ResponsiveContainer>
+        </div>
+
+        <div className="col-span-3 min-h-0 overflow-y-auto flex flex-col gap-5 pr-2">
+          {ranked.map((sw) => {
+            const description = sw.descriptions?.[dimension.id];
+            const rawValue = sw.rawValues?.[dimension.id];
+            return (
+              <div key={sw.id} className="border-l-4 pl-4" style={{ borderColor: sw.color }}>
+                <div className="flex items-baseline gap-3">
+                  <span className="text-2xl font-bold">{sw.name}</span>
+                  <span className="text-2xl font-bold text-blue-700">{formatScore(sw.scores[dimension.id] || 0)}</span>
+                  {dimension.normalization && rawValue !== undefined && (
+                    <span className="text-lg text-gray-500">实测 {rawValue}{dimension.unit ? ` ${dimension.unit}` : ''}</span>
+                  )}
+                </div>
+                {description ? (
+                  <MarkdownText className="text-lg text-gray-700 leading-relaxed mt-1" components={LIGHT_MARKDOWN}>
+                    {description}
+                  </MarkdownText>
+                ) : (
+                  <p className="text-lg text-gray-400 mt-1">暂无描述</p>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+const RankingSlide: React.FC<{ softwares: Software[]; dimensions: Dimension[] }> = ({ softwares, dimensions }) => {
+  const ranked = softwares
+    .map(sw => ({ sw, score: computeWeightedScore(sw, dimensions) }))
+    .sort((a, b) => b.score - a.score);
+
+  return (
+    <div className="flex-1 min-h-0 flex flex-col">
+      <h2 className="text-4xl font-bold mb-10">最终排名</h2>
+      <div className="flex-1 min-h-0 overflow-y-auto flex flex-col gap-6">
+        {ranked.map(({ sw, score }, i) => (
+          <div key={sw.id} className="flex items-center gap-6">
+            <span className="w-14 text-4xl font-black text-right" style={{ color: RANK_COLORS[i] ?? '#9ca3af' }}>{i + 1}</span>
+            <span className="w-56 text-2xl font-bold truncate">{sw.name}</span>
+            <div className="flex-1 h-10 bg-gray-100 rounded-lg overflow-hidden">
+              <div className="h-full rounded-lg" style={{ width: `${Math.min(100, score * 10)}%`, backgroundColor: sw.color }} />
+            </div>
+            <span className="w-24 text-3xl font-bold text-right">{score.toFixed(2)}</span>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+/**
+ * Full-screen slides for review meetings: the overall radar, one slide per
+ * dimension with its bar chart and descriptions, and the final ranking.
+ * Light theme for projectors, read-only, navigated with the keyboard.
+ */
+const PresentationMode: React.FC<PresentationModeProps> = ({ title, softwares, dimensions, categories, onClose }) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [index, setIndex] = useState(0);
+  // Kept in a ref so re-renders of the parent don't leave and re-enter full screen
+  const onCloseRef = useRef(onClose);
+  onCloseRef.current = onClose;
+
+  // Same dimension order as the table: grouped by category when there are categories
+  const orderedDimensions = categories.length > 0
+    ? groupDimensions(dimensions, categories).flatMap(group => group.dimensions)
+    : dimensions;
+  const slides: Slide[] = [
+    { kind: 'radar' },
+    ...orderedDimensions.map(dimension => ({ kind: 'dimension' as const, dimension })),
+    { kind: 'ranking' },
+  ];
+  const current = Math.min(index, slides.length - 1);
+  const slide = slides[current];
+
+  const go = (delta: number) => setIndex(prev => Math.max(0, Math.min(slides.length - 1, prev + delta)));
+
+  // Leaving full screen (e.g. with Esc, which the browser handles itself) ends the presentation
+  useEffect(() => {
+    const element = containerRef.current;
+    let entered = false;
+    const handleChange = () => {
+      if (document.fullscreenElement) entered = true;
+      else if (entered) onCloseRef.current();
+    };
+    document.addEventListener('fullscreenchange', handleChange);
+    element?.requestFullscreen?.().catch(() => {
+      // Not allowed or not supported: the overlay still covers the window
+    });
+    return () => {
+      document.removeEventListener('fullscreenchange', handleChange);
+      if (document.fullscreenElement) document.exitFullscreen().catch(() => {});
+    };
+  }, []);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (NEXT_KEYS.includes(e.key)) {
+        e.preventDefault();
+        go(1);
+      } else if (PREV_KEYS.includes(e.key)) {
+        e.preventDefault();
+        go(-1);
+      } else if (e.key === 'Home') {
+        e.preventDefault();
+        setIndex(0);
+      } else if (e.key === 'End') {
+        e.preventDefault();
+        setIndex(slides.length - 1);
+      } else if (e.key === 'Escape') {
+        onClose();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  });
+
+  return (
+    <div ref={containerRef} className="fixed inset-0 z-[60] bg-white text-gray-900 flex flex-col select-none">
+      <div className="flex items-center justify-between px-10 pt-6 text-gray-400">
+        <span className="text-base font-medium truncate">{title}</span>
+        <button onClick={onClose} className="hover:text-gray-700 transition-colors" title="退出演示 (Esc)">
+          <X size={24} />
+        </button>
+      </div>
+
+      <div className="flex-1 min-h-0 px-16 py-6 flex flex-col">
+        {softwares.length === 0 ? (
+          <p className="flex-1 flex items-center justify-center text-2xl text-gray-400">暂无可演示的软件</p>
+        ) : slide.kind === 'radar' ? (
+          <RadarSlide softwares={softwares} dimensions={dimensions} />
+        ) : slide.kind === 'dimension' ? (
+          <DimensionSlide dimension={slide.dimension} softwares={softwares} categories={categories} />
+        ) : (
+          <RankingSlide softwares={softwares} dimensions={dimensions} />
+        )}
+      </div>
+
+      <div className="flex items-center justify-center gap-6 pb-5 text-gray-400">
+        <button
+          onClick={() => go(-1)}
+          disabled={current === 0}
+          className="hover:text-gray-700 disabled:opacity-30 transition-colors"
+          title="上一页 (←)"
+        >
+          <ChevronLeft size={28} />
+        </button>
+        <span className="text-base tabular-nums">{current + 1} / {slides.length}</span>
+        <button
+          onClick={() => go(1)}
+          disabled={current === slides.length - 1}
+          className="hover:text-gray-700 disabled:opacity-30 transition-colors"
+          title="下一页 (→)"
+        >
+          <ChevronRight size={28} />
+        </button>
+      </div>
+      <div className="h-1 bg-gray-100">
+        <div className="h-full bg-blue-600 transition-all" style={{ width: `${((current + 1) / slides.length) * 100}%` }} />
+      </div>
+    </div>
+  );
+};
+
+export default PresentationMode;
@@ -0,0 +1,168 @@
+import React, { useState, useRef, useEffect } from 'react';
+import { ProjectMeta } from '../types';
+import { FolderOpen, ChevronDown, Edit2, Copy, Trash2, Plus, Check } from 'lucide-react';
+
+interface ProjectSwitcherProps {
+  projects: ProjectMeta[];
+  activeProjectId: string;
+  onSwitch: (id: string) => void;
+  onCreate: (name: string) => void;
+  onRename: (id: string, name: string) => void;
+  onDuplicate: (id: string) => void;
+  onDelete: (id: string) => void;
+}
+
+const ProjectSwitcher: React.FC<ProjectSwitcherProps> = ({
+  projects,
+  activeProjectId,
+  onSwitch,
+  onCreate,
+  onRename,
+  onDuplicate,
+  onDelete,
+}) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [renameText, setRenameText] = useState('');
+  const [newName, setNewName] = useState('');
+  const panelRef = useRef<HTMLDivElement>(null);
+
+  const activeProject = projects.find(p => p.id === activeProjectId);
+
+  // Close panel on click outside
+  useEffect(() => {
+    const handleClickOutside = (event: MouseEvent) => {
+      if (panelRef.current && !panelRef.current.contains(event.target as Node)) {
+        setIsOpen(false);
+        setRenamingId(null);
+      }
+    };
+    if (isOpen) {
+      document.addEventListener('mousedown', handleClickOutside);
+    }
+    return () => {
+      document.removeEventListener('mousedown', handleClickOutside);
+    };
+  }, [isOpen]);
+
+  const handleRenameSave = () => {
+    if (renamingId && renameText.trim()) {
+      onRename(renamingId, renameText.trim());
+    }
+    setRenamingId(null);
+  };
+
+  const handleCreate = () => {
+    if (!newName.trim()) return;
+    onCreate(newName.trim());
+    setNewName('');
+    setIsOpen(false);
+  };
+
+  return (
+    <div ref={panelRef} className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="flex items-center gap-2 px-3 py-1.5 bg-gray-900/60 hover:bg-gray-700 text-gray-200 rounded-lg transition-all text-sm font-medium border border-gray-700 max-w-[240px]"
+        title="切换对比项目"
+      >
+        <FolderOpen size={16} className="text-blue-400 shrink-0" />
+        <span className="truncate">{activeProject?.name ?? '未命名项目'}</span>
+        <ChevronDown size={14} className="text-gray-500 shrink-0" />
+      </button>
+
+      {isOpen && (
+        <div className="absolute top-full left-0 mt-2 w-80 bg-gray-800 border border-gray-600 rounded-lg shadow-xl z-50 flex flex-col">
+          <div className="px-3 py-2 text-[10px] text-gray-400 uppercase border-b border-gray-700">
+            对比项目
+          </div>
+          <ul className="max-h-72 overflow-y-auto py-1">
+            {projects.map((project) => (
+              <li
+                key={project.id}
+                className={`group flex items-center gap-2 px-3 py-2 text-sm ${project.id === activeProjectId ? 'bg-blue-900/30 text-white' : 'text-gray-300 hover:bg-gray-700/50'}`}
+              >
+                {renamingId === project.id ? (
+                  <input
+                    type="text"
+                    value={renameText}
+                    onChange={(e) => setRenameText(e.target.value)}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter') handleRenameSave();
+                      if (e.key === 'Escape') setRenamingId(null);
+                    }}
+                    onBlur={handleRenameSave}
+                    autoFocus
+                    className="flex-1 bg-gray-900 border border-blue-500 rounded px-2 py-1 text-sm outline-none"
+                  />
+                ) : (
+                  <button
+                    onClick={() => {
+                      onSwitch(project.id);
+                      setIsOpen(false);
+                    }}
+                    className="flex-1 flex items-center gap-2 text-left truncate"
+                    title={project.name}
+                  >
+                    {project.id === activeProjectId ? (
+                      <Check size={14} className="text-blue-400 shrink-0" />
+                    ) : (
+                      <span className="w-[14px] shrink-0" />
+                    )}
+                    <span className="truncate">{project.name}</span>
+                  </button>
+                )}
+                <div className="flex items-center gap-1 opacity-0 group-hover:opacity-100 transition-opacity shrink-0">
+                  <button
+                    onClick={() => {
+                      setRenamingId(project.id);
+                      setRenameText(project.name);
+                    }}
+                    className="p-1 text-gray-500 hover:text-blue-400"
+                    title="重命名"
+                  >
+                    <Edit2 size={12} />
+                  </button>
+                  <button
+                    onClick={() => onDuplicate(project.id)}
+                    className="p-1 text-gray-500 hover:text-blue-400"
+                    title="复制项目"
+                  >
+                    <Copy size={12} />
+                  </button>
+                  <button
+                    onClick={() => onDelete(project.id)}
+                    disabled={projects.length <= 1}
+                    className="p-1 text-gray-500 hover:text-red-400 disabled:opacity-30 disabled:hover:text-gray-500"
+                    title={projects.length <= 1 ? '至少保留一个项目' : '删除项目'}
+                  >
+                    <Trash2 size={12} />
+                  </button>
+                </div>
+              </li>
+            ))}
+          </ul>
+          <div className="flex items-center gap-2 p-3 border-t border-gray-700">
+            <input
+              type="text"
+              value={newName}
+              onChange={(e) => setNewName(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && handleCreate()}
+              placeholder="新项目名称，例如：EDR 试点"
+              className="flex-1 bg-gray-900 border border-gray-700 rounded p-1.5 text-white text-sm focus:border-blue-500 outline-none"
+            />
+            <button
+              onClick={handleCreate}
+              className="flex items-center gap-1 px-2 py-1.5 bg-blue-600 hover:bg-blue-500 text-white text-xs rounded"
+            >
+              <Plus size={14} />
+              新建
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ProjectSwitcher;
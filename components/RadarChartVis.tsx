@@ -1,4 +1,4 @@
-import React from 'react';
+import React, { useState } from 'react';
 import {
   Radar,
   RadarChart,
@@ -8,79 +8,195 @@ import {
   ResponsiveContainer,
   Tooltip
 } from 'recharts';
-import { Software, Dimension, RadarChartPoint } from '../types';
+import { Software, Dimension, Category, RadarChartPoint } from '../types';
+import { aggregateByCategory } from '../utils/categories';
+import { scoreInterval } from '../utils/trials';
+import RadarExportDialog from './RadarExportDialog';
+import ChartLegend from './ChartLegend';
+import SeriesControls from './SeriesControls';
+import SeriesTooltip from './SeriesTooltip';
+import { SeriesVisibility } from '../hooks/useSeriesVisibility';
+import { GRID_STROKE, AXIS_TICK } from './chartStyles';
+import { ImageDown } from 'lucide-react';
+
+// Radar view: every dimension, one axis per category, or a single category's id
+const VIEW_ALL = 'all';
+const VIEW_CATEGORIES = 'categories';
+
+// Data key of a software's confidence band, drawn as a [low, high] range
+const bandKey = (softwareId: string) => `${softwareId}__band`;
 
 interface RadarChartVisProps {
   softwares: Software[];
   dimensions: Dimension[];
+  categories?: Category[];
+  // Default subtitle for exported images, usually the project name
+  exportSubtitle?: string;
+  // Makes the legend interactive; without it every software is shown
+  series?: SeriesVisibility;
 }
 
-const RadarChartVis: React.FC<RadarChartVisProps> = ({ softwares, dimensions }) => {
+const RadarChartVis: React.FC<RadarChartVisProps> = ({
+  softwares,
+  dimensions,
+  categories = [],
+  exportSubtitle = '',
+  series,
+}) => {
+  const [showExport, setShowExport] = useState(false);
+  const [highlightedId, setHighlightedId] = useState<string | null>(null);
+  const [view, setView] = useState(VIEW_ALL);
+  const [showBands, setShowBands] = useState(false);
+
+  // Falls back to all dimensions when the drilled-into category was deleted
+  const activeView = view === VIEW_ALL || view === VIEW_CATEGORIES || categories.some(c => c.id === view)
+    ? view
+    : VIEW_ALL;
+  const viewData = activeView === VIEW_CATEGORIES
+    ? aggregateByCategory({ dimensions, softwares, categories })
+    : {
+        dimensions: activeView === VIEW_ALL ? dimensions : dimensions.filter(d => d.categoryId === activeView),
+        softwares,
+      };
+
+  const visibleSoftwares = series
+    ? viewData.softwares.filter(sw => !series.hiddenIds.includes(sw.id))
+    : viewData.softwares;
+
+  // Repeated trials give a confidence band; category averages have none
+  const bandSoftwareIds = activeView === VIEW_CATEGORIES
+    ? []
+    : visibleSoftwares
+        .filter(sw => viewData.dimensions.some(dim => scoreInterval(sw, dim)))
+        .map(sw => sw.id);
+
   // Transform data for Recharts
   // Output format needed: 
   // [ { dimension: 'RAM', win_defender: 6, kaspersky: 7, ... }, ... ]
-  const data: RadarChartPoint[] = dimensions.map((dim) => {
+  const data: RadarChartPoint[] = viewData.dimensions.map((dim) => {
     const point: RadarChartPoint = {
       dimension: dim.name,
       fullMark: 10,
     };
-    softwares.forEach((sw) => {
+    viewData.softwares.forEach((sw) => {
       point[sw.id] = sw.scores[dim.id] || 0;
+      if (bandSoftwareIds.includes(sw.id)) {
+        // Dimensions without trials collapse the band onto the score
+        const interval = scoreInterval(sw, dim);
+        point[bandKey(sw.id)] = interval ? [interval.low, interval.high] : [point[sw.id] as number, point[sw.id] as number];
+      }
     });
     return point;
   });
 
   return (
     <div className="w-full bg-gray-800 rounded-xl p-4 shadow-lg border border-gray-700 flex flex-col">
-      <h3 className="text-lg font-semibold text-gray-200 mb-2 text-center">能力雷达图</h3>
+      <div className="relative mb-2">
+        {categories.length > 0 && (
+          <select
+            value={activeView}
+            onChange={(e) => setView(e.target.value)}
+            className="absolute left-0 top-1/2 -translate-y-1/2 max-w-[40%] bg-gray-900/50 border border-gray-700 rounded-lg px-2 py-1.5 text-xs text-gray-300 focus:ring-2 focus:ring-blue-500 outline-none"
+            title="切换雷达图显示的维度"
+          >
+            <option value={VIEW_ALL}>全部维度</option>
+            <option value={VIEW_CATEGORIES}>分类汇总</option>
+            {categories.map(c => (
+              <option key={c.id} value={c.id}>分类：{c.name}</option>
+            ))}
+          </select>
+        )}
+        <h3 className="text-lg font-semibold text-gray-200 text-center">能力雷达图</h3>
+        <button
+          onClick={() => setShowExport(true)}
+          disabled={visibleSoftwares.length === 0}
+          className="absolute right-0 top-1/2 -translate-y-1/2 flex items-center gap-1.5 px-2.5 py-1.5 text-xs text-gray-400 hover:text-white bg-gray-900/50 hover:bg-gray-700 border border-gray-700 rounded-lg transition-colors disabled:opacity-40 disabled:pointer-events-none"
+          title="导出为 PNG 或 SVG"
+        >
+          <ImageDown size={14} />
+          <span className="hidden sm:inline">导出图片</span>
+        </button>
+      </div>
       
       {/* Chart Area */}
       <div className="h-[400px] w-full">
         <ResponsiveContainer width="100%" height="100%">
           <RadarChart cx="50%" cy="50%" outerRadius="75%" data={data}>
-            <PolarGrid stroke="#374151" />
+            <PolarGrid stroke={GRID_STROKE} />
             <PolarAngleAxis 
               dataKey="dimension" 
-              tick={{ fill: '#9ca3af', fontSize: 12 }} 
+              tick={AXIS_TICK} 
             />
             <PolarRadiusAxis angle={30} domain={[0, 10]} tick={false} axisLine={false} />
-            
-            {softwares.map((sw) => (
+
+            {showBands && visibleSoftwares.filter(sw => bandSoftwareIds.includes(sw.id)).map((sw) => (
               <Radar
-                key={sw.id}
-                name={sw.name}
-                dataKey={sw.id}
-                stroke={sw.color}
+                key={bandKey(sw.id)}
+                dataKey={bandKey(sw.id)}
+                stroke="none"
                 fill={sw.color}
-                fillOpacity={0.1}
+                fillOpacity={highlightedId !== null && highlightedId !== sw.id ? 0.03 : 0.25}
+                tooltipType="none"
+                legendType="none"
+                isAnimationActive={false}
               />
             ))}
             
-            <Tooltip 
-              contentStyle={{ backgroundColor: '#1f2937', borderColor: '#374151', color: '#f3f4f6' }}
-              itemStyle={{ color: '#e5e7eb' }}
-            />
+            {visibleSoftwares.map((sw) => {
+              // Hovering a legend chip highlights its polygon and dims the rest
+              const dimmed = highlightedId !== null && highlightedId !== sw.id;
+              const highlighted = highlightedId === sw.id;
+              return (
+                <Radar
+                  key={sw.id}
+                  name={sw.name}
+                  dataKey={sw.id}
+                  stroke={sw.color}
+                  strokeOpacity={dimmed ? 0.15 : 1}
+                  strokeWidth={highlighted ? 3 : 1}
+                  fill={sw.color}
+                  fillOpacity={highlighted ? 0.3 : dimmed ? 0.02 : 0.1}
+                  isAnimationActive={false}
+                />
+              );
+            })}
+            
+            <Tooltip content={<SeriesTooltip softwares={softwares} baselineId={series?.baselineId ?? null} />} />
           </RadarChart>
         </ResponsiveContainer>
       </div>
 
-      {/* Custom Legend Area - Handles many items by wrapping */}
-      <div className="mt-4 flex flex-wrap justify-center gap-3 px-2 border-t border-gray-700/50 pt-4">
-        {softwares.map((sw) => (
-          <div key={sw.id} className="flex items-center bg-gray-900/50 px-3 py-1.5 rounded-full border border-gray-700/50 transition-colors hover:bg-gray-700/50">
-            <span 
-              className="w-3 h-3 rounded-full mr-2 shadow-sm shrink-0" 
-              style={{ backgroundColor: sw.color }} 
-            />
-            <span className="text-sm text-gray-300 font-medium whitespace-nowrap">
-              {sw.name}
-            </span>
-          </div>
-        ))}
-        {softwares.length === 0 && (
-          <span className="text-sm text-gray-500">暂无数据</span>
-        )}
-      </div>
+      {bandSoftwareIds.length > 0 && (
+        <label className="flex items-center justify-center gap-2 text-xs text-gray-400 mb-2 cursor-pointer select-none">
+          <input
+            type="checkbox"
+            checked={showBands}
+            onChange={(e) => setShowBands(e.target.checked)}
+            className="accent-blue-500"
+          />
+          显示 95% 置信区间（多次测量）
+        </label>
+      )}
+
+      {series && softwares.length > 0 && <SeriesControls softwares={softwares} series={series} />}
+
+      {/* Custom Legend Area */}
+      <ChartLegend
+        softwares={softwares}
+        hiddenIds={series?.hiddenIds}
+        highlightedId={highlightedId}
+        baselineId={series?.baselineId}
+        onToggle={series?.toggle}
+        onHover={setHighlightedId}
+      />
+
+      {showExport && (
+        <RadarExportDialog
+          data={{ dimensions: viewData.dimensions, softwares: visibleSoftwares }}
+          defaultSubtitle={exportSubtitle}
+          onClose={() => setShowExport(false)}
+        />
+      )}
     </div>
   );
 };
@@ -0,0 +1,149 @@
+import React, { useMemo, useState } from 'react';
+import { ComparisonData } from '../types';
+import { RadarSvgOptions, buildRadarSvg, svgToPngBlob } from '../utils/radarSvg';
+import { downloadFile, todayStamp } from '../utils/download';
+import { X, ImageDown, FileImage, Moon, Sun } from 'lucide-react';
+
+const SIZE_PRESETS = [800, 1200, 1600, 2400];
+// PNG is rendered at twice the chosen width so it stays sharp when scaled on slides
+const PNG_PIXEL_RATIO = 2;
+
+interface RadarExportDialogProps {
+  data: ComparisonData;
+  defaultSubtitle: string;
+  onClose: () => void;
+}
+
+const RadarExportDialog: React.FC<RadarExportDialogProps> = ({ data, defaultSubtitle, onClose }) => {
+  const [options, setOptions] = useState<RadarSvgOptions>({
+    width: 1200,
+    theme: 'light',
+    showLegend: true,
+    title: '能力雷达图',
+    subtitle: defaultSubtitle,
+  });
+  const [exporting, setExporting] = useState(false);
+
+  const svg = useMemo(() => buildRadarSvg(data, options), [data, options]);
+
+  const update = (patch: Partial<RadarSvgOptions>) => setOptions(prev => ({ ...prev, ...patch }));
+
+  const handleExportSvg = () => {
+    downloadFile(svg, `av_radar_${todayStamp()}.svg`, 'image/svg+xml;charset=utf-8');
+  };
+
+  const handleExportPng = async () => {
+    setExporting(true);
+    try {
+      const blob = await svgToPngBlob(svg, PNG_PIXEL_RATIO);
+      downloadFile(blob, `av_radar_${todayStamp()}.png`, 'image/png');
+    } catch (err) {
+      console.error(err);
+      alert('导出 PNG 失败。');
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const inputClass =
+    'bg-gray-900 border border-gray-600 rounded p-2 text-white text-sm focus:ring-2 focus:ring-blue-500 outline-none';
+
+  return (
+    <div className="fixed inset-0 bg-black/80 flex items-center justify-center z-50 backdrop-blur-sm p-4">
+      <div className="bg-gray-800 rounded-xl w-full max-w-5xl border border-gray-700 shadow-2xl flex flex-col max-h-[90vh]">
+        <div className="p-5 border-b border-gray-700 flex justify-between items-center bg-gray-900/50 rounded-t-xl">
+          <div className="flex items-center gap-3">
+            <div className="bg-blue-900/30 p-2 rounded-lg text-blue-400">
+              <ImageDown size={20} />
+            </div>
+            <div>
+              <h3 className="text-lg font-bold text-white">导出雷达图</h3>
+              <p className="text-sm text-gray-400">生成高清 PNG 或矢量 SVG，用于幻灯片与文档</p>
+            </div>
+          </div>
+          <button onClick={onClose} className="text-gray-500 hover:text-white transition-colors"><X size={24}/></button>
+        </div>
+
+        <div className="flex-1 overflow-hidden flex flex-col lg:flex-row min-h-0">
+          {/* Options */}
+          <div className="lg:w-72 shrink-0 p-5 border-b lg:border-b-0 lg:border-r border-gray-700 flex flex-col gap-4 overflow-y-auto">
+            <label className="flex flex-col gap-1.5 text-sm text-gray-300">
+              标题
+              <input className={inputClass} value={options.title} onChange={(e) => update({ title: e.target.value })} placeholder="留空则不显示" />
+            </label>
+            <label className="flex flex-col gap-1.5 text-sm text-gray-300">
+              副标题
+              <input className={inputClass} value={options.subtitle} onChange={(e) => update({ subtitle: e.target.value })} placeholder="留空则不显示" />
+            </label>
+
+            <div className="flex flex-col gap-1.5 text-sm text-gray-300">
+              背景
+              <div className="grid grid-cols-2 gap-2">
+                <button
+                  onClick={() => update({ theme: 'light' })}
+                  className={`flex items-center justify-center gap-2 py-2 rounded border text-sm ${options.theme === 'light' ? 'border-blue-500 bg-blue-900/30 text-white' : 'border-gray-600 text-gray-400 hover:border-gray-500'}`}
+                >
+                  <Sun size={14} /> 浅色
+                </button>
+                <button
+                  onClick={() => update({ theme: 'dark' })}
+                  className={`flex items-center justify-center gap-2 py-2 rounded border text-sm ${options.theme === 'dark' ? 'border-blue-500 bg-blue-900/30 text-white' : 'border-gray-600 text-gray-400 hover:border-gray-500'}`}
+                >
+                  <Moon size={14} /> 深色
+                </button>
+              </div>
+            </div>
+
+            <label className="flex flex-col gap-1.5 text-sm text-gray-300">
+              宽度（像素）
+              <select className={inputClass} value={options.width} onChange={(e) => update({ width: Number(e.target.value) })}>
+                {SIZE_PRESETS.map(size => (
+                  <option key={size} value={size}>{size}</option>
+                ))}
+              </select>
+              <span className="text-xs text-gray-500">PNG 按 {PNG_PIXEL_RATIO} 倍分辨率输出，高度随图例自动调整</span>
+            </label>
+
+            <label className="flex items-center gap-2 text-sm text-gray-300 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={options.showLegend}
+                onChange={(e) => update({ showLegend: e.target.checked })}
+                className="accent-blue-500"
+              />
+              显示图例
+            </label>
+
+            <div className="flex flex-col gap-2 mt-auto">
+              <button
+                onClick={handleExportPng}
+                disabled={exporting}
+                className="flex items-center justify-center gap-2 px-4 py-2 bg-blue-600 hover:bg-blue-500 text-white rounded-lg text-sm font-medium shadow-lg shadow-blue-900/20 disabled:opacity-40 disabled:pointer-events-none"
+              >
+                <ImageDown size={16} />
+                下载 PNG
+              </button>
+              <button
+                onClick={handleExportSvg}
+                className="flex items-center justify-center gap-2 px-4 py-2 bg-gray-700 hover:bg-gray-600 text-gray-200 rounded-lg text-sm font-medium border border-gray-600"
+              >
+                <FileImage size={16} />
+                下载 SVG
+              </button>
+            </div>
+          </div>
+
+          {/* Preview */}
+          <div className="flex-1 overflow-auto bg-gray-900/50 p-5 flex items-start justify-center">
+            <div
+              className="shadow-lg rounded overflow-hidden [&>svg]:block [&>svg]:max-w-full [&>svg]:h-auto"
+              dangerouslySetInnerHTML={{ __html: svg }}
+            />
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default RadarExportDialog;
@@ -0,0 +1,66 @@
+import React from 'react';
+import {
+  BarChart,
+  Bar,
+  Cell,
+  LabelList,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  ResponsiveContainer,
+  Tooltip
+} from 'recharts';
+import { Software, Dimension } from '../types';
+import { computeWeightedScore } from '../utils/scoring';
+import { GRID_STROKE, AXIS_TICK, TOOLTIP_CONTENT_STYLE, TOOLTIP_ITEM_STYLE } from './chartStyles';
+
+interface RankingChartVisProps {
+  softwares: Software[];
+  dimensions: Dimension[];
+}
+
+const ROW_HEIGHT = 44;
+
+const RankingChartVis: React.FC<RankingChartVisProps> = ({ softwares, dimensions }) => {
+  const data = softwares
+    .map(sw => ({
+      id: sw.id,
+      name: sw.name,
+      color: sw.color,
+      score: Math.round(computeWeightedScore(sw, dimensions) * 100) / 100,
+    }))
+    .sort((a, b) => b.score - a.score);
+
+  return (
+    <div className="w-full bg-gray-800 rounded-xl p-4 shadow-lg border border-gray-700 flex flex-col">
+      <h3 className="text-lg font-semibold text-gray-200 mb-2 text-center">加权总分排名</h3>
+
+      {data.length === 0 ? (
+        <p className="text-sm text-gray-500 text-center py-16">暂无数据</p>
+      ) : (
+        <div className="w-full" style={{ height: Math.max(200, data.length * ROW_HEIGHT + 40) }}>
+          <ResponsiveContainer width="100%" height="100%">
+            <BarChart data={data} layout="vertical" margin={{ top: 10, right: 48, left: 10, bottom: 0 }}>
+              <CartesianGrid stroke={GRID_STROKE} strokeDasharray="3 3" horizontal={false} />
+              <XAxis type="number" domain={[0, 10]} tick={AXIS_TICK} stroke={GRID_STROKE} />
+              <YAxis type="category" dataKey="name" tick={AXIS_TICK} stroke={GRID_STROKE} width={120} />
+              <Bar dataKey="score" name="加权总分" radius={[0, 4, 4, 0]} maxBarSize={28}>
+                {data.map(entry => (
+                  <Cell key={entry.id} fill={entry.color} />
+                ))}
+                <LabelList dataKey="score" position="right" fill="#e5e7eb" fontSize={12} />
+              </Bar>
+              <Tooltip
+                cursor={{ fill: 'rgba(55, 65, 81, 0.4)' }}
+                contentStyle={TOOLTIP_CONTENT_STYLE}
+                itemStyle={TOOLTIP_ITEM_STYLE}
+              />
+            </BarChart>
+          </ResponsiveContainer>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default RankingChartVis;
@@ -0,0 +1,138 @@
+import React, { useMemo, useState } from 'react';
+import ReactMarkdown, { Components } from 'react-markdown';
+import remarkGfm from 'remark-gfm';
+import { ComparisonData } from '../types';
+import {
+  ReportOptions,
+  buildComparisonReport,
+  renderReportBody,
+  renderReportSubtitle,
+  renderReportMarkdown,
+  renderReportHtml
+} from '../utils/report';
+import { buildRadarSvg } from '../utils/radarSvg';
+import { downloadFile, todayStamp } from '../utils/download';
+import { X, FileText, FileCode, ScrollText } from 'lucide-react';
+
+interface ReportPanelProps {
+  data: ComparisonData;
+  projectName: string;
+  onClose: () => void;
+}
+
+// Tailwind has no typography plugin here, so the preview styles each element itself
+const previewComponents: Components = {
+  h2: ({ children }) => <h2 className="text-xl font-bold mt-8 mb-3 pb-1 border-b border-gray-200">{children}</h2>,
+  h3: ({ children }) => <h3 className="text-base font-semibold mt-5 mb-2">{children}</h3>,
+  p: ({ children }) => <p className="my-2 leading-relaxed">{children}</p>,
+  ul: ({ children }) => <ul className="list-disc pl-6 my-2 space-y-1">{children}</ul>,
+  ol: ({ children }) => <ol className="list-decimal pl-6 my-2 space-y-1">{children}</ol>,
+  table: ({ children }) => <table className="w-full border-collapse my-3 text-sm">{children}</table>,
+  th: ({ children, style }) => <th style={style} className="border border-gray-200 bg-gray-50 px-3 py-1.5 text-left">{children}</th>,
+  td: ({ children, style }) => <td style={style} className="border border-gray-200 px-3 py-1.5">{children}</td>,
+  code: ({ children }) => <code className="bg-gray-100 px-1 rounded text-[0.9em]">{children}</code>,
+  pre: ({ children }) => <pre className="bg-gray-100 rounded p-3 my-2 overflow-x-auto text-xs [&>code]:p-0">{children}</pre>,
+  a: ({ children, href }) => <a href={href} target="_blank" rel="noopener noreferrer" className="text-blue-600 underline">{children}</a>,
+  blockquote: ({ children }) => <blockquote className="border-l-4 border-gray-300 pl-3 text-gray-600">{children}</blockquote>,
+};
+
+const ReportPanel: React.FC<ReportPanelProps> = ({ data, projectName, onClose }) => {
+  const [options, setOptions] = useState<ReportOptions>({
+    title: `${projectName} 对比报告`,
+    includeDescriptions: true,
+  });
+
+  const report = useMemo(() => buildComparisonReport(data, options.title), [data, options.title]);
+  const body = useMemo(() => renderReportBody(report, options), [report, options]);
+  const chartSvg = useMemo(
+    () => buildRadarSvg(data, { width: 720, theme: 'light', showLegend: true }),
+    [data]
+  );
+  const hasData = data.softwares.length > 0 && data.dimensions.length > 0;
+
+  const handleDownloadMarkdown = () => {
+    downloadFile(renderReportMarkdown(report, options), `av_report_${todayStamp()}.md`, 'text/markdown;charset=utf-8');
+  };
+
+  const handleDownloadHtml = () => {
+    downloadFile(renderReportHtml(report, options), `av_report_${todayStamp()}.html`, 'text/html;charset=utf-8');
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/80 flex items-center justify-center z-50 backdrop-blur-sm p-4">
+      <div className="bg-gray-800 rounded-xl w-full max-w-6xl border border-gray-700 shadow-2xl flex flex-col max-h-[90vh]">
+        <div className="p-5 border-b border-gray-700 flex justify-between items-center bg-gray-900/50 rounded-t-xl">
+          <div className="flex items-center gap-3">
+            <div className="bg-blue-900/30 p-2 rounded-lg text-blue-400">
+              <ScrollText size={20} />
+            </div>
+            <div>
+              <h3 className="text-lg font-bold text-white">生成对比报告</h3>
+              <p className="text-sm text-gray-400">根据当前评分生成排名、各维度最佳、优势短板与详细描述</p>
+            </div>
+          </div>
+          <button onClick={onClose} className="text-gray-500 hover:text-white transition-colors"><X size={24}/></button>
+        </div>
+
+        <div className="flex-1 overflow-hidden flex flex-col lg:flex-row min-h-0">
+          {/* Options */}
+          <div className="lg:w-72 shrink-0 p-5 border-b lg:border-b-0 lg:border-r border-gray-700 flex flex-col gap-4">
+            <label className="flex flex-col gap-1.5 text-sm text-gray-300">
+              报告标题
+              <input
+                className="bg-gray-900 border border-gray-600 rounded p-2 text-white text-sm focus:ring-2 focus:ring-blue-500 outline-none"
+                value={options.title}
+                onChange={(e) => setOptions(prev => ({ ...prev, title: e.target.value }))}
+              />
+            </label>
+            <label className="flex items-center gap-2 text-sm text-gray-300 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={options.includeDescriptions}
+                onChange={(e) => setOptions(prev => ({ ...prev, includeDescriptions: e.target.checked }))}
+                className="accent-blue-500"
+              />
+              包含详细描述
+            </label>
+
+            <div className="flex flex-col gap-2 mt-auto">
+              <button
+                onClick={handleDownloadMarkdown}
+                disabled={!hasData}
+                className="flex items-center justify-center gap-2 px-4 py-2 bg-gray-700 hover:bg-gray-600 text-gray-200 rounded-lg text-sm font-medium border border-gray-600 disabled:opacity-40 disabled:pointer-events-none"
+              >
+                <FileText size={16} />
+                下载 Markdown
+              </button>
+              <button
+                onClick={handleDownloadHtml}
+                disabled={!hasData}
+                className="flex items-center justify-center gap-2 px-4 py-2 bg-blue-600 hover:bg-blue-500 text-white rounded-lg text-sm font-medium shadow-lg shadow-blue-900/20 disabled:opacity-40 disabled:pointer-events-none"
+              >
+                <FileCode size={16} />
+                下载 HTML（含雷达图）
+              </button>
+              <p className="text-xs text-gray-500">HTML 为单文件，可直接发送或打印为 PDF；Markdown 不含图表。</p>
+            </div>
+          </div>
+
+          {/* Live Preview */}
+          <div className="flex-1 overflow-y-auto bg-gray-900/50 p-5">
+            <article className="bg-white text-gray-800 rounded-lg shadow px-8 py-6 max-w-3xl mx-auto">
+              <h1 className="text-2xl font-bold">{options.title}</h1>
+              <p className="text-sm text-gray-500 mb-4">{renderReportSubtitle(report)}</p>
+              {hasData && (
+                <div className="my-4 [&>svg]:max-w-full [&>svg]:h-auto [&>svg]:mx-auto" dangerouslySetInnerHTML={{ __html: chartSvg }} />
+              )}
+              <ReactMarkdown remarkPlugins={[remarkGfm]} components={previewComponents}>
+                {body}
+              </ReactMarkdown>
+            </article>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ReportPanel;
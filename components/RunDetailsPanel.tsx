@@ -0,0 +1,131 @@
+import React from 'react';
+import { Dimension, HarnessRun, RunAggregation, RunMetric, Software } from '../types';
+import { RUN_AGGREGATION_LABELS, RUN_METRICS, RUN_METRIC_KEYS, aggregateMetric } from '../utils/runs';
+import { X, Activity, Trash2 } from 'lucide-react';
+
+interface RunDetailsPanelProps {
+  software: Software;
+  dimension: Dimension;
+  runs: HarnessRun[];
+  // Metrics that feed this dimension, highlighted in the table
+  metrics: RunMetric[];
+  aggregation: RunAggregation;
+  onDeleteRun: (id: string) => void;
+  onClose: () => void;
+}
+
+const formatValue = (value: number | undefined | null) => (value === undefined || value === null ? '-' : value.toLocaleString());
+
+// The raw harness runs behind one score cell
+const RunDetailsPanel: React.FC<RunDetailsPanelProps> = ({
+  software,
+  dimension,
+  runs,
+  metrics,
+  aggregation,
+  onDeleteRun,
+  onClose,
+}) => {
+  // Mapped metrics first, then whatever else the runs recorded
+  const columns = [
+    ...metrics,
+    ...RUN_METRIC_KEYS.filter(metric => !metrics.includes(metric) && runs.some(run => run.metrics[metric] !== undefined)),
+  ];
+  const score = software.scores[dimension.id];
+
+  return (
+    <div className="fixed inset-0 bg-black/80 flex items-center justify-center z-50 backdrop-blur-sm p-4">
+      <div className="bg-gray-800 rounded-xl w-full max-w-4xl border border-gray-700 shadow-2xl flex flex-col max-h-[90vh]">
+        <div className="p-5 border-b border-gray-700 flex justify-between items-center bg-gray-900/50 rounded-t-xl">
+          <div className="flex items-center gap-3">
+            <div className="bg-blue-900/30 p-2 rounded-lg text-blue-400">
+              <Activity size={20} />
+            </div>
+            <div>
+              <h3 className="text-lg font-bold text-white">运行记录</h3>
+              <p className="text-sm text-gray-400">
+                <span className="font-medium" style={{ color: software.color }}>{software.name}</span>
+                <span className="mx-2 text-gray-600">/</span>
+                <span>{dimension.name}</span>
+              </p>
+            </div>
+          </div>
+          <button onClick={onClose} className="text-gray-500 hover:text-white transition-colors"><X size={24}/></button>
+        </div>
+
+        <div className="p-6 flex-1 overflow-y-auto flex flex-col gap-4">
+          <p className="text-sm text-gray-400">
+            {metrics.map(metric => RUN_METRICS[metric].label).join('、')}取 {runs.length} 次运行的{RUN_AGGREGATION_LABELS[aggregation]}
+            {software.rawValues?.[dimension.id] !== undefined && (
+              <>，实测值 <span className="text-white font-medium">{formatValue(software.rawValues[dimension.id])}{dimension.unit ? ` ${dimension.unit}` : ''}</span></>
+            )}
+            {dimension.normalization && score !== undefined && (
+              <>，换算评分 <span className="text-blue-300 font-bold">{score.toFixed(1)}</span></>
+            )}
+            。
+          </p>
+
+          <div className="overflow-x-auto border border-gray-700 rounded-lg">
+            <table className="min-w-full text-xs">
+              <thead className="bg-gray-900/50 text-gray-400">
+                <tr>
+                  <th className="px-3 py-2 text-left font-medium">运行</th>
+                  <th className="px-3 py-2 text-left font-medium">开始时间</th>
+                  <th className="px-3 py-2 text-left font-medium">来源文件</th>
+                  {columns.map(metric => (
+                    <th
+                      key={metric}
+                      className={`px-3 py-2 text-right font-medium whitespace-nowrap ${metrics.includes(metric) ? 'text-blue-300' : ''}`}
+                    >
+                      {RUN_METRICS[metric].label} ({RUN_METRICS[metric].unit})
+                    </th>
+                  ))}
+                  <th className="px-3 py-2" />
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-700">
+                {runs.map(run => (
+                  <tr key={run.id} className="group">
+                    <td className="px-3 py-2 text-gray-200 whitespace-nowrap">{run.label}</td>
+                    <td className="px-3 py-2 text-gray-400 whitespace-nowrap">{run.startedAt ?? '-'}</td>
+                    <td className="px-3 py-2 text-gray-500 truncate max-w-[160px]" title={run.source}>{run.source}</td>
+                    {columns.map(metric => (
+                      <td
+                        key={metric}
+                        className={`px-3 py-2 text-right whitespace-nowrap ${metrics.includes(metric) ? 'text-white font-medium' : 'text-gray-400'}`}
+                      >
+                        {formatValue(run.metrics[metric])}
+                      </td>
+                    ))}
+                    <td className="px-3 py-2 text-right">
+                      <button
+                        onClick={() => onDeleteRun(run.id)}
+                        className="text-gray-500 hover:text-red-400 opacity-0 group-hover:opacity-100 transition-opacity"
+                        title="删除该运行，重新汇总"
+                      >
+                        <Trash2 size={14} />
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+              <tfoot className="bg-gray-900/50 border-t border-gray-700">
+                <tr>
+                  <td colSpan={3} className="px-3 py-2 text-gray-400">{RUN_AGGREGATION_LABELS[aggregation]}</td>
+                  {columns.map(metric => (
+                    <td key={metric} className="px-3 py-2 text-right font-bold text-blue-300 whitespace-nowrap">
+                      {formatValue(aggregateMetric(runs, metric, aggregation))}
+                    </td>
+                  ))}
+                  <td />
+                </tr>
+              </tfoot>
+            </table>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default RunDetailsPanel;
@@ -0,0 +1,390 @@
+import React, { useRef, useState } from 'react';
+import { ComparisonData, RunAggregation, RunMetric, RunSettings } from '../types';
+import {
+  DimensionScoring,
+  ParsedRun,
+  RUN_AGGREGATION_LABELS,
+  RUN_METRICS,
+  RUN_METRIC_KEYS,
+  aggregateMetric,
+  applyRunIngest,
+  getRunSettings,
+  parseRunRecords,
+  runsOfSoftware,
+  suggestLinearRule,
+  suggestMappings,
+} from '../utils/runs';
+import { describeNormalization } from '../utils/normalization';
+import DimensionScoringEditor from './DimensionScoringEditor';
+import { X, Activity, FileUp, Trash2, AlertTriangle, Settings, Wand2 } from 'lucide-react';
+
+interface RunIngestPanelProps {
+  currentData: ComparisonData;
+  onApply: (data: ComparisonData, newRunCount: number) => void;
+  onClearRuns: () => void;
+  onClose: () => void;
+}
+
+interface LoadedFile {
+  source: string;
+  runs: ParsedRun[];
+  errors: string[];
+}
+
+const AGGREGATION_HINTS: Record<RunAggregation, string> = {
+  mean: '所有运行的算术平均',
+  median: '不受个别异常运行影响',
+  best: '耗时与资源占用取最小值，文件数与检出数取最大值',
+};
+
+const SAMPLE_JSON = `{
+  "runs": [
+    {
+      "product": "Windows Defender",
+      "run": "full-scan-1",
+      "startedAt": "2024-05-01T10:00:00Z",
+      "scanDurationSec": 312.5,
+      "filesScanned": 182340,
+      "peakRamMB": 412,
+      "avgRamMB": 286,
+      "cpuPercent": 37.2,
+      "energyWh": 4.1,
+      "detections": 9876
+    }
+  ]
+}`;
+
+const SAMPLE_CSV = `product,run,startedAt,scanDurationSec,filesScanned,peakRamMB,avgRamMB,cpuPercent,energyWh,detections
+Windows Defender,full-scan-1,2024-05-01T10:00:00Z,312.5,182340,412,286,37.2,4.1,9876`;
+
+const formatRaw = (value: number | undefined, unit: string) =>
+  value === undefined ? '-' : `${value.toLocaleString()}${unit ? ` ${unit}` : ''}`;
+
+// Imports harness run records, maps their metrics to dimensions and previews the resulting scores
+const RunIngestPanel: React.FC<RunIngestPanelProps> = ({ currentData, onApply, onClearRuns, onClose }) => {
+  const saved = getRunSettings(currentData);
+  const { dimensions } = currentData;
+  const [files, setFiles] = useState<LoadedFile[]>([]);
+  const [aggregation, setAggregation] = useState<RunAggregation>(saved.aggregation);
+  const [mappings, setMappings] = useState<RunSettings['mappings']>(() => {
+    // Mappings to deleted dimensions are dropped; a project without any gets suggestions
+    const existing = Object.fromEntries(
+      Object.entries(saved.mappings).filter(([, dimId]) => dimensions.some(d => d.id === dimId))
+    );
+    return Object.keys(existing).length > 0 ? existing : suggestMappings(currentData);
+  });
+  const [scoring, setScoring] = useState<Record<string, DimensionScoring>>({});
+  const [editingRuleFor, setEditingRuleFor] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const newRunCount = files.reduce((n, f) => n + f.runs.length, 0);
+  const result = applyRunIngest(currentData, files, { aggregation, mappings }, scoring);
+  const runs = result.runs ?? [];
+  const mappedMetrics = RUN_METRIC_KEYS.filter(metric => mappings[metric]);
+  const previewSoftwares = result.softwares.filter(sw => runs.some(run => run.softwareId === sw.id));
+  const existingRunCount = currentData.runs?.length ?? 0;
+
+  const stagedDimension = (id: string) => {
+    const dim = dimensions.find(d => d.id === id);
+    return dim ? { ...dim, ...scoring[id] } : undefined;
+  };
+
+  const handleFiles = (list: FileList | null) => {
+    if (!list || list.length === 0) return;
+    Promise.all(
+      Array.from(list).map(file =>
+        file.text().then(text => ({ source: file.name, ...parseRunRecords(text, file.name) }))
+      )
+    )
+      .then(loaded => setFiles(prev => [...prev, ...loaded]))
+      .catch(err => {
+        console.error(err);
+        alert('读取运行记录失败。');
+      })
+      .finally(() => {
+        if (fileInputRef.current) fileInputRef.current.value = '';
+      });
+  };
+
+  const setMapping = (metric: RunMetric, dimId: string) => {
+    setMappings(prev => {
+      const next = { ...prev };
+      if (dimId) next[metric] = dimId;
+      else delete next[metric];
+      return next;
+    });
+  };
+
+  // Linear rule over the observed range, with the metric's own unit and direction
+  const suggestRule = (metric: RunMetric, dimId: string) => {
+    const dim = dimensions.find(d => d.id === dimId);
+    const values = previewSoftwares
+      .map(sw => aggregateMetric(runsOfSoftware(runs, sw.id), metric, aggregation))
+      .filter((v): v is number => v !== null);
+    const normalization = suggestLinearRule(values);
+    if (!dim || !normalization) return;
+    setScoring(prev => ({
+      ...prev,
+      [dimId]: {
+        unit: dim.unit || RUN_METRICS[metric].unit,
+        lowerIsBetter: RUN_METRICS[metric].lowerIsBetter,
+        normalization,
+      },
+    }));
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/80 flex items-center justify-center z-50 backdrop-blur-sm p-4">
+      <div className="bg-gray-800 rounded-xl w-full max-w-4xl border border-gray-700 shadow-2xl flex flex-col max-h-[90vh]">
+        <div className="p-5 border-b border-gray-700 flex justify-between items-center bg-gray-900/50 rounded-t-xl">
+          <div className="flex items-center gap-3">
+            <div className="bg-blue-900/30 p-2 rounded-lg text-blue-400">
+              <Activity size={20} />
+            </div>
+            <div>
+              <h3 className="text-lg font-bold text-white">运行记录</h3>
+              <p className="text-sm text-gray-400">导入测试框架的扫描运行记录，汇总后换算为维度评分</p>
+            </div>
+          </div>
+          <button onClick={onClose} className="text-gray-500 hover:text-white transition-colors"><X size={24}/></button>
+        </div>
+
+        <div className="p-6 flex-1 overflow-y-auto flex flex-col gap-6">
+          {/* Files */}
+          <section className="flex flex-col gap-3">
+            <div className="flex items-center gap-3 flex-wrap">
+              <input
+                type="file"
+                ref={fileInputRef}
+                accept=".json,.csv"
+                multiple
+                className="hidden"
+                onChange={(e) => handleFiles(e.target.files)}
+              />
+              <button
+                onClick={() => fileInputRef.current?.click()}
+                className="flex items-center gap-2 px-3 py-2 bg-blue-600 hover:bg-blue-500 text-white rounded-lg text-sm font-medium"
+              >
+                <FileUp size={16} /> 选择记录文件
+              </button>
+              <span className="text-sm text-gray-400">
+                已有 {existingRunCount} 条运行记录{newRunCount > 0 && `，本次新增 ${newRunCount} 条`}
+              </span>
+              {existingRunCount > 0 && (
+                <button
+                  onClick={onClearRuns}
+                  className="flex items-center gap-1 text-xs text-gray-500 hover:text-red-400 ml-auto"
+                >
+                  <Trash2 size={12} /> 清空已有记录
+                </button>
+              )}
+            </div>
+
+            {files.map((file, i) => (
+              <div key={i} className="bg-gray-900/50 border border-gray-700 rounded-lg px-3 py-2 text-sm">
+                <div className="flex items-center justify-between gap-2">
+                  <span className="text-gray-200 truncate">{file.source}</span>
+                  <span className="flex items-center gap-3 shrink-0 text-xs text-gray-400">
+                    {file.runs.length} 条运行
+                    <button
+                      onClick={() => setFiles(prev => prev.filter((_, j) => j !== i))}
+                      className="text-gray-500 hover:text-red-400"
+                      title="移除该文件"
+                    >
+                      <X size={14} />
+                    </button>
+                  </span>
+                </div>
+                {file.errors.length > 0 && (
+                  <ul className="mt-1 flex flex-col gap-0.5 text-xs text-amber-300/90 max-h-24 overflow-y-auto">
+                    {file.errors.map((error, j) => (
+                      <li key={j} className="flex items-start gap-1">
+                        <AlertTriangle size={12} className="shrink-0 mt-0.5" /> {error}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            ))}
+
+            <details className="text-sm">
+              <summary className="cursor-pointer text-gray-400 hover:text-gray-200">记录格式说明</summary>
+              <div className="mt-2 flex flex-col gap-2 text-xs text-gray-400">
+                <p>
+                  JSON（运行数组，或带 <code className="text-amber-200">runs</code> 数组的对象）或 CSV（首行为字段名），每条记录一次运行。
+                  <code className="text-amber-200">product</code> 必填，按名称匹配软件，不存在的软件会自动添加；
+                  <code className="text-amber-200">run</code> 与 <code className="text-amber-200">startedAt</code> 可选。指标字段（均为数字，可省略）：
+                </p>
+                <ul className="grid grid-cols-1 sm:grid-cols-2 gap-x-4">
+                  {RUN_METRIC_KEYS.map(metric => (
+                    <li key={metric}>
+                      <code className="text-amber-200">{metric}</code> {RUN_METRICS[metric].label}（{RUN_METRICS[metric].unit}）
+                    </li>
+                  ))}
+                </ul>
+                <pre className="bg-gray-950 border border-gray-700 rounded p-2 overflow-x-auto text-gray-300">{SAMPLE_JSON}</pre>
+                <pre className="bg-gray-950 border border-gray-700 rounded p-2 overflow-x-auto text-gray-300">{SAMPLE_CSV}</pre>
+              </div>
+            </details>
+          </section>
+
+          {/* Metric → Dimension Mapping */}
+          <section className="flex flex-col gap-2">
+            <h4 className="text-sm font-semibold text-gray-200">指标映射与换算规则</h4>
+            <div className="border border-gray-700 rounded-lg divide-y divide-gray-700">
+              {RUN_METRIC_KEYS.map(metric => {
+                const dimId = mappings[metric] ?? '';
+                const dim = dimId ? stagedDimension(dimId) : undefined;
+                return (
+                  <div key={metric} className="p-3 text-sm flex flex-col md:flex-row md:items-center gap-2">
+                    <span className="md:w-32 shrink-0 text-gray-200">
+                      {RUN_METRICS[metric].label}
+                      <span className="text-xs text-gray-500"> {RUN_METRICS[metric].unit}</span>
+                    </span>
+                    <select
+                      value={dimId}
+                      onChange={(e) => setMapping(metric, e.target.value)}
+                      className="md:w-48 bg-gray-900 border border-gray-600 rounded p-1.5 text-white text-sm focus:ring-2 focus:ring-blue-500 outline-none"
+                    >
+                      <option value="">不映射</option>
+                      {dimensions.map(d => (
+                        <option key={d.id} value={d.id}>{d.name}</option>
+                      ))}
+                    </select>
+                    {dim && (
+                      <div className="relative flex-1 flex items-center gap-3 min-w-0">
+                        {dim.normalization ? (
+                          <span className="text-xs text-gray-400 truncate">{describeNormalization(dim)}</span>
+                        ) : (
+                          <span className="flex items-center gap-1 text-xs text-amber-300/90">
+                            <AlertTriangle size={12} className="shrink-0" /> 未设置换算规则，只写入实测值
+                          </span>
+                        )}
+                        <span className="flex items-center gap-2 ml-auto shrink-0">
+                          {!dim.normalization && previewSoftwares.length >= 2 && (
+                            <button
+                              onClick={() => suggestRule(metric, dim.id)}
+                              className="flex items-center gap-1 text-xs text-blue-300 hover:text-blue-200"
+                              title="按各产品汇总值的范围生成线性规则"
+                            >
+                              <Wand2 size={12} /> 按实测范围
+                            </button>
+                          )}
+                          <button
+                            onClick={() => setEditingRuleFor(dim.id)}
+                            className="flex items-center gap-1 text-xs text-gray-400 hover:text-white"
+                          >
+                            <Settings size={12} /> 规则
+                          </button>
+                        </span>
+                        {editingRuleFor === dim.id && (
+                          <DimensionScoringEditor
+                            dimension={dim}
+                            onSave={(settings) => {
+                              setScoring(prev => ({ ...prev, [dim.id]: settings }));
+                              setEditingRuleFor(null);
+                            }}
+                            onClose={() => setEditingRuleFor(null)}
+                          />
+                        )}
+                      </div>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          </section>
+
+          {/* Aggregation */}
+          <section className="flex flex-col gap-2">
+            <h4 className="text-sm font-semibold text-gray-200">多次运行的汇总方式</h4>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-2">
+              {(Object.keys(RUN_AGGREGATION_LABELS) as RunAggregation[]).map(method => (
+                <label
+                  key={method}
+                  className={`flex items-start gap-3 p-3 rounded-lg border cursor-pointer transition-colors ${aggregation === method ? 'border-blue-500 bg-blue-900/20' : 'border-gray-700 hover:border-gray-600'}`}
+                >
+                  <input
+                    type="radio"
+                    name="run-aggregation"
+                    checked={aggregation === method}
+                    onChange={() => setAggregation(method)}
+                    className="mt-1 accent-blue-500"
+                  />
+                  <span>
+                    <span className="block text-sm text-gray-200">{RUN_AGGREGATION_LABELS[method]}</span>
+                    <span className="block text-xs text-gray-500">{AGGREGATION_HINTS[method]}</span>
+                  </span>
+                </label>
+              ))}
+            </div>
+          </section>
+
+          {/* Preview */}
+          {previewSoftwares.length > 0 && mappedMetrics.length > 0 && (
+            <section className="flex flex-col gap-2">
+              <h4 className="text-sm font-semibold text-gray-200">汇总结果预览</h4>
+              <div className="overflow-x-auto border border-gray-700 rounded-lg">
+                <table className="min-w-full text-xs">
+                  <thead className="bg-gray-900/50 text-gray-400">
+                    <tr>
+                      <th className="px-3 py-2 text-left font-medium">软件</th>
+                      <th className="px-3 py-2 text-right font-medium">运行次数</th>
+                      {mappedMetrics.map(metric => (
+                        <th key={metric} className="px-3 py-2 text-right font-medium whitespace-nowrap">
+                          {RUN_METRICS[metric].label} → {stagedDimension(mappings[metric]!)?.name}
+                        </th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-700">
+                    {previewSoftwares.map(sw => (
+                      <tr key={sw.name}>
+                        <td className="px-3 py-2 text-gray-200 whitespace-nowrap">
+                          {sw.name}
+                          {!currentData.softwares.some(s => s.id === sw.id) && <span className="ml-1 text-green-400">（新增）</span>}
+                        </td>
+                        <td className="px-3 py-2 text-right text-gray-400">{runsOfSoftware(runs, sw.id).length}</td>
+                        {mappedMetrics.map(metric => {
+                          const dimId = mappings[metric]!;
+                          const value = aggregateMetric(runsOfSoftware(runs, sw.id), metric, aggregation);
+                          const dim = stagedDimension(dimId);
+                          return (
+                            <td key={metric} className="px-3 py-2 text-right whitespace-nowrap">
+                              <span className="text-gray-300">{formatRaw(value ?? undefined, RUN_METRICS[metric].unit)}</span>
+                              {value !== null && dim?.normalization && (
+                                <span className="ml-2 font-bold text-blue-300">{(sw.scores[dimId] ?? 0).toFixed(1)}</span>
+                              )}
+                            </td>
+                          );
+                        })}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </section>
+          )}
+        </div>
+
+        <div className="p-5 border-t border-gray-700 flex justify-end space-x-3 bg-gray-900/50 rounded-b-xl">
+          <button
+            onClick={onClose}
+            className="px-5 py-2.5 text-gray-300 hover:text-white hover:bg-gray-700 rounded-lg transition-colors font-medium"
+          >
+            取消
+          </button>
+          <button
+            onClick={() => onApply(result, newRunCount)}
+            className="px-5 py-2.5 bg-blue-600 hover:bg-blue-500 text-white rounded-lg font-medium shadow-lg shadow-blue-900/20 flex items-center gap-2 transition-all active:scale-95"
+          >
+            <Activity size={18} />
+            {newRunCount > 0 ? `导入 ${newRunCount} 条运行` : '应用设置'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default RunIngestPanel;
@@ -0,0 +1,62 @@
+import React from 'react';
+import { Software } from '../types';
+import { SeriesVisibility } from '../hooks/useSeriesVisibility';
+import { Eye, EyeOff } from 'lucide-react';
+
+interface SeriesControlsProps {
+  softwares: Software[];
+  series: SeriesVisibility;
+}
+
+// Baseline picker and bulk visibility actions shown above the interactive legend
+const SeriesControls: React.FC<SeriesControlsProps> = ({ softwares, series }) => {
+  const hiddenCount = softwares.filter(sw => series.hiddenIds.includes(sw.id)).length;
+
+  return (
+    <div className="mt-4 flex flex-wrap items-center justify-between gap-3 text-xs text-gray-400">
+      <div className="flex items-center gap-2">
+        <span>对比基准</span>
+        <select
+          value={series.baselineId ?? ''}
+          onChange={(e) => series.setBaselineId(e.target.value || null)}
+          className="bg-gray-900 border border-gray-600 rounded px-2 py-1 text-gray-200 focus:ring-2 focus:ring-blue-500 outline-none"
+        >
+          <option value="">无</option>
+          {softwares.map(sw => (
+            <option key={sw.id} value={sw.id}>{sw.name}</option>
+          ))}
+        </select>
+      </div>
+
+      <div className="flex items-center gap-3">
+        <span>已显示 {softwares.length - hiddenCount}/{softwares.length}</span>
+        <button
+          onClick={series.showAll}
+          disabled={hiddenCount === 0}
+          className="flex items-center gap-1 hover:text-white disabled:opacity-40 disabled:pointer-events-none"
+        >
+          <Eye size={14} /> 全部显示
+        </button>
+        <button
+          onClick={() => series.hideAll(softwares.map(sw => sw.id))}
+          disabled={hiddenCount === softwares.length}
+          className="flex items-center gap-1 hover:text-white disabled:opacity-40 disabled:pointer-events-none"
+          title="先全部隐藏，再点击图例挑选要对比的软件"
+        >
+          <EyeOff size={14} /> 全部隐藏
+        </button>
+        <label className="flex items-center gap-1.5 cursor-pointer hover:text-white">
+          <input
+            type="checkbox"
+            checked={series.filterTable}
+            onChange={(e) => series.setFilterTable(e.target.checked)}
+            className="accent-blue-500"
+          />
+          表格同步隐藏
+        </label>
+      </div>
+    </div>
+  );
+};
+
+export default SeriesControls;
@@ -0,0 +1,58 @@
+import React from 'react';
+import { Software } from '../types';
+import { TOOLTIP_CONTENT_STYLE } from './chartStyles';
+
+interface SeriesTooltipProps {
+  softwares: Software[];
+  baselineId: string | null;
+  // Injected by recharts
+  active?: boolean;
+  label?: string;
+  payload?: { dataKey?: string | number; value?: number; payload?: Record<string, number | string> }[];
+}
+
+const formatDelta = (delta: number) => {
+  const rounded = Math.round(delta * 10) / 10;
+  return rounded > 0 ? `+${rounded}` : String(rounded);
+};
+
+// Tooltip listing the visible series; with a baseline, each score also shows its delta
+const SeriesTooltip: React.FC<SeriesTooltipProps> = ({ softwares, baselineId, active, label, payload }) => {
+  if (!active || !payload || payload.length === 0) return null;
+
+  const point = payload[0].payload ?? {};
+  const baseline = softwares.find(sw => sw.id === baselineId);
+  const baselineValue = baseline ? Number(point[baseline.id] ?? 0) : null;
+
+  return (
+    <div className="rounded border px-3 py-2 text-sm shadow-lg" style={TOOLTIP_CONTENT_STYLE}>
+      <p className="font-semibold mb-1">{label}</p>
+      {payload.map(entry => {
+        const sw = softwares.find(s => s.id === entry.dataKey);
+        if (!sw) return null;
+        const value = Number(entry.value ?? 0);
+        const delta = baselineValue !== null && sw.id !== baseline?.id ? value - baselineValue : null;
+        return (
+          <div key={sw.id} className="flex items-center gap-2">
+            <span className="w-2.5 h-2.5 rounded-full shrink-0" style={{ backgroundColor: sw.color }} />
+            <span className="text-gray-300">{sw.name}</span>
+            <span className="ml-auto pl-4 font-semibold text-gray-100">{value}</span>
+            {delta !== null && (
+              <span className={`w-10 text-right text-xs ${delta > 0 ? 'text-green-400' : delta < 0 ? 'text-red-400' : 'text-gray-500'}`}>
+                {formatDelta(delta)}
+              </span>
+            )}
+            {baseline && sw.id === baseline.id && <span className="w-10 text-right text-xs text-blue-300">基准</span>}
+          </div>
+        );
+      })}
+      {baseline && !payload.some(entry => entry.dataKey === baseline.id) && (
+        <p className="mt-1 pt-1 border-t border-gray-700 text-xs text-gray-400">
+          基准 {baseline.name}：{baselineValue}
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default SeriesTooltip;
@@ -0,0 +1,135 @@
+import React, { useEffect, useState } from 'react';
+import { ComparisonData } from '../types';
+import { SharedViewSettings, buildSharePayload, buildShareUrl, encodeSharePayload } from '../utils/share';
+import { X, Share2, Copy, Check, ExternalLink, Loader2, AlertTriangle } from 'lucide-react';
+
+interface ShareDialogProps {
+  projectName: string;
+  // The data as currently shown, after evaluator and version selection
+  data: ComparisonData;
+  view: SharedViewSettings;
+  onClose: () => void;
+}
+
+// Links beyond this length get cut off by some chat tools and mail clients
+const LONG_LINK_LENGTH = 8000;
+
+// Builds a read-only share link with the dataset compressed into the URL hash
+const ShareDialog: React.FC<ShareDialogProps> = ({ projectName, data, view, onClose }) => {
+  const [includeDescriptions, setIncludeDescriptions] = useState(true);
+  const [url, setUrl] = useState('');
+  const [error, setError] = useState('');
+  const [copied, setCopied] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    setUrl('');
+    setError('');
+    encodeSharePayload(buildSharePayload(projectName, data, view, { includeDescriptions }))
+      .then((encoded) => {
+        if (!cancelled) setUrl(buildShareUrl(encoded));
+      })
+      .catch((err) => {
+        console.error(err);
+        if (!cancelled) setError('生成分享链接失败，浏览器可能不支持数据压缩，请升级浏览器后重试。');
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [projectName, data, view, includeDescriptions]);
+
+  const handleCopy = () => {
+    navigator.clipboard.writeText(url)
+      .then(() => {
+        setCopied(true);
+        setTimeout(() => setCopied(false), 1500);
+      })
+      .catch(err => {
+        console.error(err);
+        alert('复制失败，浏览器未允许访问剪贴板，请手动选中文本复制。');
+      });
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/80 flex items-center justify-center z-50 backdrop-blur-sm p-4">
+      <div className="bg-gray-800 rounded-xl w-full max-w-2xl border border-gray-700 shadow-2xl flex flex-col max-h-[90vh]">
+        <div className="p-5 border-b border-gray-700 flex justify-between items-center bg-gray-900/50 rounded-t-xl">
+          <div className="flex items-center gap-3">
+            <div className="bg-blue-900/30 p-2 rounded-lg text-blue-400">
+              <Share2 size={20} />
+            </div>
+            <div>
+              <h3 className="text-lg font-bold text-white">分享只读链接</h3>
+              <p className="text-sm text-gray-400">数据压缩在链接中，无需服务器，对方打开即可查看</p>
+            </div>
+          </div>
+          <button onClick={onClose} className="text-gray-500 hover:text-white transition-colors"><X size={24}/></button>
+        </div>
+
+        <div className="p-6 flex-1 overflow-y-auto flex flex-col gap-4">
+          <p className="text-sm text-gray-400">
+            链接包含「{projectName}」当前显示的 {data.softwares.length} 个软件、{data.dimensions.length} 个维度及图表设置。
+            对方以只读方式查看，不会影响其本地数据，可自行选择复制到自己的工作区。
+          </p>
+
+          <label className="flex items-center gap-2 text-sm text-gray-300 cursor-pointer select-none">
+            <input
+              type="checkbox"
+              checked={includeDescriptions}
+              onChange={(e) => setIncludeDescriptions(e.target.checked)}
+              className="accent-blue-500"
+            />
+            包含详细描述
+          </label>
+
+          {error ? (
+            <p className="flex items-start gap-2 text-sm text-red-300 bg-red-900/20 border border-red-800/50 rounded-lg p-3">
+              <AlertTriangle size={16} className="shrink-0 mt-0.5" /> {error}
+            </p>
+          ) : url ? (
+            <>
+              <textarea
+                value={url}
+                readOnly
+                rows={4}
+                onFocus={(e) => e.target.select()}
+                className="w-full bg-gray-900 border border-gray-600 rounded-lg p-3 text-xs text-gray-300 font-mono outline-none resize-none break-all"
+              />
+              <p className={`text-xs ${url.length > LONG_LINK_LENGTH ? 'text-amber-300/90' : 'text-gray-500'}`}>
+                链接长度 {url.length.toLocaleString()} 字符
+                {url.length > LONG_LINK_LENGTH && '，部分聊天工具可能截断过长的链接，可取消包含描述以缩短，或改为导出项目文件。'}
+              </p>
+            </>
+          ) : (
+            <p className="flex items-center gap-2 text-sm text-gray-400">
+              <Loader2 size={16} className="animate-spin" /> 正在生成链接…
+            </p>
+          )}
+
+          <p className="text-xs text-gray-500">评估人明细、历史版本、运行记录、样本数据与附件不包含在链接中。</p>
+        </div>
+
+        <div className="p-5 border-t border-gray-700 flex justify-end space-x-3 bg-gray-900/50 rounded-b-xl">
+          <a
+            href={url || undefined}
+            target="_blank"
+            rel="noreferrer"
+            className={`flex items-center gap-1.5 px-4 py-2 text-gray-400 hover:text-white transition-colors ${url ? '' : 'pointer-events-none opacity-40'}`}
+          >
+            <ExternalLink size={16} /> 预览
+          </a>
+          <button
+            onClick={handleCopy}
+            disabled={!url}
+            className="flex items-center gap-1.5 px-4 py-2 bg-blue-600 hover:bg-blue-500 text-white rounded font-medium transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+          >
+            {copied ? <Check size={16} /> : <Copy size={16} />}
+            {copied ? '已复制' : '复制链接'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ShareDialog;
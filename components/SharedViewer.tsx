@@ -0,0 +1,256 @@
+import React, { useEffect, useState } from 'react';
+import { Category, Dimension, Software } from '../types';
+import { SharePayload, decodeSharePayload, workspaceUrl } from '../utils/share';
+import {
+  createProjectMeta,
+  loadStoredProjects,
+  saveActiveProjectId,
+  saveProjectData,
+  saveProjectIndex,
+} from '../services/projectStorage';
+import { computeWeightedScore, findOverallBest } from '../utils/scoring';
+import { groupDimensions } from '../utils/categories';
+import { markdownToPlainText } from '../utils/markdown';
+import { cellTrialStats, formatMeanSd } from '../utils/trials';
+import { versionLabel } from '../utils/versions';
+import { generateId } from '../utils/id';
+import { useSeriesVisibility } from '../hooks/useSeriesVisibility';
+import RadarChartVis from './RadarChartVis';
+import BarChartVis from './BarChartVis';
+import HeatmapVis from './HeatmapVis';
+import RankingChartVis from './RankingChartVis';
+import ChartTypeSwitcher, { ChartType } from './ChartTypeSwitcher';
+import { ShieldCheck, Eye, FolderInput, ArrowLeft, Loader2, AlertTriangle } from 'lucide-react';
+
+interface SharedViewerProps {
+  // The payload part of the share link's hash
+  encoded: string;
+}
+
+interface SharedTableProps {
+  dimensions: Dimension[];
+  softwares: Software[];
+  categories: Category[];
+}
+
+// Scores, measured values and descriptions without any editing controls
+const SharedTable: React.FC<SharedTableProps> = ({ dimensions, softwares, categories }) => {
+  const groups = groupDimensions(dimensions, categories).filter(group => group.dimensions.length > 0);
+
+  const renderRow = (dim: Dimension) => (
+    <tr key={dim.id}>
+      <td className="px-4 py-3 sticky left-0 bg-gray-800 z-10 shadow-[2px_0_5px_-2px_rgba(0,0,0,0.5)]">
+        <p className="text-sm font-medium text-gray-200">{dim.name}</p>
+        {dim.unit && <p className="text-[10px] text-gray-500">{dim.unit}{dim.lowerIsBetter ? ' · 越低越好' : ''}</p>}
+      </td>
+      {softwares.map((sw) => {
+        const description = sw.descriptions?.[dim.id];
+        const rawValue = sw.rawValues?.[dim.id];
+        const trials = cellTrialStats(sw, dim.id);
+        return (
+          <td key={sw.id} className="px-3 py-3 text-center align-top">
+            <p className="text-sm font-bold text-white">{(sw.scores[dim.id] || 0).toFixed(1)}</p>
+            {dim.normalization && rawValue !== undefined && (
+              <p className="text-[10px] text-gray-500">实测 {rawValue}{dim.unit ? ` ${dim.unit}` : ''}</p>
+            )}
+            {trials && <p className="text-[10px] text-gray-500">{formatMeanSd(trials)}（{trials.n} 次）</p>}
+            {description && (
+              <p className="text-xs text-gray-400 mt-1 max-w-[160px] mx-auto line-clamp-2" title={markdownToPlainText(description)}>
+                {markdownToPlainText(description)}
+              </p>
+            )}
+          </td>
+        );
+      })}
+    </tr>
+  );
+
+  return (
+    <div className="overflow-x-auto bg-gray-800 rounded-xl shadow-lg border border-gray-700">
+      <table className="min-w-full divide-y divide-gray-700">
+        <thead className="bg-gray-900/50">
+          <tr>
+            <th className="px-4 py-4 text-left text-xs font-medium text-gray-400 uppercase tracking-wider sticky left-0 bg-gray-900/95 z-20 w-48">
+              维度 / 软件
+            </th>
+            {softwares.map(sw => (
+              <th key={sw.id} className="px-3 py-4 text-center min-w-[120px]">
+                <p className="font-bold text-sm" style={{ color: sw.color }}>{sw.name}</p>
+                {(sw.version || sw.testedAt) && <p className="text-[10px] text-gray-500 font-normal">{versionLabel(sw)}</p>}
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-gray-700">
+          {groups.map(group => (
+            <React.Fragment key={group.category?.id ?? 'uncategorized'}>
+              {categories.length > 0 && (
+                <tr className="bg-gray-900/40">
+                  <td colSpan={softwares.length + 1} className="px-4 py-2 text-xs font-semibold text-blue-300">
+                    {group.category?.name ?? '未分类'}
+                  </td>
+                </tr>
+              )}
+              {group.dimensions.map(renderRow)}
+            </React.Fragment>
+          ))}
+        </tbody>
+        <tfoot className="bg-gray-900/50 border-t border-gray-700">
+          <tr>
+            <td className="px-4 py-3 text-sm font-semibold text-blue-400 sticky left-0 bg-gray-900/95">加权总分</td>
+            {softwares.map(sw => (
+              <td key={sw.id} className="px-3 py-3 text-center text-lg font-bold text-blue-300">
+                {computeWeightedScore(sw, dimensions).toFixed(2)}
+              </td>
+            ))}
+          </tr>
+        </tfoot>
+      </table>
+    </div>
+  );
+};
+
+interface SharedContentProps {
+  payload: SharePayload;
+}
+
+// Separate from the loader so the series visibility starts from the shared view settings
+const SharedContent: React.FC<SharedContentProps> = ({ payload }) => {
+  const { data, view } = payload;
+  const categories = data.categories ?? [];
+  const [chartType, setChartType] = useState<ChartType>(view.chartType);
+  const series = useSeriesVisibility({ hiddenIds: view.hiddenIds, baselineId: view.baselineId });
+  const sharedDate = payload.sharedAt ? payload.sharedAt.slice(0, 10) : '';
+
+  // Stored as a new project, then the regular app opens it; existing projects are untouched
+  const handleCopyToWorkspace = () => {
+    const projects = loadStoredProjects();
+    const name = projects.some(p => p.name === payload.name) ? `${payload.name} (分享)` : payload.name;
+    if (!window.confirm(`将「${name}」添加到你的工作区？\n\n将作为新项目保存，不会影响你现有的项目。`)) return;
+    const meta = createProjectMeta(generateId(), name);
+    saveProjectData(meta.id, data);
+    saveProjectIndex([...projects, meta]);
+    saveActiveProjectId(meta.id);
+    window.location.replace(workspaceUrl());
+  };
+
+  return (
+    <>
+      <header className="flex flex-col md:flex-row items-center justify-between px-6 py-4 bg-gray-800 border-b border-gray-700 sticky top-0 z-40 shadow-md">
+        <div className="flex items-center space-x-3 mb-4 md:mb-0 min-w-0">
+          <ShieldCheck className="text-blue-500 shrink-0" size={32} />
+          <h1 className="text-xl font-bold tracking-tight text-white truncate">{payload.name}</h1>
+          <span className="flex items-center gap-1 px-2 py-0.5 rounded-full bg-gray-700 text-xs text-gray-300 shrink-0">
+            <Eye size={12} /> 只读分享{sharedDate && ` · ${sharedDate}`}
+          </span>
+        </div>
+        <div className="flex items-center gap-3">
+          <a
+            href={workspaceUrl()}
+            className="flex items-center gap-2 px-3 py-2 bg-gray-700 hover:bg-gray-600 text-gray-200 rounded-lg transition-all text-sm font-medium border border-gray-600"
+          >
+            <ArrowLeft size={16} />
+            <span>我的工作区</span>
+          </a>
+          <button
+            onClick={handleCopyToWorkspace}
+            className="flex items-center justify-center gap-2 px-4 py-2 bg-blue-600 hover:bg-blue-500 text-white rounded-lg transition-all text-sm font-medium shadow-lg shadow-blue-900/20"
+          >
+            <FolderInput size={16} />
+            <span>复制到我的工作区</span>
+          </button>
+        </div>
+      </header>
+
+      <main className="flex-1 p-4 md:p-8 overflow-y-auto flex flex-col gap-8">
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+          <div className="bg-gray-800 p-6 rounded-xl border border-gray-700 shadow-sm">
+            <p className="text-sm font-medium text-gray-400 mb-2">监测维度</p>
+            <p className="text-3xl font-bold text-white">{data.dimensions.length}</p>
+          </div>
+          <div className="bg-gray-800 p-6 rounded-xl border border-gray-700 shadow-sm">
+            <p className="text-sm font-medium text-gray-400 mb-2">参与对比软件</p>
+            <p className="text-3xl font-bold text-white">{data.softwares.length}</p>
+          </div>
+          <div className="bg-gray-800 p-6 rounded-xl border border-gray-700 shadow-sm">
+            <p className="text-sm font-medium text-gray-400 mb-2">综合最佳</p>
+            <p className="text-xl font-bold text-white truncate">{findOverallBest(data.softwares, data.dimensions)?.name ?? '暂无'}</p>
+          </div>
+        </div>
+
+        <div className="flex flex-col space-y-4">
+          <div className="flex justify-between items-center flex-wrap gap-3">
+            <h2 className="text-xl font-semibold text-white">可视化对比</h2>
+            <ChartTypeSwitcher value={chartType} onChange={setChartType} />
+          </div>
+          {chartType === 'radar' && (
+            <RadarChartVis
+              softwares={data.softwares}
+              dimensions={data.dimensions}
+              categories={categories}
+              exportSubtitle={`${payload.name}${sharedDate && ` · ${sharedDate}`}`}
+              series={series}
+            />
+          )}
+          {chartType === 'bar' && <BarChartVis softwares={data.softwares} dimensions={data.dimensions} series={series} />}
+          {chartType === 'heatmap' && <HeatmapVis softwares={data.softwares} dimensions={data.dimensions} />}
+          {chartType === 'ranking' && <RankingChartVis softwares={data.softwares} dimensions={data.dimensions} />}
+        </div>
+
+        <div className="flex flex-col space-y-4">
+          <h2 className="text-xl font-semibold text-white">详细评分与描述</h2>
+          <SharedTable dimensions={data.dimensions} softwares={data.softwares} categories={categories} />
+        </div>
+      </main>
+    </>
+  );
+};
+
+/**
+ * Read-only page for share links. It never writes to the visitor's own
+ * saved projects unless they explicitly copy the shared data over.
+ */
+const SharedViewer: React.FC<SharedViewerProps> = ({ encoded }) => {
+  const [payload, setPayload] = useState<SharePayload | null>(null);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    let cancelled = false;
+    setPayload(null);
+    setError('');
+    decodeSharePayload(encoded)
+      .then((decoded) => {
+        if (!cancelled) setPayload(decoded);
+      })
+      .catch((err: Error) => {
+        if (!cancelled) setError(err.message);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [encoded]);
+
+  return (
+    <div className="min-h-screen flex flex-col bg-gray-900 text-gray-100">
+      {payload ? (
+        <SharedContent payload={payload} />
+      ) : (
+        <div className="flex-1 flex flex-col items-center justify-center gap-4 p-8 text-center">
+          {error ? (
+            <>
+              <AlertTriangle size={40} className="text-amber-400" />
+              <p className="text-gray-200 whitespace-pre-line max-w-lg">{error}</p>
+              <a href={workspaceUrl()} className="text-sm text-blue-400 hover:text-blue-300">打开我的工作区</a>
+            </>
+          ) : (
+            <p className="flex items-center gap-2 text-gray-400">
+              <Loader2 size={20} className="animate-spin" /> 正在载入分享的对比…
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SharedViewer;
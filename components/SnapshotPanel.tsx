@@ -0,0 +1,307 @@
+import React, { useState } from 'react';
+import {
+  Radar,
+  RadarChart,
+  PolarGrid,
+  PolarAngleAxis,
+  PolarRadiusAxis,
+  ResponsiveContainer,
+  Tooltip,
+  Legend
+} from 'recharts';
+import { ComparisonData, Snapshot } from '../types';
+import { diffComparisonData, isDiffEmpty } from '../utils/snapshotDiff';
+import { X, History, Camera, Trash2, RotateCcw, ArrowRight } from 'lucide-react';
+
+const CURRENT_KEY = 'current';
+
+interface SnapshotPanelProps {
+  snapshots: Snapshot[];
+  currentData: ComparisonData;
+  onCreate: (name: string) => void;
+  onDelete: (id: string) => void;
+  onRestore: (id: string) => void;
+  onClose: () => void;
+}
+
+const formatDate = (iso: string) => new Date(iso).toLocaleString();
+
+const formatDelta = (delta: number) => {
+  const rounded = Math.round(delta * 10) / 10;
+  return rounded > 0 ? `+${rounded}` : String(rounded);
+};
+
+const SnapshotPanel: React.FC<SnapshotPanelProps> = ({
+  snapshots,
+  currentData,
+  onCreate,
+  onDelete,
+  onRestore,
+  onClose,
+}) => {
+  const [newName, setNewName] = useState('');
+  const [beforeKey, setBeforeKey] = useState(
+    snapshots.length > 0 ? snapshots[snapshots.length - 1].id : CURRENT_KEY
+  );
+  const [afterKey, setAfterKey] = useState(CURRENT_KEY);
+  const [overlaySoftwareId, setOverlaySoftwareId] = useState<string | null>(null);
+
+  const resolve = (key: string): ComparisonData =>
+    key === CURRENT_KEY ? currentData : snapshots.find(s => s.id === key)?.data ?? currentData;
+
+  const labelFor = (key: string) =>
+    key === CURRENT_KEY ? '当前数据' : snapshots.find(s => s.id === key)?.name ?? '当前数据';
+
+  const diff = diffComparisonData(resolve(beforeKey), resolve(afterKey));
+
+  const overlayPair =
+    diff.softwarePairs.find(p => p.after.id === overlaySoftwareId) ?? diff.softwarePairs[0];
+
+  const overlayData = overlayPair
+    ? diff.dimensionPairs.map(dimPair => ({
+        dimension: dimPair.after.name,
+        fullMark: 10,
+        before: overlayPair.before.scores[dimPair.before.id] || 0,
+        after: overlayPair.after.scores[dimPair.after.id] || 0,
+      }))
+    : [];
+
+  const handleCreate = () => {
+    if (!newName.trim()) return;
+    onCreate(newName.trim());
+    setNewName('');
+  };
+
+  const selectClass =
+    'flex-1 bg-gray-900 border border-gray-600 rounded p-2 text-white text-sm focus:ring-2 focus:ring-blue-500 outline-none';
+
+  const renderOptions = () => (
+    <>
+      <option value={CURRENT_KEY}>当前数据</option>
+      {snapshots.map(s => (
+        <option key={s.id} value={s.id}>{s.name}</option>
+      ))}
+    </>
+  );
+
+  return (
+    <div className="fixed inset-0 bg-black/80 flex items-center justify-center z-50 backdrop-blur-sm p-4">
+      <div className="bg-gray-800 rounded-xl w-full max-w-6xl border border-gray-700 shadow-2xl flex flex-col max-h-[90vh]">
+        <div className="p-5 border-b border-gray-700 flex justify-between items-center bg-gray-900/50 rounded-t-xl">
+          <div className="flex items-center gap-3">
+            <div className="bg-blue-900/30 p-2 rounded-lg text-blue-400">
+              <History size={20} />
+            </div>
+            <div>
+              <h3 className="text-lg font-bold text-white">快照与对比</h3>
+              <p className="text-sm text-gray-400">冻结当前数据，并比较任意两个版本之间的差异</p>
+            </div>
+          </div>
+          <button onClick={onClose} className="text-gray-500 hover:text-white transition-colors"><X size={24}/></button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto flex flex-col lg:flex-row">
+          {/* Snapshot List */}
+          <div className="lg:w-80 shrink-0 p-5 border-b lg:border-b-0 lg:border-r border-gray-700 flex flex-col gap-4">
+            <div className="flex gap-2">
+              <input
+                className="flex-1 bg-gray-900 border border-gray-600 rounded p-2 text-white text-sm focus:ring-2 focus:ring-blue-500 outline-none"
+                placeholder="快照名称，例如：厂商复测前"
+                value={newName}
+                onChange={(e) => setNewName(e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && handleCreate()}
+              />
+              <button
+                onClick={handleCreate}
+                className="flex items-center gap-1 px-3 py-2 bg-blue-600 hover:bg-blue-500 text-white rounded text-sm font-medium"
+                title="保存当前数据为快照"
+              >
+                <Camera size={16} />
+              </button>
+            </div>
+
+            <ul className="flex flex-col gap-2">
+              {snapshots.slice().reverse().map(snapshot => (
+                <li key={snapshot.id} className="group bg-gray-900/50 border border-gray-700 rounded-lg p-3">
+                  <div className="flex items-start justify-between gap-2">
+                    <div className="min-w-0">
+                      <p className="text-sm font-medium text-gray-200 truncate" title={snapshot.name}>{snapshot.name}</p>
+                      <p className="text-[11px] text-gray-500">{formatDate(snapshot.createdAt)}</p>
+                      <p className="text-[11px] text-gray-500">
+                        {snapshot.data.softwares.length} 个软件 · {snapshot.data.dimensions.length} 个维度
+                      </p>
+                    </div>
+                    <div className="flex items-center gap-1 opacity-0 group-hover:opacity-100 transition-opacity shrink-0">
+                      <button
+                        onClick={() => onRestore(snapshot.id)}
+                        className="p-1 text-gray-500 hover:text-blue-400"
+                        title="恢复到此快照"
+                      >
+                        <RotateCcw size={14} />
+                      </button>
+                      <button
+                        onClick={() => onDelete(snapshot.id)}
+                        className="p-1 text-gray-500 hover:text-red-400"
+                        title="删除快照"
+                      >
+                        <Trash2 size={14} />
+                      </button>
+                    </div>
+                  </div>
+                </li>
+              ))}
+              {snapshots.length === 0 && (
+                <li className="text-sm text-gray-500 text-center py-4">暂无快照</li>
+              )}
+            </ul>
+          </div>
+
+          {/* Comparison */}
+          <div className="flex-1 p-5 flex flex-col gap-5 min-w-0">
+            <div className="flex items-center gap-3">
+              <select value={beforeKey} onChange={(e) => setBeforeKey(e.target.value)} className={selectClass}>
+                {renderOptions()}
+              </select>
+              <ArrowRight size={18} className="text-gray-500 shrink-0" />
+              <select value={afterKey} onChange={(e) => setAfterKey(e.target.value)} className={selectClass}>
+                {renderOptions()}
+              </select>
+            </div>
+
+            {isDiffEmpty(diff) ? (
+              <p className="text-sm text-gray-500 text-center py-6">两个版本之间没有差异</p>
+            ) : (
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div className="bg-gray-900/50 border border-gray-700 rounded-lg p-4 text-sm">
+                  <h4 className="font-semibold text-gray-200 mb-2">软件</h4>
+                  {diff.addedSoftwares.map(sw => (
+                    <p key={sw.id} className="text-green-400">+ {sw.name}</p>
+                  ))}
+                  {diff.removedSoftwares.map(sw => (
+                    <p key={sw.id} className="text-red-400">− {sw.name}</p>
+                  ))}
+                  {diff.addedSoftwares.length === 0 && diff.removedSoftwares.length === 0 && (
+                    <p className="text-gray-500">无增减</p>
+                  )}
+                </div>
+                <div className="bg-gray-900/50 border border-gray-700 rounded-lg p-4 text-sm">
+                  <h4 className="font-semibold text-gray-200 mb-2">维度</h4>
+                  {diff.addedDimensions.map(dim => (
+                    <p key={dim.id} className="text-green-400">+ {dim.name}</p>
+                  ))}
+                  {diff.removedDimensions.map(dim => (
+                    <p key={dim.id} className="text-red-400">− {dim.name}</p>
+                  ))}
+                  {diff.addedDimensions.length === 0 && diff.removedDimensions.length === 0 && (
+                    <p className="text-gray-500">无增减</p>
+                  )}
+                </div>
+              </div>
+            )}
+
+            {diff.scoreChanges.length > 0 && (
+              <div>
+                <h4 className="font-semibold text-gray-200 mb-2 text-sm">评分变化（{diff.scoreChanges.length}）</h4>
+                <div className="overflow-x-auto border border-gray-700 rounded-lg">
+                  <table className="min-w-full divide-y divide-gray-700 text-sm">
+                    <thead className="bg-gray-900/50 text-xs text-gray-400">
+                      <tr>
+                        <th className="px-3 py-2 text-left">软件</th>
+                        <th className="px-3 py-2 text-left">维度</th>
+                        <th className="px-3 py-2 text-center">{labelFor(beforeKey)}</th>
+                        <th className="px-3 py-2 text-center">{labelFor(afterKey)}</th>
+                        <th className="px-3 py-2 text-center">变化</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-700">
+                      {diff.scoreChanges.map(change => (
+                        <tr key={`${change.software.id}-${change.dimension.id}`}>
+                          <td className="px-3 py-2 font-medium" style={{ color: change.software.color }}>{change.software.name}</td>
+                          <td className="px-3 py-2 text-gray-300">{change.dimension.name}</td>
+                          <td className="px-3 py-2 text-center text-gray-400">{change.before}</td>
+                          <td className="px-3 py-2 text-center text-gray-200">{change.after}</td>
+                          <td className={`px-3 py-2 text-center font-bold ${change.delta > 0 ? 'text-green-400' : 'text-red-400'}`}>
+                            {formatDelta(change.delta)}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              </div>
+            )}
+
+            {diff.descriptionChanges.length > 0 && (
+              <div>
+                <h4 className="font-semibold text-gray-200 mb-2 text-sm">描述修改（{diff.descriptionChanges.length}）</h4>
+                <div className="flex flex-col gap-2">
+                  {diff.descriptionChanges.map(change => (
+                    <div key={`${change.software.id}-${change.dimension.id}`} className="bg-gray-900/50 border border-gray-700 rounded-lg p-3 text-xs">
+                      <p className="font-medium mb-2">
+                        <span style={{ color: change.software.color }}>{change.software.name}</span>
+                        <span className="text-gray-500"> · {change.dimension.name}</span>
+                      </p>
+                      <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+                        <p className="whitespace-pre-wrap break-words text-red-300/80 bg-red-900/10 rounded p-2">{change.before || '（空）'}</p>
+                        <p className="whitespace-pre-wrap break-words text-green-300/80 bg-green-900/10 rounded p-2">{change.after || '（空）'}</p>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            {/* Radar Overlay */}
+            {overlayPair && overlayData.length > 0 && (
+              <div className="bg-gray-900/50 border border-gray-700 rounded-lg p-4">
+                <div className="flex items-center justify-between mb-2">
+                  <h4 className="font-semibold text-gray-200 text-sm">雷达叠加</h4>
+                  <select
+                    value={overlayPair.after.id}
+                    onChange={(e) => setOverlaySoftwareId(e.target.value)}
+                    className="bg-gray-900 border border-gray-600 rounded p-1.5 text-white text-xs outline-none"
+                  >
+                    {diff.softwarePairs.map(p => (
+                      <option key={p.after.id} value={p.after.id}>{p.after.name}</option>
+                    ))}
+                  </select>
+                </div>
+                <div className="h-[320px] w-full">
+                  <ResponsiveContainer width="100%" height="100%">
+                    <RadarChart cx="50%" cy="50%" outerRadius="70%" data={overlayData}>
+                      <PolarGrid stroke="#374151" />
+                      <PolarAngleAxis dataKey="dimension" tick={{ fill: '#9ca3af', fontSize: 11 }} />
+                      <PolarRadiusAxis angle={30} domain={[0, 10]} tick={false} axisLine={false} />
+                      <Radar
+                        name={labelFor(beforeKey)}
+                        dataKey="before"
+                        stroke="#9ca3af"
+                        strokeDasharray="4 4"
+                        fill="#9ca3af"
+                        fillOpacity={0.05}
+                      />
+                      <Radar
+                        name={labelFor(afterKey)}
+                        dataKey="after"
+                        stroke={overlayPair.after.color}
+                        fill={overlayPair.after.color}
+                        fillOpacity={0.15}
+                      />
+                      <Tooltip
+                        contentStyle={{ backgroundColor: '#1f2937', borderColor: '#374151', color: '#f3f4f6' }}
+                        itemStyle={{ color: '#e5e7eb' }}
+                      />
+                      <Legend wrapperStyle={{ fontSize: 12 }} />
+                    </RadarChart>
+                  </ResponsiveContainer>
+                </div>
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SnapshotPanel;
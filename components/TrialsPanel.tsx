@@ -0,0 +1,176 @@
+import React, { useState } from 'react';
+import { Dimension, Software } from '../types';
+import { normalizeRawValue } from '../utils/normalization';
+import {
+  cellTrialStats,
+  computeTrialStats,
+  formatMeanSd,
+  formatTrialValue,
+  getCellTrials,
+  parseTrialValues,
+} from '../utils/trials';
+import { X, Sigma, AlertTriangle } from 'lucide-react';
+
+interface TrialsPanelProps {
+  software: Software;
+  dimension: Dimension;
+  // Every software, for the comparison against the other products' intervals
+  softwares: Software[];
+  // An empty list removes the trials
+  onSave: (values: number[]) => void;
+  onClose: () => void;
+}
+
+// Repeated trials of one cell: values in, mean ± SD and 95% CI out
+const TrialsPanel: React.FC<TrialsPanelProps> = ({ software, dimension, softwares, onSave, onClose }) => {
+  const [text, setText] = useState(() => getCellTrials(software, dimension.id).join(', '));
+  const { values, invalid } = parseTrialValues(text);
+  const stats = computeTrialStats(values);
+  const unit = dimension.normalization ? dimension.unit ?? '' : '分';
+  const format = (value: number) => formatTrialValue(value, stats?.mean ?? value);
+  const score = dimension.normalization && stats ? normalizeRawValue(stats.mean, dimension) : null;
+
+  const others = softwares
+    .filter(sw => sw.id !== software.id)
+    .map(sw => ({ sw, stats: cellTrialStats(sw, dimension.id) }))
+    .filter((row): row is { sw: Software; stats: NonNullable<typeof row.stats> } => row.stats !== null);
+
+  const overlaps = (other: { low: number; high: number } | null) =>
+    !!stats?.interval && !!other && other.low <= stats.interval.high && stats.interval.low <= other.high;
+
+  return (
+    <div className="fixed inset-0 bg-black/80 flex items-center justify-center z-50 backdrop-blur-sm p-4">
+      <div className="bg-gray-800 rounded-xl w-full max-w-2xl border border-gray-700 shadow-2xl flex flex-col max-h-[90vh]">
+        <div className="p-5 border-b border-gray-700 flex justify-between items-center bg-gray-900/50 rounded-t-xl">
+          <div className="flex items-center gap-3">
+            <div className="bg-blue-900/30 p-2 rounded-lg text-blue-400">
+              <Sigma size={20} />
+            </div>
+            <div>
+              <h3 className="text-lg font-bold text-white">多次测量</h3>
+              <p className="text-sm text-gray-400">
+                <span className="font-medium" style={{ color: software.color }}>{software.name}</span>
+                <span className="mx-2 text-gray-600">/</span>
+                <span>{dimension.name}</span>
+              </p>
+            </div>
+          </div>
+          <button onClick={onClose} className="text-gray-500 hover:text-white transition-colors"><X size={24}/></button>
+        </div>
+
+        <div className="p-6 flex-1 overflow-y-auto flex flex-col gap-5">
+          <div>
+            <label className="block text-sm text-gray-400 mb-2">
+              每次试验的{dimension.normalization ? '实测值' : '评分'}{unit && `（${unit}）`}，用逗号、空格或换行分隔
+            </label>
+            <textarea
+              value={text}
+              onChange={(e) => setText(e.target.value)}
+              rows={3}
+              autoFocus
+              placeholder="例如：6.5, 7, 7.2"
+              className="w-full bg-gray-900 border border-gray-600 rounded-lg p-3 text-sm text-white font-mono focus:ring-2 focus:ring-blue-500 outline-none resize-y"
+            />
+            {invalid.length > 0 && (
+              <p className="flex items-center gap-1 text-xs text-amber-300/90 mt-1">
+                <AlertTriangle size={12} /> 无法识别，将被忽略：{invalid.join('、')}
+              </p>
+            )}
+          </div>
+
+          {stats && (
+            <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+              <div className="bg-gray-900/50 border border-gray-700 rounded-lg p-3">
+                <p className="text-xs text-gray-500">试验次数</p>
+                <p className="text-lg font-bold text-white">{stats.n}</p>
+              </div>
+              <div className="bg-gray-900/50 border border-gray-700 rounded-lg p-3">
+                <p className="text-xs text-gray-500">平均值</p>
+                <p className="text-lg font-bold text-blue-300">{format(stats.mean)}</p>
+              </div>
+              <div className="bg-gray-900/50 border border-gray-700 rounded-lg p-3">
+                <p className="text-xs text-gray-500">标准差</p>
+                <p className="text-lg font-bold text-white">{stats.n < 2 ? '-' : format(stats.sd)}</p>
+              </div>
+              <div className="bg-gray-900/50 border border-gray-700 rounded-lg p-3">
+                <p className="text-xs text-gray-500">95% 置信区间</p>
+                <p className="text-sm font-bold text-white mt-1">
+                  {stats.interval ? `${format(stats.interval.low)} ~ ${format(stats.interval.high)}` : '至少需 2 次'}
+                </p>
+              </div>
+            </div>
+          )}
+
+          <p className="text-xs text-gray-500">
+            保存后平均值将作为{dimension.normalization ? '实测值' : '评分'}
+            {score !== null && <>（换算评分 <span className="text-blue-300 font-medium">{score.toFixed(1)}</span>）</>}
+            。两个产品的 95% 置信区间重叠时，二者的差距标记为「差异不显著」。
+          </p>
+
+          {others.length > 0 && (
+            <div className="overflow-x-auto border border-gray-700 rounded-lg">
+              <table className="min-w-full text-xs">
+                <thead className="bg-gray-900/50 text-gray-400">
+                  <tr>
+                    <th className="px-3 py-2 text-left font-medium">其他产品</th>
+                    <th className="px-3 py-2 text-right font-medium">次数</th>
+                    <th className="px-3 py-2 text-right font-medium">平均值 ± 标准差</th>
+                    <th className="px-3 py-2 text-right font-medium">95% 置信区间</th>
+                    <th className="px-3 py-2 text-right font-medium">与本产品</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-700">
+                  {others.map(({ sw, stats: other }) => (
+                    <tr key={sw.id}>
+                      <td className="px-3 py-2 font-medium whitespace-nowrap" style={{ color: sw.color }}>{sw.name}</td>
+                      <td className="px-3 py-2 text-right text-gray-400">{other.n}</td>
+                      <td className="px-3 py-2 text-right text-gray-200 whitespace-nowrap">{formatMeanSd(other)}</td>
+                      <td className="px-3 py-2 text-right text-gray-400 whitespace-nowrap">
+                        {other.interval
+                          ? `${formatTrialValue(other.interval.low, other.mean)} ~ ${formatTrialValue(other.interval.high, other.mean)}`
+                          : '-'}
+                      </td>
+                      <td className="px-3 py-2 text-right whitespace-nowrap">
+                        {!stats?.interval || !other.interval ? (
+                          <span className="text-gray-500">-</span>
+                        ) : overlaps(other.interval) ? (
+                          <span className="text-amber-400">差异不显著</span>
+                        ) : (
+                          <span className="text-green-400">差异显著</span>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+
+        <div className="p-5 border-t border-gray-700 flex justify-end space-x-3 bg-gray-900/50 rounded-b-xl">
+          {getCellTrials(software, dimension.id).length > 0 && (
+            <button
+              onClick={() => onSave([])}
+              className="mr-auto px-4 py-2 text-sm text-gray-400 hover:text-red-400 transition-colors"
+              title="删除试验记录，保留当前数值"
+            >
+              清除试验
+            </button>
+          )}
+          <button onClick={onClose} className="px-4 py-2 text-gray-400 hover:text-white transition-colors">
+            取消
+          </button>
+          <button
+            onClick={() => onSave(values)}
+            disabled={values.length === 0}
+            className="px-4 py-2 bg-blue-600 hover:bg-blue-500 text-white rounded font-medium transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+          >
+            保存
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default TrialsPanel;
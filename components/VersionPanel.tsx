@@ -0,0 +1,260 @@
+import React, { useState } from 'react';
+import { CartesianGrid, Legend, Line, LineChart, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
+import { ComparisonData } from '../types';
+import {
+  LATEST_VERSION_ID,
+  VersionSelection,
+  archiveCurrentVersion,
+  deleteVersion,
+  updateVersionInfo,
+  versionHistory,
+  versionLabel,
+  versionTimeline,
+} from '../utils/versions';
+import { AXIS_TICK, GRID_STROKE, TOOLTIP_CONTENT_STYLE, TOOLTIP_ITEM_STYLE } from './chartStyles';
+import { X, Tag, Archive, Trash2 } from 'lucide-react';
+
+interface VersionPanelProps {
+  data: ComparisonData;
+  softwareId: string;
+  selection: VersionSelection;
+  // null shows the latest results again
+  onSelect: (softwareId: string, versionId: string | null) => void;
+  onUpdate: (updater: (data: ComparisonData) => ComparisonData, coalesceKey?: string) => void;
+  onClose: () => void;
+}
+
+// Timeline choice: the weighted total with every dimension, or a single dimension
+const SHOW_ALL = 'all';
+
+const today = () => new Date().toISOString().slice(0, 10);
+
+// Evenly spread hues so neighbouring dimension lines stay distinguishable
+const lineColor = (index: number, count: number) => `hsl(${Math.round((index * 360) / Math.max(count, 1))}, 70%, 60%)`;
+
+// Versioned results of one product: archive a retest, pick the version on display, follow the timeline
+const VersionPanel: React.FC<VersionPanelProps> = ({ data, softwareId, selection, onSelect, onUpdate, onClose }) => {
+  const [activeId, setActiveId] = useState(softwareId);
+  const [newVersion, setNewVersion] = useState('');
+  const [newTestedAt, setNewTestedAt] = useState(today);
+  const [timelineView, setTimelineView] = useState(SHOW_ALL);
+
+  const software = data.softwares.find(sw => sw.id === activeId) ?? data.softwares[0];
+  if (!software) return null;
+
+  const history = versionHistory(software).reverse();
+  const timeline = versionTimeline(software, data.dimensions);
+  const shownId = software.versions?.some(v => v.id === selection[software.id]) ? selection[software.id] : LATEST_VERSION_ID;
+  const timelineDimensions = timelineView === SHOW_ALL
+    ? data.dimensions
+    : data.dimensions.filter(dim => dim.id === timelineView);
+
+  const handleArchive = () => {
+    if (!newVersion.trim()) return;
+    onUpdate(d => archiveCurrentVersion(d, software.id, { version: newVersion.trim(), testedAt: newTestedAt || undefined }));
+    onSelect(software.id, null);
+    setNewVersion('');
+  };
+
+  const handleDelete = (versionId: string, label: string) => {
+    if (!window.confirm(`确定要删除版本「${label}」的结果吗？`)) return;
+    if (shownId === versionId) onSelect(software.id, null);
+    onUpdate(d => deleteVersion(d, software.id, versionId));
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/80 flex items-center justify-center z-50 backdrop-blur-sm p-4">
+      <div className="bg-gray-800 rounded-xl w-full max-w-4xl border border-gray-700 shadow-2xl flex flex-col max-h-[90vh]">
+        <div className="p-5 border-b border-gray-700 flex justify-between items-center bg-gray-900/50 rounded-t-xl">
+          <div className="flex items-center gap-3">
+            <div className="bg-blue-900/30 p-2 rounded-lg text-blue-400">
+              <Tag size={20} />
+            </div>
+            <div>
+              <h3 className="text-lg font-bold text-white">版本记录</h3>
+              <p className="text-sm text-gray-400">每个版本保存一套评分，重新测试不再覆盖旧结果</p>
+            </div>
+          </div>
+          <button onClick={onClose} className="text-gray-500 hover:text-white transition-colors"><X size={24}/></button>
+        </div>
+
+        <div className="p-6 flex-1 overflow-y-auto flex flex-col gap-6">
+          <div className="flex items-center gap-3">
+            <label className="text-sm text-gray-400 shrink-0">产品</label>
+            <select
+              value={software.id}
+              onChange={(e) => setActiveId(e.target.value)}
+              className="bg-gray-900 border border-gray-700 rounded-lg px-3 py-1.5 text-sm text-white focus:ring-2 focus:ring-blue-500 outline-none"
+            >
+              {data.softwares.map(sw => (
+                <option key={sw.id} value={sw.id}>{sw.name}</option>
+              ))}
+            </select>
+            <span className="w-3 h-3 rounded-full shrink-0" style={{ backgroundColor: software.color }} />
+          </div>
+
+          {/* Retest */}
+          <div className="bg-gray-900/50 border border-gray-700 rounded-lg p-4 flex flex-col gap-3">
+            <p className="font-medium text-white">记录新版本</p>
+            <div className="flex flex-wrap items-end gap-3">
+              <div className="flex flex-col gap-1">
+                <label className="text-xs text-gray-400">版本号</label>
+                <input
+                  type="text"
+                  value={newVersion}
+                  onChange={(e) => setNewVersion(e.target.value)}
+                  onKeyDown={(e) => e.key === 'Enter' && handleArchive()}
+                  placeholder="例如 21.3.10.391"
+                  className="w-48 bg-gray-900 border border-gray-600 rounded p-1.5 text-sm text-white focus:ring-2 focus:ring-blue-500 outline-none"
+                />
+              </div>
+              <div className="flex flex-col gap-1">
+                <label className="text-xs text-gray-400">测试日期</label>
+                <input
+                  type="date"
+                  value={newTestedAt}
+                  onChange={(e) => setNewTestedAt(e.target.value)}
+                  className="bg-gray-900 border border-gray-600 rounded p-1.5 text-sm text-white focus:ring-2 focus:ring-blue-500 outline-none"
+                />
+              </div>
+              <button
+                onClick={handleArchive}
+                disabled={!newVersion.trim()}
+                className="flex items-center gap-1.5 px-3 py-1.5 bg-blue-600 hover:bg-blue-500 text-white rounded text-sm disabled:opacity-40 disabled:cursor-not-allowed"
+              >
+                <Archive size={14} /> 存档当前结果并开始新版本
+              </button>
+            </div>
+            <p className="text-xs text-gray-500">
+              当前结果（{versionLabel(software)}）将存为历史版本；评分保留为新版本的初始值，重新测试后在表格中直接修改即可。
+            </p>
+          </div>
+
+          {/* Versions */}
+          <div className="overflow-x-auto border border-gray-700 rounded-lg">
+            <table className="min-w-full text-sm">
+              <thead className="bg-gray-900/50 text-gray-400 text-xs">
+                <tr>
+                  <th className="px-3 py-2 text-left font-medium">版本号</th>
+                  <th className="px-3 py-2 text-left font-medium">测试日期</th>
+                  <th className="px-3 py-2 text-right font-medium">加权总分</th>
+                  <th className="px-3 py-2 text-center font-medium">表格与图表显示</th>
+                  <th className="px-3 py-2" />
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-700">
+                {history.map((entry) => {
+                  const point = timeline.find(p => p.id === entry.id);
+                  const coalesceKey = `version-info:${software.id}:${entry.id}`;
+                  return (
+                    <tr key={entry.id} className="group">
+                      <td className="px-3 py-2">
+                        <div className="flex items-center gap-2">
+                          <input
+                            type="text"
+                            value={entry.version}
+                            onChange={(e) => onUpdate(d => updateVersionInfo(d, software.id, entry.id, { version: e.target.value, testedAt: entry.testedAt }), coalesceKey)}
+                            placeholder="未标注"
+                            className="w-40 bg-transparent border border-transparent hover:border-gray-600 focus:border-blue-500 rounded px-1.5 py-1 text-white outline-none"
+                          />
+                          {entry.latest && <span className="text-[10px] px-1.5 py-0.5 rounded bg-blue-900/40 text-blue-300 shrink-0">最新</span>}
+                        </div>
+                      </td>
+                      <td className="px-3 py-2">
+                        <input
+                          type="date"
+                          value={entry.testedAt ?? ''}
+                          onChange={(e) => onUpdate(d => updateVersionInfo(d, software.id, entry.id, { version: entry.version, testedAt: e.target.value || undefined }), coalesceKey)}
+                          className="bg-transparent border border-transparent hover:border-gray-600 focus:border-blue-500 rounded px-1.5 py-1 text-gray-300 outline-none"
+                        />
+                      </td>
+                      <td className="px-3 py-2 text-right font-bold text-blue-300">{point?.total.toFixed(1)}</td>
+                      <td className="px-3 py-2 text-center">
+                        <input
+                          type="radio"
+                          name={`version-${software.id}`}
+                          checked={shownId === entry.id}
+                          onChange={() => onSelect(software.id, entry.latest ? null : entry.id)}
+                          className="accent-blue-500"
+                        />
+                      </td>
+                      <td className="px-3 py-2 text-right">
+                        {!entry.latest && (
+                          <button
+                            onClick={() => handleDelete(entry.id, versionLabel(entry))}
+                            className="text-gray-500 hover:text-red-400 opacity-0 group-hover:opacity-100 transition-opacity"
+                            title="删除该版本"
+                          >
+                            <Trash2 size={14} />
+                          </button>
+                        )}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+          {shownId !== LATEST_VERSION_ID && (
+            <p className="-mt-4 text-xs text-amber-300/90">表格与图表正显示该产品的历史版本，其单元格为只读。</p>
+          )}
+
+          {/* Timeline */}
+          <div className="flex flex-col gap-3">
+            <div className="flex items-center justify-between">
+              <p className="font-medium text-white">评分变化趋势</p>
+              <select
+                value={timelineView}
+                onChange={(e) => setTimelineView(e.target.value)}
+                className="bg-gray-900 border border-gray-700 rounded-lg px-2 py-1 text-xs text-gray-300 focus:ring-2 focus:ring-blue-500 outline-none"
+              >
+                <option value={SHOW_ALL}>总分与全部维度</option>
+                {data.dimensions.map(dim => (
+                  <option key={dim.id} value={dim.id}>{dim.name}</option>
+                ))}
+              </select>
+            </div>
+            {timeline.length < 2 ? (
+              <p className="text-sm text-gray-500 text-center py-6">记录新版本后，即可查看各维度随版本的变化</p>
+            ) : (
+              <div className="h-[320px] w-full">
+                <ResponsiveContainer width="100%" height="100%">
+                  <LineChart data={timeline} margin={{ top: 10, right: 20, bottom: 0, left: -20 }}>
+                    <CartesianGrid stroke={GRID_STROKE} strokeDasharray="3 3" />
+                    <XAxis dataKey="label" tick={AXIS_TICK} />
+                    <YAxis domain={[0, 10]} tick={AXIS_TICK} />
+                    <Tooltip
+                      contentStyle={TOOLTIP_CONTENT_STYLE}
+                      itemStyle={TOOLTIP_ITEM_STYLE}
+                      labelFormatter={(label, payload) => {
+                        const testedAt = payload?.[0]?.payload?.testedAt;
+                        return testedAt ? `${label}（${testedAt}）` : label;
+                      }}
+                    />
+                    <Legend wrapperStyle={{ fontSize: 12 }} />
+                    {timelineView === SHOW_ALL && (
+                      <Line dataKey="total" name="加权总分" stroke="#f3f4f6" strokeWidth={3} isAnimationActive={false} />
+                    )}
+                    {timelineDimensions.map((dim, i) => (
+                      <Line
+                        key={dim.id}
+                        dataKey={dim.id}
+                        name={dim.name}
+                        stroke={timelineView === SHOW_ALL ? lineColor(i, timelineDimensions.length) : software.color}
+                        strokeWidth={timelineView === SHOW_ALL ? 1.5 : 3}
+                        connectNulls
+                        isAnimationActive={false}
+                      />
+                    ))}
+                  </LineChart>
+                </ResponsiveContainer>
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default VersionPanel;
@@ -0,0 +1,9 @@
+// Recharts styling shared by all chart views, matching the dark gray theme
+export const GRID_STROKE = '#374151';
+export const AXIS_TICK = { fill: '#9ca3af', fontSize: 12 };
+export const TOOLTIP_CONTENT_STYLE = { backgroundColor: '#1f2937', borderColor: '#374151', color: '#f3f4f6' };
+export const TOOLTIP_ITEM_STYLE = { color: '#e5e7eb' };
+
+// Light variants with larger type for presentation mode on projectors
+export const LIGHT_GRID_STROKE = '#d1d5db';
+export const LIGHT_AXIS_TICK = { fill: '#374151', fontSize: 16 };
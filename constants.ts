@@ -1,12 +1,19 @@
-import { Dimension, Software } from './types';
+import { Category, Dimension, Software } from './types';
+
+export const INITIAL_CATEGORIES: Category[] = [
+  { id: 'protection', name: '防护能力' },
+  { id: 'performance', name: '性能占用' },
+  { id: 'usability', name: '易用性' },
+];
 
 export const INITIAL_DIMENSIONS: Dimension[] = [
-  { id: 'file_coverage', name: '文件覆盖类型' },
-  { id: 'scan_scope', name: '扫描目录范围' },
-  { id: 'memory_usage', name: '内存占用表现' }, // Score 10 = Very Low Usage (Good)
-  { id: 'cpu_usage', name: 'CPU占用表现' },       // Score 10 = Very Low Usage (Good)
-  { id: 'power_usage', name: '扫描功耗表现' },   // Score 10 = Very Low Usage (Good)
-  { id: 'ui_ux', name: '用户体验' },
+  { id: 'detection_rate', name: '恶意样本检出率', weight: 1, unit: '%', normalization: { type: 'linear', min: 80, max: 100 }, categoryId: 'protection' },
+  { id: 'file_coverage', name: '文件覆盖类型', weight: 1, categoryId: 'protection' },
+  { id: 'scan_scope', name: '扫描目录范围', weight: 1, categoryId: 'protection' },
+  { id: 'memory_usage', name: '内存占用表现', weight: 1, unit: 'MB', lowerIsBetter: true, categoryId: 'performance' }, // Score 10 = Very Low Usage (Good)
+  { id: 'cpu_usage', name: 'CPU占用表现', weight: 1, unit: '%', lowerIsBetter: true, categoryId: 'performance' },       // Score 10 = Very Low Usage (Good)
+  { id: 'power_usage', name: '扫描功耗表现', weight: 1, unit: 'Wh', lowerIsBetter: true, categoryId: 'performance' },   // Score 10 = Very Low Usage (Good)
+  { id: 'ui_ux', name: '用户体验', weight: 1, categoryId: 'usability' },
 ];
 
 export const INITIAL_SOFTWARES: Software[] = [
@@ -15,6 +22,7 @@ export const INITIAL_SOFTWARES: Software[] = [
     name: 'Windows Defender',
     color: '#3b82f6', // blue-500
     scores: {
+      detection_rate: 9,
       file_coverage: 8,
       scan_scope: 9,
       memory_usage: 6,
@@ -29,6 +37,7 @@ export const INITIAL_SOFTWARES: Software[] = [
     name: 'macOS',
     color: '#9ca3af', // gray-400
     scores: {
+      detection_rate: 7,
       file_coverage: 7,
       scan_scope: 8,
       memory_usage: 9,
@@ -43,6 +52,7 @@ export const INITIAL_SOFTWARES: Software[] = [
     name: '360安全卫士',
     color: '#22c55e', // green-500
     scores: {
+      detection_rate: 9,
       file_coverage: 9,
       scan_scope: 9,
       memory_usage: 5,
@@ -57,6 +67,7 @@ export const INITIAL_SOFTWARES: Software[] = [
     name: '卡巴斯基',
     color: '#ef4444', // red-500
     scores: {
+      detection_rate: 10,
       file_coverage: 10,
       scan_scope: 10,
       memory_usage: 7,
@@ -71,6 +82,7 @@ export const INITIAL_SOFTWARES: Software[] = [
     name: '奇安信EDR',
     color: '#eab308', // yellow-500
     scores: {
+      detection_rate: 9,
       file_coverage: 10,
       scan_scope: 10,
       memory_usage: 6,
@@ -0,0 +1,83 @@
+import { useState, useRef, useCallback, useMemo } from 'react';
+
+interface HistoryState<T> {
+  past: T[];
+  present: T;
+  future: T[];
+}
+
+// Keep memory bounded; older steps are dropped first
+const MAX_HISTORY = 100;
+
+// Edits sharing a coalesce key within this window count as one undo step
+const COALESCE_MS = 1000;
+
+/**
+ * Undoable state. Every `set` call is one undo step, except consecutive
+ * calls with the same coalesce key (e.g. typing into one score input).
+ */
+export const useHistory = <T>(initial: T) => {
+  const [state, setState] = useState<HistoryState<T>>({ past: [], present: initial, future: [] });
+  const lastCommitRef = useRef<{ key: string; time: number } | null>(null);
+
+  const set = useCallback((updater: (prev: T) => T, coalesceKey?: string) => {
+    const now = Date.now();
+    const last = lastCommitRef.current;
+    const coalesce = !!coalesceKey && last?.key === coalesceKey && now - last.time < COALESCE_MS;
+    lastCommitRef.current = coalesceKey ? { key: coalesceKey, time: now } : null;
+
+    setState(prev => {
+      const next = updater(prev.present);
+      if (next === prev.present) return prev;
+      return {
+        past: coalesce ? prev.past : [...prev.past, prev.present].slice(-MAX_HISTORY),
+        present: next,
+        future: [],
+      };
+    });
+  }, []);
+
+  const undo = useCallback(() => {
+    lastCommitRef.current = null;
+    setState(prev => {
+      if (prev.past.length === 0) return prev;
+      return {
+        past: prev.past.slice(0, -1),
+        present: prev.past[prev.past.length - 1],
+        future: [prev.present, ...prev.future],
+      };
+    });
+  }, []);
+
+  const redo = useCallback(() => {
+    lastCommitRef.current = null;
+    setState(prev => {
+      if (prev.future.length === 0) return prev;
+      return {
+        past: [...prev.past, prev.present],
+        present: prev.future[0],
+        future: prev.future.slice(1),
+      };
+    });
+  }, []);
+
+  // Replaces the value and clears history, e.g. when switching projects
+  const reset = useCallback((value: T) => {
+    lastCommitRef.current = null;
+    setState({ past: [], present: value, future: [] });
+  }, []);
+
+  // Every value undo or redo can still reach, present included
+  const entries = useMemo(() => [...state.past, state.present, ...state.future], [state]);
+
+  return {
+    present: state.present,
+    entries,
+    set,
+    undo,
+    redo,
+    reset,
+    canUndo: state.past.length > 0,
+    canRedo: state.future.length > 0,
+  };
+};
@@ -0,0 +1,24 @@
+import { useState, useCallback } from 'react';
+
+/**
+ * Which softwares the charts show, and which one tooltips compare against.
+ * `filterTable` applies the same visibility to the comparison table columns.
+ * `initial` restores a saved view, e.g. the one a share link was made with.
+ */
+export const useSeriesVisibility = (initial?: { hiddenIds: string[]; baselineId: string | null }) => {
+  const [hiddenIds, setHiddenIds] = useState<string[]>(initial?.hiddenIds ?? []);
+  const [baselineId, setBaselineId] = useState<string | null>(initial?.baselineId ?? null);
+  const [filterTable, setFilterTable] = useState(false);
+
+  const toggle = useCallback((id: string) => {
+    setHiddenIds(prev => (prev.includes(id) ? prev.filter(h => h !== id) : [...prev, id]));
+  }, []);
+
+  const showAll = useCallback(() => setHiddenIds([]), []);
+
+  const hideAll = useCallback((ids: string[]) => setHiddenIds(ids), []);
+
+  return { hiddenIds, baselineId, filterTable, toggle, showAll, hideAll, setBaselineId, setFilterTable };
+};
+
+export type SeriesVisibility = ReturnType<typeof useSeriesVisibility>;
@@ -1,15 +1,25 @@
 import React from 'react';
 import ReactDOM from 'react-dom/client';
 import App from './App';
+import SharedViewer from './components/SharedViewer';
+import { readShareHash } from './utils/share';
 
 const rootElement = document.getElementById('root');
 if (!rootElement) {
   throw new Error("Could not find root element to mount to");
 }
 
+// Share links open a read-only viewer instead of the workspace
+const sharedPayload = readShareHash(window.location.hash);
+
+// Pasting another share link (or removing one) only changes the hash, so start over
+window.addEventListener('hashchange', () => {
+  if (readShareHash(window.location.hash) !== sharedPayload) window.location.reload();
+});
+
 const root = ReactDOM.createRoot(rootElement);
 root.render(
   <React.StrictMode>
-    <App />
+    {sharedPayload ? <SharedViewer encoded={sharedPayload} /> : <App />}
   </React.StrictMode>
 );
\ No newline at end of file
@@ -0,0 +1,103 @@
+import { Attachment } from '../types';
+import { generateId } from '../utils/id';
+
+// Attachments can be large, so they live in IndexedDB instead of LocalStorage
+const DB_NAME = 'av_benchmark_attachments';
+const DB_VERSION = 1;
+const STORE_NAME = 'attachments';
+const PROJECT_INDEX = 'projectId';
+
+interface StoredAttachment extends Attachment {
+  blob?: Blob;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const store = request.result.createObjectStore(STORE_NAME, { keyPath: 'id' });
+        store.createIndex(PROJECT_INDEX, 'projectId');
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        // Allow a later call to try again
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const promisify = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (tx: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+
+const withoutBlob = ({ blob: _blob, ...meta }: StoredAttachment): Attachment => meta;
+
+const getProjectRecords = async (projectId: string): Promise<StoredAttachment[]> => {
+  const db = await openDatabase();
+  const index = db.transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME).index(PROJECT_INDEX);
+  return promisify(index.getAll(projectId) as IDBRequest<StoredAttachment[]>);
+};
+
+// Metadata of all attachments of a project, oldest first
+export const listAttachments = async (projectId: string): Promise<Attachment[]> => {
+  const records = await getProjectRecords(projectId);
+  return records
+    .map(withoutBlob)
+    .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+};
+
+export const saveAttachment = async (attachment: Attachment, blob?: Blob): Promise<void> => {
+  const db = await openDatabase();
+  const tx = db.transaction(STORE_NAME, 'readwrite');
+  tx.objectStore(STORE_NAME).put({ ...attachment, blob } as StoredAttachment);
+  await transactionDone(tx);
+};
+
+export const getAttachmentBlob = async (id: string): Promise<Blob | null> => {
+  const db = await openDatabase();
+  const store = db.transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME);
+  const record = await promisify(store.get(id) as IDBRequest<StoredAttachment | undefined>);
+  return record?.blob ?? null;
+};
+
+export const deleteAttachment = async (id: string): Promise<void> => {
+  const db = await openDatabase();
+  const tx = db.transaction(STORE_NAME, 'readwrite');
+  tx.objectStore(STORE_NAME).delete(id);
+  await transactionDone(tx);
+};
+
+export const deleteProjectAttachments = async (projectId: string): Promise<void> => {
+  const records = await getProjectRecords(projectId);
+  const db = await openDatabase();
+  const tx = db.transaction(STORE_NAME, 'readwrite');
+  const store = tx.objectStore(STORE_NAME);
+  records.forEach(record => store.delete(record.id));
+  await transactionDone(tx);
+};
+
+// Used when duplicating a project; copies get new ids so both can change independently
+export const copyProjectAttachments = async (fromProjectId: string, toProjectId: string): Promise<void> => {
+  const records = await getProjectRecords(fromProjectId);
+  if (records.length === 0) return;
+  const db = await openDatabase();
+  const tx = db.transaction(STORE_NAME, 'readwrite');
+  const store = tx.objectStore(STORE_NAME);
+  records.forEach(record => store.put({ ...record, id: generateId(), projectId: toProjectId }));
+  await transactionDone(tx);
+};
@@ -1,10 +1,281 @@
-// AI capabilities have been removed from this application.
-// This file is kept as a placeholder to avoid breaking any potential imports,
-// though it should no longer be used.
-
-export const generateComparisonAnalysis = async (
-  dimensions: any[],
-  softwares: any[]
-): Promise<string> => {
-  return "AI Analysis is disabled.";
-};
\ No newline at end of file
+import { AnalysisProviderId, AnalysisSettings, ComparisonData } from '../types';
+import { buildComparisonReport, renderReportBody } from '../utils/report';
+import { analyzeComparison } from './ruleAnalysis';
+
+// Analysis providers: the offline rule engine, or any server speaking the
+// OpenAI chat completions API (hosted or a local model server).
+
+export interface AnalysisRequestOptions {
+  signal?: AbortSignal;
+  // Called with the full text received so far, each time it grows
+  onChunk?: (text: string) => void;
+}
+
+export interface AnalysisProvider {
+  id: AnalysisProviderId;
+  label: string;
+  // Remote providers cost a request, so they run on demand instead of on every edit
+  remote: boolean;
+  generate: (data: ComparisonData, settings: AnalysisSettings, options: AnalysisRequestOptions) => Promise<string>;
+}
+
+export const PROMPT_PLACEHOLDERS: { key: string; label: string }[] = [
+  { key: '{{data}}', label: '评测数据（排名、各维度得分与说明，Markdown）' },
+  { key: '{{analysis}}', label: '离线规则生成的分析，可作为参考' },
+];
+
+export const DEFAULT_PROMPT_TEMPLATE = `你是一名资深的安全产品评测分析师。下面是若干安全软件的横向评测结果：
+
+{{data}}
+
+请基于以上数据用中文撰写一份对比分析，使用 Markdown 格式，包括：
+1. 总体结论：综合排名及其主要原因；
+2. 各产品的优势与短板；
+3. 针对不同使用场景的选购建议。
+
+只依据给出的数据下结论，不要编造未提供的测试结果。`;
+
+export const DEFAULT_ANALYSIS_SETTINGS: AnalysisSettings = {
+  provider: 'rules',
+  endpoint: 'http://localhost:8000/v1',
+  model: '',
+  apiKey: '',
+  promptTemplate: DEFAULT_PROMPT_TEMPLATE,
+  timeoutSeconds: 60,
+};
+
+const MIN_TIMEOUT_SECONDS = 5;
+const MAX_TIMEOUT_SECONDS = 600;
+// Characters of an error response body shown to the user
+const ERROR_BODY_LIMIT = 300;
+
+// Fills in defaults for missing or invalid stored values
+export const resolveAnalysisSettings = (stored: Partial<AnalysisSettings> | null): AnalysisSettings => {
+  const settings = { ...DEFAULT_ANALYSIS_SETTINGS, ...stored };
+  const timeout = Number(settings.timeoutSeconds);
+  return {
+    provider: Object.hasOwn(ANALYSIS_PROVIDERS, settings.provider) ? settings.provider : DEFAULT_ANALYSIS_SETTINGS.provider,
+    endpoint: String(settings.endpoint ?? ''),
+    model: String(settings.model ?? ''),
+    apiKey: String(settings.apiKey ?? ''),
+    promptTemplate: String(settings.promptTemplate ?? '') || DEFAULT_PROMPT_TEMPLATE,
+    timeoutSeconds: Number.isFinite(timeout)
+      ? Math.min(MAX_TIMEOUT_SECONDS, Math.max(MIN_TIMEOUT_SECONDS, Math.round(timeout)))
+      : DEFAULT_ANALYSIS_SETTINGS.timeoutSeconds,
+  };
+};
+
+export const buildAnalysisPrompt = (template: string, data: ComparisonData): string => {
+  const values: Record<string, () => string> = {
+    '{{data}}': () =>
+      renderReportBody(buildComparisonReport(data, ''), { title: '', includeDescriptions: true }),
+    '{{analysis}}': () => analyzeComparison(data),
+  };
+  return template.replace(/\{\{\w+\}\}/g, key => (values[key] ? values[key]() : key));
+};
+
+// Everything the prompt and the rule analysis read, to tell whether a result is outdated
+export const analysisInputKey = (data: ComparisonData): string =>
+  JSON.stringify({
+    dimensions: data.dimensions,
+    categories: data.categories ?? [],
+    softwares: data.softwares.map(sw => ({
+      id: sw.id,
+      name: sw.name,
+      scores: sw.scores,
+      descriptions: sw.descriptions,
+      rawValues: sw.rawValues,
+    })),
+  });
+
+// Accepts either the API base URL or the full chat completions URL
+export const chatCompletionsUrl = (endpoint: string) => {
+  const base = endpoint.trim().replace(/\/+$/, '');
+  return /\/chat\/completions$/.test(base) ? base : `${base}/chat/completions`;
+};
+
+const errorMessage = (err: unknown) => (err instanceof Error ? err.message : String(err));
+
+// Pulls the most useful part out of an error response; OpenAI-style servers send { error: { message } }
+const describeHttpError = async (response: Response) => {
+  let detail = '';
+  try {
+    const text = await response.text();
+    try {
+      const parsed = JSON.parse(text);
+      detail = parsed?.error?.message ?? parsed?.message ?? text;
+    } catch {
+      detail = text;
+    }
+  } catch {
+    // The status line alone will have to do
+  }
+  detail = String(detail).trim().slice(0, ERROR_BODY_LIMIT);
+  const hint =
+    response.status === 401 || response.status === 403
+      ? '请检查 API Key。'
+      : response.status === 404
+        ? '请检查接口地址与模型名称。'
+        : '';
+  return `接口返回错误 ${response.status}${response.statusText ? ` ${response.statusText}` : ''}。${hint}${detail ? `\n${detail}` : ''}`;
+};
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Text carried by one streamed chunk or by a complete (non-streamed) response
+const contentOf = (payload: unknown): string => {
+  if (!isObject(payload)) return '';
+  if (payload.error) {
+    const message = isObject(payload.error) && typeof payload.error.message === 'string'
+      ? payload.error.message
+      : JSON.stringify(payload.error);
+    throw new Error(`模型返回错误：${message}`);
+  }
+  const choice = Array.isArray(payload.choices) ? payload.choices[0] : undefined;
+  if (!isObject(choice)) return '';
+  for (const part of [choice.delta, choice.message]) {
+    if (isObject(part) && typeof part.content === 'string') return part.content;
+  }
+  return '';
+};
+
+const openAiCompatibleProvider: AnalysisProvider = {
+  id: 'openai',
+  label: 'OpenAI 兼容接口',
+  remote: true,
+  generate: async (data, settings, { signal, onChunk }) => {
+    if (!settings.endpoint.trim()) throw new Error('尚未设置接口地址，请在分析设置中填写。');
+    const url = chatCompletionsUrl(settings.endpoint);
+
+    // The timeout restarts with every chunk, so long answers are fine as long as they keep coming
+    const controller = new AbortController();
+    let timedOut = false;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const restartTimer = () => {
+      clearTimeout(timer);
+      timer = setTimeout(() => {
+        timedOut = true;
+        controller.abort();
+      }, settings.timeoutSeconds * 1000);
+    };
+    const forwardAbort = () => controller.abort();
+    if (signal?.aborted) controller.abort();
+    signal?.addEventListener('abort', forwardAbort);
+
+    // Cancellation is passed through untouched so the caller can tell it apart
+    const fail = (err: unknown, action: string) => {
+      if (signal?.aborted) return err;
+      if (timedOut) return new Error(`模型在 ${settings.timeoutSeconds} 秒内没有响应，请求已中断。`);
+      return new Error(`${action}：${errorMessage(err)}`);
+    };
+
+    try {
+      restartTimer();
+      const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+      if (settings.apiKey) headers.Authorization = `Bearer ${settings.apiKey}`;
+
+      let response: Response;
+      try {
+        response = await fetch(url, {
+          method: 'POST',
+          headers,
+          signal: controller.signal,
+          body: JSON.stringify({
+            ...(settings.model.trim() ? { model: settings.model.trim() } : {}),
+            stream: true,
+            messages: [{ role: 'user', content: buildAnalysisPrompt(settings.promptTemplate, data) }],
+          }),
+        });
+      } catch (err) {
+        throw fail(err, `无法连接到 ${url}（请确认服务已启动并允许跨域访问）`);
+      }
+      if (!response.ok) throw new Error(await describeHttpError(response));
+
+      // Servers that ignore `stream` answer with a single JSON body
+      const contentType = response.headers.get('Content-Type') ?? '';
+      if (!response.body || !contentType.includes('text/event-stream')) {
+        let payload: unknown;
+        try {
+          payload = await response.json();
+        } catch (err) {
+          throw fail(err, '无法解析模型响应');
+        }
+        const text = contentOf(payload);
+        onChunk?.(text);
+        return text;
+      }
+
+      const reader = response.body.getReader();
+      const decoder = new TextDecoder();
+      let buffer = '';
+      let text = '';
+      for (;;) {
+        let chunk: ReadableStreamReadResult<Uint8Array>;
+        try {
+          chunk = await reader.read();
+        } catch (err) {
+          throw fail(err, '读取模型响应时连接中断');
+        }
+        if (chunk.done) break;
+        restartTimer();
+        buffer += decoder.decode(chunk.value, { stream: true });
+
+        // Server-sent events: one `data: {json}` per line, ending with `data: [DONE]`
+        const lines = buffer.split('\n');
+        buffer = lines.pop() ?? '';
+        let done = false;
+        for (const line of lines) {
+          const trimmed = line.trim();
+          if (!trimmed.startsWith('data:')) continue;
+          const body = trimmed.slice('data:'.length).trim();
+          if (body === '[DONE]') {
+            done = true;
+            break;
+          }
+          let payload: unknown;
+          try {
+            payload = JSON.parse(body);
+          } catch {
+            continue;
+          }
+          const delta = contentOf(payload);
+          if (delta) {
+            text += delta;
+            onChunk?.(text);
+          }
+        }
+        if (done) {
+          await reader.cancel().catch(() => undefined);
+          break;
+        }
+      }
+      return text;
+    } finally {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', forwardAbort);
+    }
+  },
+};
+
+const rulesProvider: AnalysisProvider = {
+  id: 'rules',
+  label: '离线规则',
+  remote: false,
+  generate: async (data, _settings, { onChunk }) => {
+    const text = analyzeComparison(data);
+    onChunk?.(text);
+    return text;
+  },
+};
+
+export const ANALYSIS_PROVIDERS: Record<AnalysisProviderId, AnalysisProvider> = {
+  rules: rulesProvider,
+  openai: openAiCompatibleProvider,
+};
+
+export const generateComparisonAnalysis = (
+  data: ComparisonData,
+  settings: AnalysisSettings,
+  options: AnalysisRequestOptions = {}
+): Promise<string> => ANALYSIS_PROVIDERS[settings.provider].generate(data, settings, options);
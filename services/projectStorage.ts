@@ -0,0 +1,120 @@
+import { AnalysisSettings, ComparisonData, ProjectMeta, Snapshot } from '../types';
+import { INITIAL_CATEGORIES, INITIAL_DIMENSIONS, INITIAL_SOFTWARES } from '../constants';
+import { generateId } from '../utils/id';
+
+// Storage Keys
+const STORAGE_KEY_PROJECTS = 'av_benchmark_projects_v1';
+const STORAGE_KEY_ACTIVE = 'av_benchmark_active_project_v1';
+const STORAGE_KEY_PROJECT_PREFIX = 'av_benchmark_project_v1_';
+const STORAGE_KEY_SNAPSHOTS_PREFIX = 'av_benchmark_snapshots_v1_';
+const STORAGE_KEY_ANALYSIS_SETTINGS = 'av_benchmark_analysis_settings_v1';
+
+// Keys used before projects existed, migrated into the first project
+const LEGACY_KEY_DIMS = 'av_benchmark_dimensions_v1';
+const LEGACY_KEY_SW = 'av_benchmark_softwares_v1';
+
+export const DEFAULT_PROJECT_NAME = '默认项目';
+
+const readJSON = <T>(key: string): T | null => {
+  try {
+    const saved = localStorage.getItem(key);
+    return saved ? JSON.parse(saved) : null;
+  } catch (e) {
+    console.warn(`Failed to load ${key} from storage`, e);
+    return null;
+  }
+};
+
+export const createProjectMeta = (id: string, name: string): ProjectMeta => ({
+  id,
+  name,
+  createdAt: new Date().toISOString(),
+});
+
+export const getDefaultData = (): ComparisonData => ({
+  dimensions: INITIAL_DIMENSIONS,
+  softwares: INITIAL_SOFTWARES,
+  categories: INITIAL_CATEGORIES,
+});
+
+export const loadProjectIndex = (): ProjectMeta[] =>
+  readJSON<ProjectMeta[]>(STORAGE_KEY_PROJECTS) || [];
+
+export const saveProjectIndex = (projects: ProjectMeta[]) => {
+  localStorage.setItem(STORAGE_KEY_PROJECTS, JSON.stringify(projects));
+};
+
+export const loadProjectData = (id: string): ComparisonData =>
+  readJSON<ComparisonData>(STORAGE_KEY_PROJECT_PREFIX + id) || getDefaultData();
+
+export const saveProjectData = (id: string, data: ComparisonData) => {
+  localStorage.setItem(STORAGE_KEY_PROJECT_PREFIX + id, JSON.stringify(data));
+};
+
+export const deleteProjectData = (id: string) => {
+  localStorage.removeItem(STORAGE_KEY_PROJECT_PREFIX + id);
+  localStorage.removeItem(STORAGE_KEY_SNAPSHOTS_PREFIX + id);
+};
+
+export const loadSnapshots = (projectId: string): Snapshot[] =>
+  readJSON<Snapshot[]>(STORAGE_KEY_SNAPSHOTS_PREFIX + projectId) || [];
+
+export const saveSnapshots = (projectId: string, snapshots: Snapshot[]) => {
+  localStorage.setItem(STORAGE_KEY_SNAPSHOTS_PREFIX + projectId, JSON.stringify(snapshots));
+};
+
+export const saveActiveProjectId = (id: string) => {
+  localStorage.setItem(STORAGE_KEY_ACTIVE, id);
+};
+
+// Analysis settings belong to the user and hold the API key, so they are never
+// part of a project or its exports
+export const loadAnalysisSettings = (): Partial<AnalysisSettings> | null =>
+  readJSON<Partial<AnalysisSettings>>(STORAGE_KEY_ANALYSIS_SETTINGS);
+
+export const saveAnalysisSettings = (settings: AnalysisSettings) => {
+  localStorage.setItem(STORAGE_KEY_ANALYSIS_SETTINGS, JSON.stringify(settings));
+};
+
+// Creates the default project, from the single dataset of the legacy keys when there is one
+const createDefaultProject = (): ProjectMeta[] => {
+  const id = generateId();
+  const legacyDims = readJSON<ComparisonData['dimensions']>(LEGACY_KEY_DIMS);
+  const legacySw = readJSON<ComparisonData['softwares']>(LEGACY_KEY_SW);
+  saveProjectData(id, {
+    dimensions: legacyDims || INITIAL_DIMENSIONS,
+    softwares: legacySw || INITIAL_SOFTWARES,
+    // Legacy dimensions were never assigned to a category
+    categories: legacyDims ? [] : INITIAL_CATEGORIES,
+  });
+  const projects = [createProjectMeta(id, DEFAULT_PROJECT_NAME)];
+  saveProjectIndex(projects);
+  localStorage.removeItem(LEGACY_KEY_DIMS);
+  localStorage.removeItem(LEGACY_KEY_SW);
+  return projects;
+};
+
+/**
+ * The saved projects for adding one from outside the app (e.g. a share
+ * link). Legacy data is still migrated so it isn't stranded, but a
+ * first-time visitor gets no default project next to the added one.
+ */
+export const loadStoredProjects = (): ProjectMeta[] => {
+  const projects = loadProjectIndex();
+  if (projects.length > 0) return projects;
+  const hasLegacyData = localStorage.getItem(LEGACY_KEY_DIMS) !== null || localStorage.getItem(LEGACY_KEY_SW) !== null;
+  return hasLegacyData ? createDefaultProject() : [];
+};
+
+/**
+ * Loads the project list and the active project's data. On first run the
+ * single dataset from the legacy keys becomes the default project.
+ */
+export const initProjects = (): { projects: ProjectMeta[]; activeId: string; data: ComparisonData } => {
+  let projects = loadProjectIndex();
+  if (projects.length === 0) projects = createDefaultProject();
+
+  const savedActive = localStorage.getItem(STORAGE_KEY_ACTIVE);
+  const activeId = projects.some(p => p.id === savedActive) ? savedActive! : projects[0].id;
+  return { projects, activeId, data: loadProjectData(activeId) };
+};
@@ -0,0 +1,230 @@
+import { Category, ComparisonData, Dimension, Software } from '../types';
+import { buildComparisonReport, formatScore, ComparisonReport, RankingEntry, ProfileItem } from '../utils/report';
+import { computeWeightedScore, getDimensionWeight } from '../utils/scoring';
+import { groupDimensions } from '../utils/categories';
+
+// Rule-based analysis that runs entirely offline. The output only depends on
+// the data (no dates, no randomness), so fixed datasets give fixed text.
+
+// Weighted totals closer than this are treated as a close call
+const CLOSE_CALL_MARGIN = 0.3;
+// Dimensions named when explaining the gap between two products
+const MAX_GAP_DRIVERS = 2;
+// Alternative picks listed in the recommendation when there are no categories
+const MAX_SCENARIOS = 3;
+
+const scoreOf = (sw: Software, dim: Dimension) => sw.scores[dim.id] || 0;
+const quote = (name: string) => `「${name}」`;
+const quoteAll = (names: string[]) => names.map(quote).join('');
+const signed = (n: number) => `${n >= 0 ? '+' : '−'}${Math.abs(n).toFixed(1)}`;
+
+const describeDelta = (item: ProfileItem) =>
+  item.delta === null
+    ? `${quote(item.dimension.name)}（${formatScore(item.score)} 分）`
+    : `${quote(item.dimension.name)}（${signed(item.delta)}）`;
+
+const extremeDimensions = (sw: Software, dimensions: Dimension[], pick: 'max' | 'min') => {
+  const scores = dimensions.map(dim => scoreOf(sw, dim));
+  const score = pick === 'max' ? Math.max(...scores) : Math.min(...scores);
+  return { score, dimensions: dimensions.filter(dim => scoreOf(sw, dim) === score) };
+};
+
+const overviewSection = (report: ComparisonReport): string[] => {
+  const { rankings, data } = report;
+  const lines = ['## 总体结论', ''];
+  const [first, second, third] = rankings;
+  const last = rankings[rankings.length - 1];
+
+  let summary = `共对比 ${data.softwares.length} 个产品、${data.dimensions.length} 个维度。`;
+  if (rankings.length === 1) {
+    summary += `仅有 ${first.software.name} 一个产品，加权总分 ${first.weightedScore.toFixed(2)}，以下分析基于其自身各维度的高低。`;
+    return [...lines, summary, ''];
+  }
+
+  const leaders = rankings.filter(r => r.rank === 1);
+  if (leaders.length > 1) {
+    summary += `${leaders.map(r => r.software.name).join('、')} 以 ${first.weightedScore.toFixed(2)} 分并列第一。`;
+  } else {
+    summary += `${first.software.name} 以 ${first.weightedScore.toFixed(2)} 分排名第一，`;
+    summary += third
+      ? `${second.software.name}（${second.weightedScore.toFixed(2)}）与 ${third.software.name}（${third.weightedScore.toFixed(2)}）分列二、三位。`
+      : `${second.software.name}（${second.weightedScore.toFixed(2)}）位居第二。`;
+  }
+  summary += `最高与最低总分相差 ${(first.weightedScore - last.weightedScore).toFixed(2)} 分`;
+  summary += first.weightedScore - last.weightedScore < CLOSE_CALL_MARGIN * 2 ? '，整体差距不大。' : '。';
+  return [...lines, summary, ''];
+};
+
+const productSection = (report: ComparisonReport, entry: RankingEntry): string[] => {
+  const { dimensions, softwares } = report.data;
+  const sw = entry.software;
+  const profile = report.profiles.find(p => p.software.id === sw.id);
+  const lines = [`### ${sw.name}（第 ${entry.rank} 名，加权总分 ${entry.weightedScore.toFixed(2)}）`, ''];
+
+  const best = extremeDimensions(sw, dimensions, 'max');
+  const worst = extremeDimensions(sw, dimensions, 'min');
+  if (best.score === worst.score) {
+    lines.push(`- **各维度**：得分一致，均为 ${formatScore(best.score)} 分。`);
+  } else {
+    lines.push(`- **最强维度**：${quoteAll(best.dimensions.map(d => d.name))}（${formatScore(best.score)} 分）`);
+    lines.push(`- **最弱维度**：${quoteAll(worst.dimensions.map(d => d.name))}（${formatScore(worst.score)} 分）`);
+  }
+
+  if (softwares.length > 1) {
+    // Dimensions where everyone scores the same say nothing about leading or trailing
+    const contested = report.dimensionResults.filter(r => r.bestScore !== r.worstScore);
+    const leads = contested.filter(r => r.best.some(s => s.id === sw.id));
+    const trails = contested.filter(r => r.worst.some(s => s.id === sw.id));
+    const label = (r: typeof contested[number], group: Software[]) =>
+      group.length > 1 ? `${quote(r.dimension.name)}（并列）` : quote(r.dimension.name);
+    if (leads.length > 0) {
+      lines.push(`- **领先全场**：${leads.map(r => label(r, r.best)).join('')}`);
+    }
+    if (trails.length > 0) {
+      lines.push(`- **落后全场**：${trails.map(r => label(r, r.worst)).join('')}`);
+    }
+  }
+
+  if (profile) {
+    const { strengths, weaknesses } = profile;
+    if (strengths.length > 0 && weaknesses.length > 0) {
+      lines.push(`- **取舍**：${strengths.map(describeDelta).join('')}突出，但${weaknesses.map(describeDelta).join('')}偏弱。`);
+    } else if (strengths.length > 0) {
+      lines.push(`- **特点**：没有明显短板，${strengths.map(describeDelta).join('')}尤为突出。`);
+    } else if (weaknesses.length > 0) {
+      lines.push(`- **特点**：没有明显优势，${weaknesses.map(describeDelta).join('')}拖累了总分。`);
+    } else {
+      lines.push('- **特点**：各维度都接近平均水平，表现均衡。');
+    }
+  }
+
+  return [...lines, ''];
+};
+
+// Explains a small gap by the dimensions that contribute most to it, per side
+const gapDrivers = (a: Software, b: Software, dimensions: Dimension[]) => {
+  const diffs = dimensions
+    .map(dim => ({ dim, diff: scoreOf(a, dim) - scoreOf(b, dim), impact: (scoreOf(a, dim) - scoreOf(b, dim)) * getDimensionWeight(dim) }))
+    .filter(d => d.diff !== 0);
+  const top = (items: typeof diffs) =>
+    [...items].sort((x, y) => Math.abs(y.impact) - Math.abs(x.impact)).slice(0, MAX_GAP_DRIVERS);
+  return {
+    forA: top(diffs.filter(d => d.diff > 0)),
+    forB: top(diffs.filter(d => d.diff < 0)),
+  };
+};
+
+const closeCallSection = (report: ComparisonReport): string[] => {
+  const { rankings, data } = report;
+  if (rankings.length < 2) return [];
+  const lines = ['## 势均力敌', ''];
+
+  const pairs = rankings.slice(1)
+    .map((entry, i) => ({ a: rankings[i], b: entry }))
+    .filter(({ a, b }) => a.weightedScore - b.weightedScore < CLOSE_CALL_MARGIN);
+
+  if (pairs.length === 0) {
+    lines.push(`没有总分差距小于 ${CLOSE_CALL_MARGIN} 分的相邻产品，排名较为明确。`, '');
+    return lines;
+  }
+
+  pairs.forEach(({ a, b }) => {
+    const gap = a.weightedScore - b.weightedScore;
+    const { forA, forB } = gapDrivers(a.software, b.software, data.dimensions);
+    const head = `- ${a.software.name}（${a.weightedScore.toFixed(2)}）与 ${b.software.name}（${b.weightedScore.toFixed(2)}）` +
+      (gap < 1e-9 ? '总分相同' : `仅差 ${gap.toFixed(2)} 分`);
+    if (forA.length === 0 && forB.length === 0) {
+      lines.push(`${head}，且各维度得分完全一致。`);
+      return;
+    }
+    const parts: string[] = [];
+    if (forA.length > 0) {
+      parts.push(`${a.software.name} 在${forA.map(d => `${quote(d.dim.name)}（${signed(d.diff)}）`).join('')}占优`);
+    }
+    if (forB.length > 0) {
+      parts.push(`${b.software.name} 在${forB.map(d => `${quote(d.dim.name)}（${signed(-d.diff)}）`).join('')}占优`);
+    }
+    lines.push(`${head}：${parts.join('，')}。`);
+  });
+  return [...lines, ''];
+};
+
+const bestBy = (softwares: Software[], score: (sw: Software) => number) => {
+  const top = Math.max(...softwares.map(score));
+  return { score: top, softwares: softwares.filter(sw => Math.abs(score(sw) - top) < 1e-9) };
+};
+
+const recommendationSection = (report: ComparisonReport, categories: Category[]): string[] => {
+  const { rankings, data } = report;
+  const lines = ['## 推荐', ''];
+  const leaders = rankings.filter(r => r.rank === 1);
+
+  if (rankings.length === 1) {
+    lines.push(`仅有 ${rankings[0].software.name} 一个产品，建议加入更多产品后再做选择。`, '');
+    return lines;
+  }
+
+  if (leaders.length > 1) {
+    lines.push(`**综合推荐**：${leaders.map(r => r.software.name).join('、')} 并列第一，可根据下方侧重点取舍。`);
+  } else {
+    const gap = rankings[0].weightedScore - rankings[1].weightedScore;
+    const margin = gap < CLOSE_CALL_MARGIN ? '领先优势很小，建议结合下方侧重点选择' : '优势较为明确';
+    lines.push(`**综合推荐：${rankings[0].software.name}**，加权总分领先第二名 ${gap.toFixed(2)} 分，${margin}。`);
+  }
+
+  // Scenario picks: by category when there are categories, otherwise the
+  // heaviest dimensions where someone other than the overall leader is best
+  const leaderIds = leaders.map(r => r.software.id);
+  const scenarios: string[] = [];
+  const groups = groupDimensions(data.dimensions, categories).filter(g => g.category && g.dimensions.length > 0);
+  if (groups.length > 0) {
+    groups.forEach(group => {
+      const best = bestBy(data.softwares, sw => computeWeightedScore(sw, group.dimensions));
+      scenarios.push(`- 侧重${quote(group.category!.name)}：${best.softwares.map(sw => sw.name).join('、')}（${best.score.toFixed(1)} 分）`);
+    });
+  } else {
+    data.dimensions
+      .map((dim, index) => ({ dim, index, best: bestBy(data.softwares, sw => scoreOf(sw, dim)) }))
+      .filter(({ best }) => best.softwares.length < data.softwares.length && !best.softwares.some(sw => leaderIds.includes(sw.id)))
+      .sort((a, b) => getDimensionWeight(b.dim) - getDimensionWeight(a.dim) || a.index - b.index)
+      .slice(0, MAX_SCENARIOS)
+      .forEach(({ dim, best }) => {
+        scenarios.push(`- 更看重${quote(dim.name)}：${best.softwares.map(sw => sw.name).join('、')}（${formatScore(best.score)} 分）`);
+      });
+  }
+
+  if (scenarios.length > 0) {
+    lines.push('', ...scenarios);
+  }
+
+  const last = rankings[rankings.length - 1];
+  if (rankings.length > 2 && last.rank !== 1) {
+    const profile = report.profiles.find(p => p.software.id === last.software.id);
+    const weak = profile?.weaknesses.map(item => quote(item.dimension.name)).join('') ?? '';
+    lines.push('', `${last.software.name} 排名最后${weak ? `，主要短板在${weak}` : ''}，除非有特定需求，不建议优先考虑。`);
+  }
+
+  return [...lines, ''];
+};
+
+/**
+ * Writes the analysis as Markdown: overview, one section per product in
+ * ranking order (best/worst dimensions, where it leads or trails the field,
+ * trade-offs), close calls between neighbours and a recommendation.
+ */
+export const analyzeComparison = (data: ComparisonData): string => {
+  if (data.softwares.length === 0 || data.dimensions.length === 0) {
+    return '暂无可分析的数据，请先添加软件与对比维度。\n';
+  }
+  const report = buildComparisonReport(data, '');
+  const lines = [
+    ...overviewSection(report),
+    '## 各产品分析',
+    '',
+    ...(data.softwares.length > 1 ? ['取舍与特点中的正负数为该维度与其他产品平均分之差。', ''] : []),
+    ...report.rankings.flatMap(entry => productSection(report, entry)),
+    ...closeCallSection(report),
+    ...recommendationSection(report, data.categories ?? []),
+  ];
+  return lines.join('\n').trim() + '\n';
+};
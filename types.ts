@@ -1,7 +1,50 @@
+export interface ScoreThreshold {
+  value: number;
+  score: number;
+}
+
+// How a raw measurement is converted to a 0-10 score
+export type NormalizationRule =
+  | { type: 'linear'; min: number; max: number }
+  | { type: 'log'; min: number; max: number }
+  // The strictest threshold the raw value reaches wins, whatever the list order
+  | { type: 'thresholds'; thresholds: ScoreThreshold[] };
+
 export interface Dimension {
   id: string;
   name: string;
   description?: string;
+  // Relative weight in the overall score (defaults to 1)
+  weight?: number;
+  // Unit of the raw measurement, e.g. "MB" or "%"
+  unit?: string;
+  // True when a smaller raw value is better (memory, CPU, power)
+  lowerIsBetter?: boolean;
+  // When set, scores are computed from raw values instead of typed in
+  normalization?: NormalizationRule;
+  // Category the dimension is grouped under, unset means uncategorized
+  categoryId?: string;
+}
+
+// A named group of dimensions, e.g. "Protection" or "Performance"
+export interface Category {
+  id: string;
+  name: string;
+}
+
+// Someone who scores the products independently; just a named profile
+export interface Evaluator {
+  id: string;
+  name: string;
+}
+
+export type AggregationMethod = 'mean' | 'median' | 'trimmedMean';
+
+// How per-evaluator scores are combined into the score shown in the table
+export interface EvaluationSettings {
+  method: AggregationMethod;
+  // Cells whose evaluators differ by more than this are flagged
+  disagreementThreshold: number;
 }
 
 export interface Software {
@@ -12,16 +55,159 @@ export interface Software {
   scores: Record<string, number>;
   // Map of dimension ID to description text
   descriptions: Record<string, string>;
+  // Map of dimension ID to the raw measured value
+  rawValues?: Record<string, number>;
+  // Map of dimension ID to evaluator ID to that evaluator's score (0-10)
+  evaluatorScores?: Record<string, Record<string, number>>;
+  // Map of dimension ID to repeated trial values, in the cell's input unit
+  // (raw value on measured dimensions, score otherwise); their mean is the cell value
+  trials?: Record<string, number[]>;
+  // Product version the results above were measured on, and the test date (YYYY-MM-DD)
+  version?: string;
+  testedAt?: string;
+  // Results of earlier versions, oldest first, archived when the product is retested
+  versions?: SoftwareVersion[];
+}
+
+// The results of one earlier product version, as they were when it was archived
+export interface SoftwareVersion {
+  id: string;
+  version: string;
+  testedAt?: string;
+  scores: Record<string, number>;
+  rawValues?: Record<string, number>;
+  descriptions: Record<string, string>;
+}
+
+// Metrics recorded by the benchmark harness for each scan run; the names
+// double as the field names of the run record format
+export type RunMetric =
+  | 'scanDurationSec'
+  | 'filesScanned'
+  | 'peakRamMB'
+  | 'avgRamMB'
+  | 'cpuPercent'
+  | 'energyWh'
+  | 'detections';
+
+// One scan run of one product, as read from a harness run record
+export interface HarnessRun {
+  id: string;
+  softwareId: string;
+  // Run name from the record, or its row number when it has none
+  label: string;
+  startedAt?: string;
+  // File the run was imported from
+  source: string;
+  metrics: Partial<Record<RunMetric, number>>;
+}
+
+export type RunAggregation = 'mean' | 'median' | 'best';
+
+// How runs become raw values: each mapped metric feeds one dimension
+export interface RunSettings {
+  aggregation: RunAggregation;
+  mappings: Partial<Record<RunMetric, string>>;
+}
+
+// Whether a product flagged a sample; "late" means only after the initial scan
+export type SampleVerdict = 'detected' | 'missed' | 'late';
+
+// A malware sample from the test manifest, identified by its hash
+export interface MalwareSample {
+  hash: string;
+  family: string;
+  category: string;
+  // When the sample was collected, as written in the manifest
+  date?: string;
+}
+
+// A known-good file; flagging it counts as a false positive
+export interface CleanSample {
+  hash: string;
+  name?: string;
+}
+
+// Dimensions kept in sync with the detection results
+export interface DetectionLinks {
+  overall?: string;
+  falsePositive?: string;
+  // Sample category → dimension
+  categories: Record<string, string>;
+}
+
+export interface DetectionTest {
+  samples: MalwareSample[];
+  cleanSamples: CleanSample[];
+  // Software ID → sample hash → verdict, for malware and clean samples alike
+  verdicts: Record<string, Record<string, SampleVerdict>>;
+  // Share of a detection a late verdict is worth (0-1)
+  lateCredit: number;
+  links: DetectionLinks;
 }
 
 export interface ComparisonData {
   dimensions: Dimension[];
   softwares: Software[];
+  // Projects saved before categories existed have none
+  categories?: Category[];
+  evaluators?: Evaluator[];
+  evaluation?: EvaluationSettings;
+  runs?: HarnessRun[];
+  runSettings?: RunSettings;
+  detection?: DetectionTest;
+}
+
+export type AttachmentKind = 'screenshot' | 'log' | 'file' | 'link';
+
+// Evidence backing one score cell. File contents live in IndexedDB next to
+// this metadata; links have no content, just the URL.
+export interface Attachment {
+  id: string;
+  projectId: string;
+  softwareId: string;
+  dimensionId: string;
+  kind: AttachmentKind;
+  name: string;
+  createdAt: string;
+  mimeType?: string;
+  size?: number;
+  url?: string;
+}
+
+export type AnalysisProviderId = 'rules' | 'openai';
+
+// How the analysis panel writes its text. Stored per user, not per project.
+export interface AnalysisSettings {
+  provider: AnalysisProviderId;
+  // Base URL of an OpenAI-compatible API, e.g. http://localhost:8000/v1
+  endpoint: string;
+  model: string;
+  apiKey: string;
+  promptTemplate: string;
+  // Longest wait for the first or the next streamed chunk
+  timeoutSeconds: number;
+}
+
+// A named benchmark project; its ComparisonData is stored separately
+export interface ProjectMeta {
+  id: string;
+  name: string;
+  createdAt: string;
+}
+
+// A frozen copy of a project's data, used for history and diffs
+export interface Snapshot {
+  id: string;
+  name: string;
+  createdAt: string;
+  data: ComparisonData;
 }
 
 // Chart data format expected by Recharts RadarChart
 export interface RadarChartPoint {
   dimension: string;
   fullMark: number;
-  [key: string]: string | number;
+  // Scores by software ID; uncertainty bands are [low, high] ranges
+  [key: string]: string | number | [number, number];
 }
\ No newline at end of file
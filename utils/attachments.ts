@@ -0,0 +1,61 @@
+import { Attachment, AttachmentKind } from '../types';
+
+export const ATTACHMENT_KIND_LABELS: Record<AttachmentKind, string> = {
+  screenshot: '截图',
+  log: '日志',
+  file: '文件',
+  link: '链接',
+};
+
+const LOG_EXTENSIONS = ['log', 'txt', 'out'];
+const TEXT_EXTENSIONS = [...LOG_EXTENSIONS, 'json', 'xml', 'csv', 'md', 'yaml', 'yml', 'ini'];
+
+// Text attachments up to this size are shown inline in the viewer
+export const TEXT_PREVIEW_LIMIT = 512 * 1024;
+
+const extensionOf = (name: string) => {
+  const dot = name.lastIndexOf('.');
+  return dot === -1 ? '' : name.slice(dot + 1).toLowerCase();
+};
+
+export const attachmentKindFor = (name: string, mimeType: string): AttachmentKind => {
+  if (mimeType.startsWith('image/')) return 'screenshot';
+  if (LOG_EXTENSIONS.includes(extensionOf(name))) return 'log';
+  return 'file';
+};
+
+export const isImageAttachment = (attachment: Attachment) =>
+  attachment.kind !== 'link' && !!attachment.mimeType?.startsWith('image/');
+
+export const isTextAttachment = (attachment: Attachment) =>
+  attachment.kind !== 'link' &&
+  (!!attachment.mimeType?.startsWith('text/') || TEXT_EXTENSIONS.includes(extensionOf(attachment.name)));
+
+export const attachmentCellKey = (softwareId: string, dimensionId: string) => `${softwareId}:${dimensionId}`;
+
+export const countAttachmentsByCell = (attachments: Attachment[]): Record<string, number> => {
+  const counts: Record<string, number> = {};
+  attachments.forEach(a => {
+    const key = attachmentCellKey(a.softwareId, a.dimensionId);
+    counts[key] = (counts[key] || 0) + 1;
+  });
+  return counts;
+};
+
+export const formatFileSize = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+};
+
+// Accepts bare hosts like "example.com/report"; only http(s) links are kept
+export const normalizeUrl = (input: string): string | null => {
+  const trimmed = input.trim();
+  if (!trimmed) return null;
+  try {
+    const url = new URL(/^[a-z][a-z0-9+.-]*:/i.test(trimmed) ? trimmed : `https://${trimmed}`);
+    return url.protocol === 'http:' || url.protocol === 'https:' ? url.toString() : null;
+  } catch {
+    return null;
+  }
+};
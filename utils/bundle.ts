@@ -0,0 +1,134 @@
+import { Attachment, AttachmentKind } from '../types';
+import { ProjectFile } from './projectFile';
+
+// Layout of a project bundle (.zip):
+//   project.json       the regular JSON project file
+//   attachments.json   attachment metadata, each file entry pointing at its path
+//   attachments/<software>/<dimension>/<id>-<name>
+const PROJECT_ENTRY = 'project.json';
+const MANIFEST_ENTRY = 'attachments.json';
+const ATTACHMENT_DIR = 'attachments';
+
+// Attachment metadata as written to the bundle; the project id is assigned on import
+export type BundledAttachment = Omit<Attachment, 'projectId'>;
+
+interface ManifestEntry extends BundledAttachment {
+  path?: string;
+}
+
+export interface ProjectBundle {
+  projectText: string | null;
+  attachments: { attachment: BundledAttachment; blob?: Blob }[];
+  errors: string[];
+}
+
+const loadJSZip = async () => {
+  const mod = await import('jszip');
+  return (mod.default ?? mod) as typeof mod.default;
+};
+
+// Keeps entry names readable while staying valid on every file system
+const safeName = (name: string) => name.replace(/[\\/:*?"<>|\u0000-\u001f]/g, '_').trim() || '_';
+
+const ATTACHMENT_KINDS: AttachmentKind[] = ['screenshot', 'log', 'file', 'link'];
+
+/**
+ * Zips the project file together with the attachments of every cell that
+ * still exists. Blobs are loaded one at a time through `loadBlob`.
+ */
+export const buildProjectBundle = async (
+  projectFile: ProjectFile,
+  attachments: Attachment[],
+  loadBlob: (id: string) => Promise<Blob | null>
+): Promise<Blob> => {
+  const JSZip = await loadJSZip();
+  const zip = new JSZip();
+  const { dimensions, softwares } = projectFile.data;
+  const manifest: ManifestEntry[] = [];
+
+  zip.file(PROJECT_ENTRY, JSON.stringify(projectFile, null, 2));
+
+  for (const attachment of attachments) {
+    const sw = softwares.find(s => s.id === attachment.softwareId);
+    const dim = dimensions.find(d => d.id === attachment.dimensionId);
+    if (!sw || !dim) continue;
+
+    const { projectId: _projectId, ...entry } = attachment;
+    if (attachment.kind === 'link') {
+      manifest.push(entry);
+      continue;
+    }
+    const blob = await loadBlob(attachment.id);
+    if (!blob) continue;
+    const path = `${ATTACHMENT_DIR}/${safeName(sw.name)}/${safeName(dim.name)}/${attachment.id}-${safeName(attachment.name)}`;
+    zip.file(path, blob);
+    manifest.push({ ...entry, path });
+  }
+
+  zip.file(MANIFEST_ENTRY, JSON.stringify(manifest, null, 2));
+  return zip.generateAsync({ type: 'blob', compression: 'DEFLATE' });
+};
+
+const isManifestEntry = (value: unknown): value is ManifestEntry => {
+  if (typeof value !== 'object' || value === null) return false;
+  const entry = value as Record<string, unknown>;
+  return typeof entry.id === 'string'
+    && typeof entry.softwareId === 'string'
+    && typeof entry.dimensionId === 'string'
+    && typeof entry.name === 'string'
+    && typeof entry.createdAt === 'string'
+    && ATTACHMENT_KINDS.includes(entry.kind as AttachmentKind);
+};
+
+/**
+ * Reads a bundle back. The project file itself is validated by the caller
+ * with parseProjectFile; broken attachment entries are reported and skipped.
+ */
+export const readProjectBundle = async (buffer: ArrayBuffer): Promise<ProjectBundle> => {
+  const JSZip = await loadJSZip();
+  const zip = await JSZip.loadAsync(buffer);
+  const errors: string[] = [];
+
+  const projectEntry = zip.file(PROJECT_ENTRY);
+  if (!projectEntry) {
+    return { projectText: null, attachments: [], errors: [`压缩包中缺少 ${PROJECT_ENTRY}`] };
+  }
+  const projectText = await projectEntry.async('string');
+
+  const manifestEntry = zip.file(MANIFEST_ENTRY);
+  let manifest: unknown[] = [];
+  if (manifestEntry) {
+    try {
+      const parsed = JSON.parse(await manifestEntry.async('string'));
+      if (Array.isArray(parsed)) manifest = parsed;
+      else errors.push(`${MANIFEST_ENTRY}: 应为数组`);
+    } catch {
+      errors.push(`${MANIFEST_ENTRY}: 不是有效的 JSON`);
+    }
+  }
+
+  const attachments: ProjectBundle['attachments'] = [];
+  for (const [i, value] of manifest.entries()) {
+    if (!isManifestEntry(value)) {
+      errors.push(`${MANIFEST_ENTRY}[${i}]: 附件信息不完整，已跳过`);
+      continue;
+    }
+    const { path, ...attachment } = value;
+    if (attachment.kind === 'link') {
+      attachments.push({ attachment });
+      continue;
+    }
+    const file = path ? zip.file(path) : null;
+    if (!file) {
+      errors.push(`${MANIFEST_ENTRY}[${i}]: 找不到文件 ${path ?? attachment.name}，已跳过`);
+      continue;
+    }
+    const blob = await file.async('blob');
+    attachments.push({
+      attachment,
+      blob: attachment.mimeType ? new Blob([blob], { type: attachment.mimeType }) : blob,
+    });
+  }
+
+  return { projectText, attachments, errors };
+};
@@ -0,0 +1,52 @@
+import { Category, ComparisonData, Dimension } from '../types';
+import { computeWeightedScore, getDimensionWeight } from './scoring';
+
+export const UNCATEGORIZED_NAME = '未分类';
+// Stands in for the uncategorized group wherever a key or id is needed
+export const UNCATEGORIZED_ID = '__uncategorized__';
+
+export interface DimensionGroup {
+  // null for the dimensions without a (known) category
+  category: Category | null;
+  dimensions: Dimension[];
+}
+
+// Dimensions pointing at a deleted category count as uncategorized
+export const resolveCategory = (dim: Dimension, categories: Category[]): Category | null =>
+  categories.find(c => c.id === dim.categoryId) ?? null;
+
+/**
+ * Groups dimensions in category order, keeping the dimension order inside
+ * each group. Uncategorized dimensions come last; empty categories are kept
+ * so they stay visible and can receive dimensions.
+ */
+export const groupDimensions = (dimensions: Dimension[], categories: Category[] = []): DimensionGroup[] => {
+  const groups: DimensionGroup[] = categories.map(category => ({
+    category,
+    dimensions: dimensions.filter(dim => dim.categoryId === category.id),
+  }));
+  const uncategorized = dimensions.filter(dim => !resolveCategory(dim, categories));
+  if (uncategorized.length > 0) groups.push({ category: null, dimensions: uncategorized });
+  return groups;
+};
+
+/**
+ * Collapses each category into a single dimension whose score is the
+ * category's weighted average and whose weight is the sum of its members,
+ * so the overall weighted score stays the same. Used by the category radar.
+ */
+export const aggregateByCategory = (data: ComparisonData): ComparisonData => {
+  const groups = groupDimensions(data.dimensions, data.categories).filter(g => g.dimensions.length > 0);
+  const dimensions: Dimension[] = groups.map(group => ({
+    id: group.category?.id ?? UNCATEGORIZED_ID,
+    name: group.category?.name ?? UNCATEGORIZED_NAME,
+    weight: group.dimensions.reduce((sum, dim) => sum + getDimensionWeight(dim), 0),
+  }));
+  const softwares = data.softwares.map(sw => ({
+    ...sw,
+    scores: Object.fromEntries(
+      groups.map((group, i) => [dimensions[i].id, Math.round(computeWeightedScore(sw, group.dimensions) * 10) / 10])
+    ),
+  }));
+  return { dimensions, softwares, categories: [] };
+};
@@ -0,0 +1,47 @@
+// Software colors are either hex ("#3b82f6") or generated hsl strings
+// ("hsl(120.5, 70%, 50%)"); exports need plain RGB values.
+
+const hslToRgb = (h: number, s: number, l: number): [number, number, number] => {
+  const sat = s / 100;
+  const light = l / 100;
+  const k = (n: number) => (n + h / 30) % 12;
+  const a = sat * Math.min(light, 1 - light);
+  const f = (n: number) => light - a * Math.max(-1, Math.min(k(n) - 3, Math.min(9 - k(n), 1)));
+  return [Math.round(f(0) * 255), Math.round(f(8) * 255), Math.round(f(4) * 255)];
+};
+
+// Returns [r, g, b] or null when the color string isn't understood
+export const parseColor = (color: string): [number, number, number] | null => {
+  const value = color.trim();
+
+  const hex = value.match(/^#([0-9a-f]{3}|[0-9a-f]{6})$/i);
+  if (hex) {
+    const digits = hex[1].length === 3 ? hex[1].split('').map(c => c + c).join('') : hex[1];
+    return [0, 2, 4].map(i => parseInt(digits.slice(i, i + 2), 16)) as [number, number, number];
+  }
+
+  const hsl = value.match(/^hsl\(\s*([\d.]+)\s*,\s*([\d.]+)%\s*,\s*([\d.]+)%\s*\)$/i);
+  if (hsl) {
+    return hslToRgb(Number(hsl[1]), Number(hsl[2]), Number(hsl[3]));
+  }
+
+  return null;
+};
+
+export const toHex = (color: string, fallback = '#9ca3af'): string => {
+  const rgb = parseColor(color);
+  if (!rgb) return fallback;
+  return '#' + rgb.map(c => c.toString(16).padStart(2, '0')).join('');
+};
+
+// Picks black or white text for readability on the given background
+export const contrastText = (color: string): string => {
+  const rgb = parseColor(color);
+  if (!rgb) return '#ffffff';
+  const [r, g, b] = rgb;
+  const luminance = (0.299 * r + 0.587 * g + 0.114 * b) / 255;
+  return luminance > 0.6 ? '#111827' : '#ffffff';
+};
+
+// Color for a software created without one, e.g. by an import
+export const randomColor = () => `hsl(${Math.random() * 360}, 70%, 50%)`;
@@ -0,0 +1,371 @@
+import { ComparisonData } from '../types';
+import { getDimensionWeight } from './scoring';
+import { resolveCategory } from './categories';
+import { ImportedDimension, ImportedTable } from './importTable';
+
+// CSV Helper Functions
+export const escapeCSV = (str: string | number | undefined) => {
+  if (str === null || str === undefined) return '';
+  const stringValue = String(str);
+  if (stringValue.includes(',') || stringValue.includes('"') || stringValue.includes('\n')) {
+    return `"${stringValue.replace(/"/g, '""')}"`;
+  }
+  return stringValue;
+};
+
+// Robust CSV Parser handling multilines
+export const parseCSV = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let currentRow: string[] = [];
+  let currentCell = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    const nextChar = text[i + 1];
+
+    if (inQuotes) {
+      if (char === '"') {
+        if (nextChar === '"') {
+          currentCell += '"';
+          i++; // Skip next quote escape
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        currentCell += char;
+      }
+    } else {
+      if (char === '"' && currentCell.length === 0) {
+        // Start of a quoted cell
+        inQuotes = true;
+      } else if (char === ',') {
+        currentRow.push(currentCell);
+        currentCell = '';
+      } else if (char === '\r' || char === '\n') {
+        if (char === '\r' && nextChar === '\n') {
+          i++;
+        }
+        currentRow.push(currentCell);
+        rows.push(currentRow);
+        currentRow = [];
+        currentCell = '';
+      } else {
+        currentCell += char;
+      }
+    }
+  }
+
+  // Handle last cell/row
+  if (currentCell.length > 0 || currentRow.length > 0) {
+    currentRow.push(currentCell);
+    rows.push(currentRow);
+  }
+
+  return rows;
+};
+
+export interface FlatRecord {
+  // 1-based position in the file, for messages
+  row: number;
+  fields: Record<string, unknown>;
+}
+
+// Field names are matched loosely so scan_duration_sec and ScanDurationSec both work
+export const recordFieldKey = (name: string) => name.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+/**
+ * Reads a file of flat records: a JSON array (or an object holding one under
+ * `listKey`), or a CSV whose first row names the fields. Entries that are not
+ * objects are reported and skipped.
+ */
+export const readRecordFile = (
+  text: string,
+  fileName: string,
+  listKey: string
+): { records: FlatRecord[]; errors: string[] } => {
+  const records: FlatRecord[] = [];
+  const errors: string[] = [];
+  const trimmed = text.replace(/^\uFEFF/, '').trim();
+
+  if (fileName.toLowerCase().endsWith('.json') || trimmed.startsWith('{') || trimmed.startsWith('[')) {
+    let root: unknown;
+    try {
+      root = JSON.parse(trimmed);
+    } catch (e) {
+      return { records, errors: [`不是有效的 JSON：${(e as Error).message}`] };
+    }
+    const list = Array.isArray(root) ? root : (root as Record<string, unknown> | null)?.[listKey];
+    if (!Array.isArray(list)) {
+      return { records, errors: [`应为记录数组，或包含 ${listKey} 数组的对象`] };
+    }
+    list.forEach((entry, i) => {
+      if (typeof entry !== 'object' || entry === null || Array.isArray(entry)) {
+        errors.push(`第 ${i + 1} 条记录：应为对象，已跳过`);
+        return;
+      }
+      records.push({ row: i + 1, fields: entry as Record<string, unknown> });
+    });
+    return { records, errors };
+  }
+
+  const rows = parseCSV(trimmed).filter(row => row.some(cell => cell.trim() !== ''));
+  if (rows.length < 2) return { records, errors: ['CSV 中没有记录（第一行应为表头）'] };
+  const header = rows[0].map(cell => cell.trim());
+  rows.slice(1).forEach((row, i) => {
+    const fields: Record<string, string> = {};
+    header.forEach((name, col) => {
+      if (name) fields[name] = row[col] ?? '';
+    });
+    records.push({ row: i + 1, fields });
+  });
+  return { records, errors };
+};
+
+// Layout: Dimension, Type, [Category,] Weight, [Software Names...] with Score/Raw/Description rows
+export const buildComparisonCSV = (data: ComparisonData): string => {
+  const { dimensions, softwares } = data;
+  const categories = data.categories ?? [];
+  // The Category column is only written for projects that use categories
+  const withCategory = categories.length > 0;
+  const blankFixed = withCategory ? ['', ''] : [''];
+
+  // 1. Header Row: Dimension, Type, [Category,] Weight, [Software Names...]
+  const headers = ['Dimension', 'Type', ...(withCategory ? ['Category'] : []), 'Weight', ...softwares.map(s => escapeCSV(s.name))];
+  const csvRows = [headers.join(',')];
+
+  // 2. Data Rows
+  dimensions.forEach(dim => {
+    // Score Row
+    const scoreRow = [
+      escapeCSV(dim.name),
+      'Score',
+      ...(withCategory ? [escapeCSV(resolveCategory(dim, categories)?.name ?? '')] : []),
+      getDimensionWeight(dim),
+      ...softwares.map(s => s.scores[dim.id] || 0)
+    ];
+    csvRows.push(scoreRow.join(','));
+
+    // Raw Measurement Row (only when something was measured)
+    if (softwares.some(s => s.rawValues?.[dim.id] !== undefined)) {
+      const rawRow = [
+        escapeCSV(dim.name),
+        'Raw',
+        ...blankFixed,
+        ...softwares.map(s => s.rawValues?.[dim.id] ?? '')
+      ];
+      csvRows.push(rawRow.join(','));
+    }
+
+    // Description Row
+    const descRow = [
+      escapeCSV(dim.name),
+      'Description',
+      ...blankFixed,
+      ...softwares.map(s => escapeCSV(s.descriptions[dim.id] || ''))
+    ];
+    csvRows.push(descRow.join(','));
+  });
+
+  return '\uFEFF' + csvRows.join('\n'); // Add BOM for Excel UTF-8
+};
+
+export type ImportIssueSeverity = 'error' | 'warning';
+
+export interface ImportIssue {
+  severity: ImportIssueSeverity;
+  // Worksheet name, set for spreadsheet imports only
+  sheet?: string;
+  // 1-based row in the file (a quoted multi-line cell counts as one row)
+  row: number;
+  // 1-based column, omitted when the issue concerns the whole row
+  column?: number;
+  message: string;
+}
+
+export interface ImportReadResult {
+  // null when the file is too broken to read at all
+  table: ImportedTable | null;
+  issues: ImportIssue[];
+}
+
+const ROW_TYPES = ['score', 'raw', 'description'];
+
+// Spreadsheet style column label: 1 -> A, 27 -> AA
+export const columnLabel = (column: number): string => {
+  let label = '';
+  let n = column;
+  while (n > 0) {
+    const rem = (n - 1) % 26;
+    label = String.fromCharCode(65 + rem) + label;
+    n = Math.floor((n - 1) / 26);
+  }
+  return label;
+};
+
+// Optional fixed columns, recognized by header name, that may follow the required ones
+const OPTIONAL_COLUMNS = ['category', 'weight'] as const;
+type OptionalColumn = typeof OPTIONAL_COLUMNS[number];
+
+/**
+ * Finds the optional columns starting at `start` (0-based). Returns their
+ * indices and `next`, the index of the first software column.
+ */
+export const readOptionalColumns = (
+  headers: string[],
+  start: number
+): Partial<Record<OptionalColumn, number>> & { next: number } => {
+  const found: Partial<Record<OptionalColumn, number>> = {};
+  let col = start;
+  while (col < headers.length) {
+    const name = headers[col]?.trim().toLowerCase() as OptionalColumn;
+    if (!OPTIONAL_COLUMNS.includes(name) || found[name] !== undefined) break;
+    found[name] = col;
+    col++;
+  }
+  return { ...found, next: col };
+};
+
+export const hasBlockingIssues = (result: ImportReadResult) =>
+  !result.table || result.issues.some(issue => issue.severity === 'error');
+
+/**
+ * Reads parsed rows in the export layout into an ImportedTable and reports
+ * every problem with its row and column. Errors block the import, warnings
+ * describe what will be skipped or adjusted.
+ */
+export const readComparisonRows = (rows: string[][]): ImportReadResult => {
+  const issues: ImportIssue[] = [];
+  const error = (row: number, message: string, column?: number) =>
+    issues.push({ severity: 'error', row, column, message });
+  const warning = (row: number, message: string, column?: number) =>
+    issues.push({ severity: 'warning', row, column, message });
+
+  // Keep the original row numbers, skip empty rows (e.g. trailing newlines)
+  const numberedRows = rows
+    .map((cells, index) => ({ cells, rowNumber: index + 1 }))
+    .filter(({ cells }) => cells.length > 0 && !cells.every(cell => cell.trim() === ''));
+
+  if (numberedRows.length < 2) {
+    error(1, '文件为空或只有表头，至少需要一行数据');
+    return { table: null, issues };
+  }
+
+  // Parse Header
+  const { cells: headers, rowNumber: headerRow } = numberedRows[0];
+  // Expected: Dimension, Type, [Category,] [Weight,] Software1, Software2...
+  // Files exported before weights or categories existed lack those columns
+  const optionalColumns = readOptionalColumns(headers, 2);
+  const weightCol = optionalColumns.weight;
+  const categoryCol = optionalColumns.category;
+  const firstSoftwareCol = optionalColumns.next;
+  if (headers.length < firstSoftwareCol + 1) {
+    error(headerRow, '表头至少需要 Dimension、Type 和一个软件列');
+    return { table: null, issues };
+  }
+
+  const softwareNames = headers.slice(firstSoftwareCol).map(name => name.trim());
+  const seenSoftwares = new Set<string>();
+  softwareNames.forEach((name, index) => {
+    const column = firstSoftwareCol + index + 1;
+    if (!name) {
+      error(headerRow, '软件名称为空', column);
+    } else if (seenSoftwares.has(name)) {
+      error(headerRow, `软件名称「${name}」重复`, column);
+    }
+    seenSoftwares.add(name);
+  });
+
+  const dimensions: ImportedDimension[] = [];
+  // dimension name + row type -> row where it was first seen
+  const seenRows = new Map<string, number>();
+
+  numberedRows.slice(1).forEach(({ cells: row, rowNumber }) => {
+    if (row.length !== headers.length) {
+      warning(
+        rowNumber,
+        row.length < headers.length
+          ? `列数 ${row.length} 少于表头的 ${headers.length} 列，缺失的单元格视为空`
+          : `列数 ${row.length} 多于表头的 ${headers.length} 列，多出的单元格将被忽略`
+      );
+    }
+
+    const dimName = (row[0] || '').trim();
+    const rawType = (row[1] || '').trim();
+    const type = rawType.toLowerCase(); // 'score', 'raw' or 'description'
+
+    if (!dimName) {
+      error(rowNumber, '维度名称为空', 1);
+      return;
+    }
+    if (!ROW_TYPES.includes(type)) {
+      warning(rowNumber, `未知的行类型「${rawType}」，该行已跳过（应为 Score、Raw 或 Description）`, 2);
+      return;
+    }
+
+    const rowKey = `${dimName}\u0000${type}`;
+    const firstSeen = seenRows.get(rowKey);
+    if (firstSeen !== undefined) {
+      error(rowNumber, `维度「${dimName}」的 ${rawType} 行重复（首次出现在第 ${firstSeen} 行）`, 1);
+      return;
+    }
+    seenRows.set(rowKey, rowNumber);
+
+    // Find or Create Dimension
+    let dim = dimensions.find(d => d.name === dimName);
+    if (!dim) {
+      dim = { name: dimName, scores: [], rawValues: [], descriptions: [] };
+      dimensions.push(dim);
+    }
+
+    if (weightCol !== undefined && type === 'score') {
+      const weightCell = (row[weightCol] || '').trim();
+      const weight = Number(weightCell);
+      if (weightCell !== '') {
+        if (!Number.isFinite(weight) || weight < 0) {
+          warning(rowNumber, `权重「${weightCell}」无效，将使用默认权重`, weightCol + 1);
+        } else {
+          dim.weight = weight;
+        }
+      }
+    }
+
+    if (categoryCol !== undefined && type === 'score') {
+      const category = (row[categoryCol] || '').trim();
+      if (category) dim.category = category;
+    }
+
+    softwareNames.forEach((_, index) => {
+      const column = firstSoftwareCol + index + 1;
+      const val = row[firstSoftwareCol + index] ?? '';
+      const trimmed = val.trim();
+
+      if (type === 'description') {
+        dim!.descriptions[index] = val;
+        return;
+      }
+      if (trimmed === '') return;
+
+      const num = Number(trimmed);
+      if (!Number.isFinite(num)) {
+        error(rowNumber, `${type === 'score' ? '评分' : '实测值'}「${trimmed}」不是数字`, column);
+        return;
+      }
+      if (type === 'score') {
+        if (num < 0 || num > 10) {
+          warning(rowNumber, `评分 ${num} 超出 0-10 范围，将截断为 ${Math.max(0, Math.min(10, num))}`, column);
+        }
+        dim!.scores[index] = Math.max(0, Math.min(10, num));
+      } else {
+        dim!.rawValues[index] = num;
+      }
+    });
+  });
+
+  if (dimensions.length === 0) {
+    error(headerRow, '文件中没有可导入的维度行');
+    return { table: null, issues };
+  }
+
+  return { table: { softwareNames, dimensions }, issues };
+};
@@ -0,0 +1,407 @@
+import {
+  CleanSample,
+  ComparisonData,
+  DetectionLinks,
+  DetectionTest,
+  Dimension,
+  MalwareSample,
+  NormalizationRule,
+  SampleVerdict,
+  Software,
+} from '../types';
+import { normalizeRawValue } from './normalization';
+import { DEFAULT_WEIGHT } from './scoring';
+import { FlatRecord, readRecordFile, recordFieldKey } from './csv';
+import { attachmentCellKey } from './attachments';
+import { randomColor } from './color';
+import { generateId } from './id';
+
+export const VERDICT_LABELS: Record<SampleVerdict, string> = {
+  detected: '检出',
+  missed: '漏检',
+  late: '延迟检出',
+};
+
+export const LATE_CREDIT_OPTIONS: { value: number; label: string }[] = [
+  { value: 1, label: '计为检出' },
+  { value: 0.5, label: '计为半个检出' },
+  { value: 0, label: '计为漏检' },
+];
+
+export const UNCATEGORIZED_SAMPLE = '未分类';
+
+export const EMPTY_DETECTION: DetectionTest = {
+  samples: [],
+  cleanSamples: [],
+  verdicts: {},
+  lateCredit: 0.5,
+  links: { categories: {} },
+};
+
+// Default rules for dimensions created from the module: rates are percentages
+const DETECTION_RULE: NormalizationRule = { type: 'linear', min: 80, max: 100 };
+const FALSE_POSITIVE_RULE: NormalizationRule = { type: 'linear', min: 0, max: 5 };
+
+export const getDetectionTest = (data: ComparisonData): DetectionTest => ({
+  ...EMPTY_DETECTION,
+  ...data.detection,
+  links: { categories: {}, ...data.detection?.links },
+});
+
+// --- Parsing ---
+
+const normalizeHash = (hash: string) => hash.trim().toLowerCase();
+
+const HASH_FIELDS = ['hash', 'sha256', 'sha1', 'md5'].map(recordFieldKey);
+const PRODUCT_FIELDS = ['product', 'software'].map(recordFieldKey);
+
+// Verdict spellings accepted in result files, matched after recordFieldKey-style cleanup
+const VERDICT_ALIASES: Record<string, SampleVerdict> = {
+  detected: 'detected', detect: 'detected', yes: 'detected', true: 'detected', '1': 'detected', '检出': 'detected', '已检出': 'detected',
+  missed: 'missed', miss: 'missed', no: 'missed', false: 'missed', '0': 'missed', '漏检': 'missed', '未检出': 'missed',
+  late: 'late', delayed: 'late', detectedlate: 'late', '延迟': 'late', '延迟检出': 'late',
+};
+
+// First non-empty value among the given (already normalized) field names
+const pick = (fields: Record<string, unknown>, names: string[]): string => {
+  for (const [name, value] of Object.entries(fields)) {
+    if (names.includes(recordFieldKey(name)) && value !== null && value !== undefined && String(value).trim() !== '') {
+      return String(value).trim();
+    }
+  }
+  return '';
+};
+
+const readHash = ({ fields, row }: FlatRecord, errors: string[]): string | null => {
+  const hash = pick(fields, HASH_FIELDS);
+  if (!hash) {
+    errors.push(`第 ${row} 条记录：缺少 hash 字段，已跳过`);
+    return null;
+  }
+  return normalizeHash(hash);
+};
+
+/**
+ * Reads a malware sample manifest (JSON or CSV) with the fields hash,
+ * family, category and date. Only the hash is required.
+ */
+export const parseSampleManifest = (text: string, fileName: string): { samples: MalwareSample[]; errors: string[] } => {
+  const { records, errors } = readRecordFile(text, fileName, 'samples');
+  const samples: MalwareSample[] = [];
+  records.forEach((record) => {
+    const hash = readHash(record, errors);
+    if (!hash) return;
+    samples.push({
+      hash,
+      family: pick(record.fields, ['family']) || '未知',
+      category: pick(record.fields, ['category', 'type']) || UNCATEGORIZED_SAMPLE,
+      date: pick(record.fields, ['date', 'firstseen']) || undefined,
+    });
+  });
+  return { samples, errors };
+};
+
+// Reads a clean-set manifest: hash plus an optional file name
+export const parseCleanManifest = (text: string, fileName: string): { samples: CleanSample[]; errors: string[] } => {
+  const { records, errors } = readRecordFile(text, fileName, 'samples');
+  const samples: CleanSample[] = [];
+  records.forEach((record) => {
+    const hash = readHash(record, errors);
+    if (!hash) return;
+    samples.push({ hash, name: pick(record.fields, ['name', 'file', 'filename']) || undefined });
+  });
+  return { samples, errors };
+};
+
+export interface ParsedVerdict {
+  product: string;
+  hash: string;
+  verdict: SampleVerdict;
+}
+
+// Reads per-product results: one record per product and sample with product, hash and verdict
+export const parseVerdicts = (text: string, fileName: string): { verdicts: ParsedVerdict[]; errors: string[] } => {
+  const { records, errors } = readRecordFile(text, fileName, 'results');
+  const verdicts: ParsedVerdict[] = [];
+  records.forEach((record) => {
+    const product = pick(record.fields, PRODUCT_FIELDS);
+    if (!product) {
+      errors.push(`第 ${record.row} 条记录：缺少 product 字段，已跳过`);
+      return;
+    }
+    const hash = readHash(record, errors);
+    if (!hash) return;
+    const raw = pick(record.fields, ['verdict', 'result']);
+    const verdict = VERDICT_ALIASES[raw.toLowerCase().replace(/[\s_-]/g, '')];
+    if (!verdict) {
+      errors.push(`第 ${record.row} 条记录：无法识别的结果「${raw}」，应为 detected、missed 或 late，已跳过`);
+      return;
+    }
+    verdicts.push({ product, hash, verdict });
+  });
+  return { verdicts, errors };
+};
+
+// Later entries replace earlier ones with the same hash
+const mergeByHash = <T extends { hash: string }>(existing: T[], incoming: T[]): T[] => {
+  const byHash = new Map(existing.map(item => [item.hash, item]));
+  incoming.forEach(item => byHash.set(item.hash, item));
+  return Array.from(byHash.values());
+};
+
+export const importSamples = (data: ComparisonData, samples: MalwareSample[]): ComparisonData => {
+  const test = getDetectionTest(data);
+  return applyDetectionResults({ ...data, detection: { ...test, samples: mergeByHash(test.samples, samples) } });
+};
+
+export const importCleanSamples = (data: ComparisonData, samples: CleanSample[]): ComparisonData => {
+  const test = getDetectionTest(data);
+  return applyDetectionResults({ ...data, detection: { ...test, cleanSamples: mergeByHash(test.cleanSamples, samples) } });
+};
+
+// Products are matched to softwares by name; unknown products are added
+export const importVerdicts = (data: ComparisonData, parsed: ParsedVerdict[]): ComparisonData => {
+  const test = getDetectionTest(data);
+  const softwares: Software[] = [...data.softwares];
+  const verdicts = { ...test.verdicts };
+
+  parsed.forEach(({ product, hash, verdict }) => {
+    let sw = softwares.find(s => s.name === product);
+    if (!sw) {
+      sw = { id: generateId(), name: product, color: randomColor(), scores: {}, descriptions: {}, rawValues: {} };
+      softwares.push(sw);
+    }
+    verdicts[sw.id] = { ...verdicts[sw.id], [hash]: verdict };
+  });
+
+  return applyDetectionResults({ ...data, softwares, detection: { ...test, verdicts } });
+};
+
+// --- Results ---
+
+export interface DetectionStats {
+  // Samples with a verdict; samples the product was not tested on don't count
+  tested: number;
+  detected: number;
+  late: number;
+  missed: number;
+  // Percentage, null when nothing was tested
+  rate: number | null;
+}
+
+export interface FalsePositiveStats {
+  tested: number;
+  flagged: number;
+  rate: number | null;
+}
+
+export interface ProductDetection {
+  overall: DetectionStats;
+  byCategory: Record<string, DetectionStats>;
+  falsePositive: FalsePositiveStats;
+}
+
+const roundRate = (value: number) => Math.round(value * 100) / 100;
+
+const emptyStats = (): DetectionStats => ({ tested: 0, detected: 0, late: 0, missed: 0, rate: null });
+
+const addVerdict = (stats: DetectionStats, verdict: SampleVerdict) => {
+  stats.tested++;
+  stats[verdict]++;
+};
+
+const finishStats = (stats: DetectionStats, lateCredit: number) => {
+  stats.rate = stats.tested > 0 ? roundRate(((stats.detected + stats.late * lateCredit) / stats.tested) * 100) : null;
+};
+
+// Categories in manifest order
+export const sampleCategories = (test: DetectionTest): string[] =>
+  Array.from(new Set(test.samples.map(sample => sample.category)));
+
+export const computeProductDetection = (test: DetectionTest, softwareId: string): ProductDetection => {
+  const verdicts = test.verdicts[softwareId] ?? {};
+  const overall = emptyStats();
+  const byCategory: Record<string, DetectionStats> = {};
+
+  test.samples.forEach((sample) => {
+    const verdict = verdicts[sample.hash];
+    if (!verdict) return;
+    addVerdict(overall, verdict);
+    addVerdict((byCategory[sample.category] ??= emptyStats()), verdict);
+  });
+  finishStats(overall, test.lateCredit);
+  Object.values(byCategory).forEach(stats => finishStats(stats, test.lateCredit));
+
+  // Any alert on a clean file is a false positive, late or not
+  let cleanTested = 0;
+  let flagged = 0;
+  test.cleanSamples.forEach((sample) => {
+    const verdict = verdicts[sample.hash];
+    if (!verdict) return;
+    cleanTested++;
+    if (verdict !== 'missed') flagged++;
+  });
+
+  return {
+    overall,
+    byCategory,
+    falsePositive: {
+      tested: cleanTested,
+      flagged,
+      rate: cleanTested > 0 ? roundRate((flagged / cleanTested) * 100) : null,
+    },
+  };
+};
+
+// Samples a product missed or only caught late, optionally within one category
+export const missedSamples = (
+  test: DetectionTest,
+  softwareId: string,
+  category?: string
+): { sample: MalwareSample; verdict: SampleVerdict }[] => {
+  const verdicts = test.verdicts[softwareId] ?? {};
+  return test.samples
+    .filter(sample => category === undefined || sample.category === category)
+    .map(sample => ({ sample, verdict: verdicts[sample.hash] }))
+    .filter((entry): entry is { sample: MalwareSample; verdict: SampleVerdict } =>
+      entry.verdict === 'missed' || entry.verdict === 'late'
+    );
+};
+
+export const falsePositiveSamples = (test: DetectionTest, softwareId: string): CleanSample[] => {
+  const verdicts = test.verdicts[softwareId] ?? {};
+  return test.cleanSamples.filter(sample => verdicts[sample.hash] && verdicts[sample.hash] !== 'missed');
+};
+
+// --- Linked dimensions ---
+
+export type DetectionTarget =
+  | { kind: 'overall' }
+  | { kind: 'falsePositive' }
+  | { kind: 'category'; category: string };
+
+export const linkedDimensionId = (links: DetectionLinks, target: DetectionTarget): string | undefined =>
+  target.kind === 'category' ? links.categories[target.category] : links[target.kind];
+
+// What a dimension is linked to, or null when it is scored some other way
+export const detectionTargetFor = (test: DetectionTest, dimensionId: string): DetectionTarget | null => {
+  if (test.links.overall === dimensionId) return { kind: 'overall' };
+  if (test.links.falsePositive === dimensionId) return { kind: 'falsePositive' };
+  const category = Object.keys(test.links.categories).find(c => test.links.categories[c] === dimensionId);
+  return category !== undefined ? { kind: 'category', category } : null;
+};
+
+// Dimensions whose values come from the detection test
+export const linkedDimensionIds = (data: ComparisonData): string[] => {
+  if (!data.detection) return [];
+  const test = getDetectionTest(data);
+  return linkTargets(test)
+    .map(target => linkedDimensionId(test.links, target))
+    .filter((id): id is string => id !== undefined);
+};
+
+const targetStats = (result: ProductDetection, target: DetectionTarget): { tested: number; rate: number | null } => {
+  if (target.kind === 'overall') return result.overall;
+  if (target.kind === 'falsePositive') return result.falsePositive;
+  return result.byCategory[target.category] ?? emptyStats();
+};
+
+const linkTargets = (test: DetectionTest): DetectionTarget[] => [
+  { kind: 'overall' },
+  { kind: 'falsePositive' },
+  ...Object.keys(test.links.categories).map(category => ({ kind: 'category' as const, category })),
+];
+
+/**
+ * Writes every product's rates into the linked dimensions as raw values and
+ * rescores them with the dimensions' rules. Runs after each change to the
+ * test, so linked cells always reflect the underlying results.
+ */
+export const applyDetectionResults = (data: ComparisonData): ComparisonData => {
+  if (!data.detection) return data;
+  const test = getDetectionTest(data);
+  const targets = linkTargets(test)
+    .map(target => ({ target, dim: data.dimensions.find(d => d.id === linkedDimensionId(test.links, target)) }))
+    .filter((entry): entry is { target: DetectionTarget; dim: Dimension } => entry.dim !== undefined);
+  if (targets.length === 0) return data;
+
+  const softwares = data.softwares.map((sw) => {
+    if (!test.verdicts[sw.id]) return sw;
+    const result = computeProductDetection(test, sw.id);
+    let rawValues = sw.rawValues || {};
+    let scores = sw.scores;
+    targets.forEach(({ target, dim }) => {
+      const { rate } = targetStats(result, target);
+      if (rate === null) return;
+      rawValues = { ...rawValues, [dim.id]: rate };
+      const score = normalizeRawValue(rate, dim);
+      if (score !== null) scores = { ...scores, [dim.id]: score };
+    });
+    return rawValues === sw.rawValues && scores === sw.scores ? sw : { ...sw, rawValues, scores };
+  });
+  return { ...data, softwares };
+};
+
+export const setDetectionLink = (data: ComparisonData, target: DetectionTarget, dimensionId: string | undefined): ComparisonData => {
+  const test = getDetectionTest(data);
+  const links: DetectionLinks = { ...test.links, categories: { ...test.links.categories } };
+  if (target.kind === 'category') {
+    if (dimensionId) links.categories[target.category] = dimensionId;
+    else delete links.categories[target.category];
+  } else {
+    links[target.kind] = dimensionId;
+  }
+  return applyDetectionResults({ ...data, detection: { ...test, links } });
+};
+
+// Clears links to removed dimensions, so results are never written to a missing id
+export const unlinkDimensions = (data: ComparisonData, dimensionIds: string[]): ComparisonData => {
+  if (!data.detection) return data;
+  const test = getDetectionTest(data);
+  const keep = (dimId: string | undefined) => (dimId && !dimensionIds.includes(dimId) ? dimId : undefined);
+  const links: DetectionLinks = {
+    overall: keep(test.links.overall),
+    falsePositive: keep(test.links.falsePositive),
+    categories: Object.fromEntries(Object.entries(test.links.categories).filter(([, dimId]) => keep(dimId))),
+  };
+  return { ...data, detection: { ...test, links } };
+};
+
+/**
+ * Adds a percentage dimension for the target and links it. It joins the
+ * category of the overall detection dimension, so protection metrics stay
+ * together.
+ */
+export const createLinkedDimension = (data: ComparisonData, target: DetectionTarget): ComparisonData => {
+  const test = getDetectionTest(data);
+  const overallDim = data.dimensions.find(d => d.id === test.links.overall);
+  const dim: Dimension = {
+    id: `detection_${generateId()}`,
+    name: target.kind === 'overall' ? '恶意样本检出率' : target.kind === 'falsePositive' ? '误报率' : `${target.category}检出率`,
+    weight: DEFAULT_WEIGHT,
+    unit: '%',
+    lowerIsBetter: target.kind === 'falsePositive',
+    normalization: target.kind === 'falsePositive' ? FALSE_POSITIVE_RULE : DETECTION_RULE,
+    categoryId: overallDim?.categoryId,
+  };
+  return setDetectionLink({ ...data, dimensions: [...data.dimensions, dim] }, target, dim.id);
+};
+
+export const updateDetectionTest = (data: ComparisonData, patch: Partial<DetectionTest>): ComparisonData =>
+  applyDetectionResults({ ...data, detection: { ...getDetectionTest(data), ...patch } });
+
+// Tested sample counts behind each linked cell, keyed like attachments
+export const countSamplesByCell = (data: ComparisonData): Record<string, number> => {
+  const counts: Record<string, number> = {};
+  if (!data.detection) return counts;
+  const test = getDetectionTest(data);
+  const targets = linkTargets(test).filter(target => linkedDimensionId(test.links, target));
+  Object.keys(test.verdicts).forEach((softwareId) => {
+    const result = computeProductDetection(test, softwareId);
+    targets.forEach((target) => {
+      const { tested } = targetStats(result, target);
+      if (tested > 0) counts[attachmentCellKey(softwareId, linkedDimensionId(test.links, target)!)] = tested;
+    });
+  });
+  return counts;
+};
@@ -0,0 +1,15 @@
+// Triggers a browser download for generated content
+export const downloadFile = (content: BlobPart, filename: string, mimeType: string) => {
+  const blob = content instanceof Blob ? content : new Blob([content], { type: mimeType });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
+
+// Date stamp used in exported file names, e.g. 2026-10-19
+export const todayStamp = () => new Date().toISOString().split('T')[0];
@@ -0,0 +1,177 @@
+import { AggregationMethod, ComparisonData, Dimension, EvaluationSettings, Evaluator, Software } from '../types';
+
+export const AGGREGATION_LABELS: Record<AggregationMethod, string> = {
+  mean: '平均值',
+  median: '中位数',
+  trimmedMean: '截尾平均',
+};
+
+export const DEFAULT_EVALUATION: EvaluationSettings = {
+  method: 'mean',
+  disagreementThreshold: 2,
+};
+
+// Share of scores dropped at each end by the trimmed mean (at least one with 3+ scores)
+const TRIM_RATIO = 0.2;
+
+// Same one-decimal rounding as normalized scores
+const roundScore = (value: number) => Math.round(value * 10) / 10;
+
+// Projects saved before evaluators existed have no settings
+export const getEvaluationSettings = (data: ComparisonData): EvaluationSettings => ({
+  ...DEFAULT_EVALUATION,
+  ...data.evaluation,
+});
+
+const mean = (values: number[]) => values.reduce((sum, v) => sum + v, 0) / values.length;
+
+/**
+ * Combines several evaluators' scores into one. The trimmed mean falls back
+ * to the plain mean below three scores, where there is nothing to trim.
+ */
+export const aggregateScores = (values: number[], method: AggregationMethod): number | null => {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  switch (method) {
+    case 'median': {
+      const mid = Math.floor(sorted.length / 2);
+      return roundScore(sorted.length % 2 === 1 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2);
+    }
+    case 'trimmedMean': {
+      if (sorted.length < 3) return roundScore(mean(sorted));
+      const trim = Math.max(1, Math.floor(sorted.length * TRIM_RATIO));
+      return roundScore(mean(sorted.slice(trim, sorted.length - trim)));
+    }
+    default:
+      return roundScore(mean(sorted));
+  }
+};
+
+export interface EvaluatorScore {
+  evaluator: Evaluator;
+  score: number;
+}
+
+// Scores of the known evaluators for one cell, in evaluator order
+export const getCellScores = (sw: Software, dimensionId: string, evaluators: Evaluator[]): EvaluatorScore[] => {
+  const cell = sw.evaluatorScores?.[dimensionId];
+  if (!cell) return [];
+  return evaluators
+    .filter(evaluator => typeof cell[evaluator.id] === 'number')
+    .map(evaluator => ({ evaluator, score: cell[evaluator.id] }));
+};
+
+export const scoreSpread = (scores: EvaluatorScore[]): number =>
+  scores.length < 2
+    ? 0
+    : Math.max(...scores.map(s => s.score)) - Math.min(...scores.map(s => s.score));
+
+export const isDisagreement = (scores: EvaluatorScore[], threshold: number) =>
+  scores.length >= 2 && scoreSpread(scores) > threshold;
+
+// Measured values decide the score of normalized dimensions, evaluators don't override them
+const isMeasured = (sw: Software, dim: Dimension) =>
+  !!dim.normalization && sw.rawValues?.[dim.id] !== undefined;
+
+/**
+ * Rewrites every score that has evaluator input with the aggregate of those
+ * scores. Cells nobody has scored keep their directly entered score. A cell
+ * whose last evaluator score is cleared (or whose evaluators were all
+ * removed) goes back to unscored, since the old aggregate is nobody's score.
+ */
+export const applyEvaluatorAggregation = (data: ComparisonData): ComparisonData => {
+  const evaluators = data.evaluators ?? [];
+  const { method } = getEvaluationSettings(data);
+  const softwares = data.softwares.map(sw => {
+    if (!sw.evaluatorScores) return sw;
+    let scores = sw.scores;
+    let evaluatorScores = sw.evaluatorScores;
+    data.dimensions.forEach(dim => {
+      if (isMeasured(sw, dim) || !evaluatorScores[dim.id]) return;
+      const aggregate = aggregateScores(getCellScores(sw, dim.id, evaluators).map(s => s.score), method);
+      if (aggregate === null) {
+        const { [dim.id]: _score, ...restScores } = scores;
+        const { [dim.id]: _cell, ...restCells } = evaluatorScores;
+        scores = restScores;
+        evaluatorScores = restCells;
+      } else if (aggregate !== scores[dim.id]) {
+        scores = { ...scores, [dim.id]: aggregate };
+      }
+    });
+    return scores === sw.scores && evaluatorScores === sw.evaluatorScores ? sw : { ...sw, scores, evaluatorScores };
+  });
+  return { ...data, softwares };
+};
+
+// Sets (or clears, with undefined) one evaluator's score and re-aggregates
+export const setEvaluatorScore = (
+  data: ComparisonData,
+  softwareId: string,
+  dimensionId: string,
+  evaluatorId: string,
+  value: number | undefined
+): ComparisonData => {
+  const softwares = data.softwares.map(sw => {
+    if (sw.id !== softwareId) return sw;
+    const cell = { ...(sw.evaluatorScores?.[dimensionId] ?? {}) };
+    if (value === undefined) {
+      delete cell[evaluatorId];
+    } else {
+      cell[evaluatorId] = value;
+    }
+    return { ...sw, evaluatorScores: { ...(sw.evaluatorScores ?? {}), [dimensionId]: cell } };
+  });
+  return applyEvaluatorAggregation({ ...data, softwares });
+};
+
+// Drops an evaluator together with all of their scores
+export const removeEvaluator = (data: ComparisonData, evaluatorId: string): ComparisonData => {
+  const softwares = data.softwares.map(sw => {
+    if (!sw.evaluatorScores) return sw;
+    const evaluatorScores = Object.fromEntries(
+      Object.entries(sw.evaluatorScores).map(([dimId, cell]) => {
+        const { [evaluatorId]: _removed, ...rest } = cell;
+        return [dimId, rest];
+      })
+    );
+    return { ...sw, evaluatorScores };
+  });
+  return applyEvaluatorAggregation({
+    ...data,
+    evaluators: (data.evaluators ?? []).filter(e => e.id !== evaluatorId),
+    softwares,
+  });
+};
+
+/**
+ * The data as a single evaluator scored it, for the per-evaluator view.
+ * Cells they have not scored are left out rather than filled with the
+ * aggregate, so the view never mixes in other people's opinions.
+ */
+export const projectEvaluatorView = (data: ComparisonData, evaluatorId: string): ComparisonData => ({
+  ...data,
+  softwares: data.softwares.map(sw => {
+    const scores: Record<string, number> = {};
+    data.dimensions.forEach(dim => {
+      const own = sw.evaluatorScores?.[dim.id]?.[evaluatorId];
+      if (isMeasured(sw, dim)) {
+        scores[dim.id] = sw.scores[dim.id];
+      } else if (typeof own === 'number') {
+        scores[dim.id] = own;
+      }
+    });
+    return { ...sw, scores };
+  }),
+});
+
+export const countDisagreements = (data: ComparisonData): number => {
+  const evaluators = data.evaluators ?? [];
+  const { disagreementThreshold } = getEvaluationSettings(data);
+  let count = 0;
+  data.softwares.forEach(sw => {
+    data.dimensions.forEach(dim => {
+      if (isDisagreement(getCellScores(sw, dim.id, evaluators), disagreementThreshold)) count++;
+    });
+  });
+  return count;
+};
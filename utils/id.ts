@@ -0,0 +1,2 @@
+// Simple unique ID generator
+export const generateId = () => Math.random().toString(36).substr(2, 9);
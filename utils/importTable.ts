@@ -0,0 +1,282 @@
+import { Category, ComparisonData, Dimension, Software } from '../types';
+import { DEFAULT_WEIGHT } from './scoring';
+import { normalizeRawValue } from './normalization';
+import { generateId } from './id';
+import { randomColor } from './color';
+import { unmapDimensions } from './runs';
+import { unlinkDimensions } from './detection';
+
+// A dimension row group read from an import file, values indexed by software column
+export interface ImportedDimension {
+  name: string;
+  weight?: number;
+  // Category name, matched to existing categories by name
+  category?: string;
+  scores: (number | undefined)[];
+  rawValues: (number | undefined)[];
+  descriptions: (string | undefined)[];
+}
+
+// Format-independent result of reading a CSV or spreadsheet
+export interface ImportedTable {
+  softwareNames: string[];
+  dimensions: ImportedDimension[];
+}
+
+export type MergeField = 'score' | 'raw' | 'description';
+export type ConflictChoice = 'current' | 'incoming';
+
+export interface MergeCellChange {
+  key: string;
+  softwareName: string;
+  dimensionName: string;
+  field: MergeField;
+  current?: number | string;
+  incoming: number | string;
+}
+
+// An existing dimension the file puts under another category
+export interface CategoryMove {
+  dimensionName: string;
+  from?: string;
+  to: string;
+}
+
+export interface MergePlan {
+  addedSoftwares: string[];
+  addedDimensions: string[];
+  addedCategories: string[];
+  movedDimensions: CategoryMove[];
+  // Cells that were empty before, or belong to a new software/dimension
+  updates: MergeCellChange[];
+  // Cells where both sides have a different value
+  conflicts: MergeCellChange[];
+  unchangedCount: number;
+}
+
+export const MERGE_FIELD_LABELS: Record<MergeField, string> = {
+  score: '评分',
+  raw: '实测值',
+  description: '描述',
+};
+
+const newDimensionId = (name: string) => name.toLowerCase().replace(/\s+/g, '_') + '_' + generateId();
+
+// Returns the id of the category with this name, creating it in `categories` if needed
+const categoryIdFor = (name: string, categories: Category[], added?: string[], earlier?: Category[]): string => {
+  const existing = categories.find(c => c.name === name);
+  if (existing) return existing.id;
+  const category: Category = { id: earlier?.find(c => c.name === name)?.id ?? generateId(), name };
+  categories.push(category);
+  added?.push(name);
+  return category.id;
+};
+
+const cellKey = (softwareName: string, dimensionName: string, field: MergeField) =>
+  `${softwareName}\u0000${dimensionName}\u0000${field}`;
+
+/**
+ * Builds a fresh dataset from the imported table. Softwares and dimensions
+ * are matched by name and keep their ids, so attachments, run mappings and
+ * detection links stay attached; matched softwares also keep their archived
+ * versions, trials and evaluator scores. Whatever the file no longer has is
+ * removed together with the state that refers to it.
+ */
+export const buildReplacementData = (table: ImportedTable, current: ComparisonData): ComparisonData => {
+  const categories = [...(current.categories ?? [])];
+  const usedDimensionIds = new Set<string>();
+
+  const dimensions: Dimension[] = table.dimensions.map((imported) => {
+    const existingDim = current.dimensions.find(d => d.name === imported.name && !usedDimensionIds.has(d.id));
+    const id = existingDim ? existingDim.id : newDimensionId(imported.name);
+    usedDimensionIds.add(id);
+    return {
+      id,
+      name: imported.name,
+      weight: imported.weight ?? DEFAULT_WEIGHT,
+      unit: existingDim?.unit,
+      lowerIsBetter: existingDim?.lowerIsBetter,
+      normalization: existingDim?.normalization,
+      categoryId: imported.category !== undefined
+        ? categoryIdFor(imported.category, categories)
+        : existingDim?.categoryId,
+    };
+  });
+
+  const keptCells = <T,>(cells: Record<string, T> | undefined): Record<string, T> =>
+    Object.fromEntries(Object.entries(cells ?? {}).filter(([dimId]) => usedDimensionIds.has(dimId)));
+
+  const softwares: Software[] = table.softwareNames.map((name, index) => {
+    const existing = current.softwares.find(s => s.name === name);
+    const sw: Software = existing
+      ? {
+          ...existing,
+          scores: {},
+          descriptions: {},
+          rawValues: {},
+          evaluatorScores: keptCells(existing.evaluatorScores),
+        }
+      : { id: generateId(), name, color: randomColor(), scores: {}, descriptions: {}, rawValues: {} };
+    table.dimensions.forEach((imported, dimIndex) => {
+      const dimId = dimensions[dimIndex].id;
+      const score = imported.scores[index];
+      const raw = imported.rawValues[index];
+      const description = imported.descriptions[index];
+      if (score !== undefined) sw.scores[dimId] = score;
+      if (raw !== undefined) sw.rawValues![dimId] = raw;
+      if (description !== undefined) sw.descriptions[dimId] = description;
+    });
+    if (existing?.trials) {
+      // Trials back the cell value, so they only stay where the file keeps that value
+      sw.trials = Object.fromEntries(Object.entries(keptCells(existing.trials)).filter(([dimId]) => {
+        const dim = dimensions.find(d => d.id === dimId)!;
+        return dim.normalization
+          ? sw.rawValues![dimId] === existing.rawValues?.[dimId]
+          : sw.scores[dimId] === existing.scores[dimId];
+      }));
+    }
+    return sw;
+  });
+
+  const removedDimensionIds = current.dimensions.map(d => d.id).filter(id => !usedDimensionIds.has(id));
+  const softwareIds = new Set(softwares.map(sw => sw.id));
+  const next: ComparisonData = {
+    ...current,
+    dimensions,
+    softwares,
+    categories,
+    runs: current.runs?.filter(run => softwareIds.has(run.softwareId)),
+    detection: current.detection && {
+      ...current.detection,
+      verdicts: Object.fromEntries(Object.entries(current.detection.verdicts).filter(([swId]) => softwareIds.has(swId))),
+    },
+  };
+  return unlinkDimensions(unmapDimensions(next, removedDimensionIds), removedDimensionIds);
+};
+
+/**
+ * Merges the imported table into the current data by software and
+ * dimension name. Conflicting cells use `resolutions`, defaulting to the
+ * incoming value. Returns the plan alongside the merged data so the
+ * preview and the applied result can never disagree. New softwares and
+ * dimensions reuse their id and color from `previous`, an earlier merge of
+ * the same table, so changing resolutions doesn't reshuffle them.
+ */
+export const mergeImportedTable = (
+  table: ImportedTable,
+  current: ComparisonData,
+  resolutions: Record<string, ConflictChoice> = {},
+  previous?: ComparisonData
+): { plan: MergePlan; data: ComparisonData } => {
+  const plan: MergePlan = {
+    addedSoftwares: [],
+    addedDimensions: [],
+    addedCategories: [],
+    movedDimensions: [],
+    updates: [],
+    conflicts: [],
+    unchangedCount: 0,
+  };
+
+  const softwares: Software[] = current.softwares.map(sw => ({
+    ...sw,
+    scores: { ...sw.scores },
+    descriptions: { ...(sw.descriptions || {}) },
+    rawValues: { ...(sw.rawValues || {}) },
+  }));
+  const dimensions: Dimension[] = [...current.dimensions];
+  const categories = [...(current.categories ?? [])];
+
+  const columnSoftwares = table.softwareNames.map((name) => {
+    let sw = softwares.find(s => s.name === name);
+    if (!sw) {
+      const earlier = previous?.softwares.find(s => s.name === name);
+      sw = {
+        id: earlier ? earlier.id : generateId(),
+        name,
+        color: earlier ? earlier.color : randomColor(),
+        scores: {},
+        descriptions: {},
+        rawValues: {},
+      };
+      softwares.push(sw);
+      plan.addedSoftwares.push(name);
+    }
+    return sw;
+  });
+
+  table.dimensions.forEach((imported) => {
+    const categoryId = imported.category !== undefined
+      ? categoryIdFor(imported.category, categories, plan.addedCategories, previous?.categories)
+      : undefined;
+    let dim = dimensions.find(d => d.name === imported.name);
+    if (!dim) {
+      dim = {
+        id: previous?.dimensions.find(d => d.name === imported.name)?.id ?? newDimensionId(imported.name),
+        name: imported.name,
+        weight: imported.weight ?? DEFAULT_WEIGHT,
+        categoryId,
+      };
+      dimensions.push(dim);
+      plan.addedDimensions.push(imported.name);
+    } else if (categoryId !== undefined && dim.categoryId !== categoryId) {
+      // The file's grouping wins, like its weights do for new dimensions
+      plan.movedDimensions.push({
+        dimensionName: dim.name,
+        from: categories.find(c => c.id === dim!.categoryId)?.name,
+        to: imported.category!,
+      });
+      const moved: Dimension = { ...dim, categoryId };
+      dimensions[dimensions.indexOf(dim)] = moved;
+      dim = moved;
+    }
+    const dimId = dim.id;
+    const scoringDim = dim;
+
+    columnSoftwares.forEach((sw, index) => {
+      const written = new Set<MergeField>();
+      let scoreDecided = false;
+      const cells: { field: MergeField; incoming: number | string | undefined; current: number | string | undefined }[] = [
+        { field: 'score', incoming: imported.scores[index], current: sw.scores[dimId] },
+        { field: 'raw', incoming: imported.rawValues[index], current: sw.rawValues![dimId] },
+        { field: 'description', incoming: imported.descriptions[index] || undefined, current: sw.descriptions[dimId] || undefined },
+      ];
+
+      cells.forEach(({ field, incoming, current: currentValue }) => {
+        if (incoming === undefined) return;
+        if (incoming === currentValue) {
+          plan.unchangedCount++;
+          return;
+        }
+        const change: MergeCellChange = {
+          key: cellKey(sw.name, imported.name, field),
+          softwareName: sw.name,
+          dimensionName: imported.name,
+          field,
+          current: currentValue,
+          incoming,
+        };
+        if (currentValue === undefined) {
+          plan.updates.push(change);
+        } else {
+          plan.conflicts.push(change);
+          if (field === 'score') scoreDecided = true;
+          if (resolutions[change.key] === 'current') return;
+        }
+        written.add(field);
+        if (field === 'score') sw.scores[dimId] = incoming as number;
+        else if (field === 'raw') sw.rawValues![dimId] = incoming as number;
+        else sw.descriptions[dimId] = incoming as string;
+      });
+
+      // A raw value taken from the file rescores its cell, unless the file's score was
+      // taken too or the user settled a score conflict
+      if (scoringDim.normalization && written.has('raw') && !written.has('score') && !scoreDecided) {
+        const score = normalizeRawValue(sw.rawValues![dimId], scoringDim);
+        if (score !== null) sw.scores[dimId] = score;
+      }
+    });
+  });
+
+  return { plan, data: { ...current, dimensions, softwares, categories } };
+};
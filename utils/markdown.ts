@@ -0,0 +1,33 @@
+const FENCE = /^\s{0,3}(```|~~~)/;
+
+/**
+ * Turns single line breaks into Markdown hard breaks, outside fenced code
+ * blocks. Descriptions were plain text before they became Markdown, so a
+ * new line has always meant a new line.
+ */
+export const preserveLineBreaks = (markdown: string): string => {
+  const lines = markdown.trim().split(/\r?\n/);
+  let inFence = false;
+  return lines
+    .map((line, i) => {
+      if (FENCE.test(line)) {
+        inFence = !inFence;
+        return line;
+      }
+      const next = lines[i + 1];
+      const breaks = !inFence && line.trim() !== '' && next !== undefined && next.trim() !== '' && !FENCE.test(next);
+      return breaks ? `${line.replace(/\s+$/, '')}  ` : line;
+    })
+    .join('\n');
+};
+
+// One-line summary of a Markdown description for places too small to render it
+export const markdownToPlainText = (markdown: string): string =>
+  markdown
+    .replace(/^\s{0,3}(```|~~~).*$/gm, '')
+    .replace(/!\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/^\s{0,3}(#{1,6}\s+|>\s?|[-*+]\s+(\[[ xX]\]\s+)?|\d+[.)]\s+)/gm, '')
+    .replace(/(\*\*|__|~~|`)/g, '')
+    .replace(/\s+/g, ' ')
+    .trim();
@@ -0,0 +1,70 @@
+import { Dimension, NormalizationRule, ScoreThreshold, Software } from '../types';
+
+export const NORMALIZATION_LABELS: Record<NormalizationRule['type'], string> = {
+  linear: '线性',
+  log: '对数',
+  thresholds: '阈值',
+};
+
+const clamp01 = (value: number) => Math.max(0, Math.min(1, value));
+
+// Scores are kept to one decimal so the table doesn't show float noise
+const roundScore = (value: number) => Math.round(value * 10) / 10;
+
+// Strictest threshold first: the highest value, or the lowest when lower is better
+export const sortThresholds = (thresholds: ScoreThreshold[], lowerIsBetter?: boolean): ScoreThreshold[] =>
+  [...thresholds].sort((a, b) => (lowerIsBetter ? a.value - b.value : b.value - a.value));
+
+/**
+ * Converts a raw measurement into a 0-10 score using the dimension's rule.
+ * Returns null when the dimension has no rule or the rule is unusable.
+ */
+export const normalizeRawValue = (raw: number, dim: Dimension): number | null => {
+  const rule = dim.normalization;
+  if (!rule || !Number.isFinite(raw)) return null;
+
+  switch (rule.type) {
+    case 'linear':
+    case 'log': {
+      if (rule.max === rule.min) return null;
+      let position: number;
+      if (rule.type === 'linear') {
+        position = (raw - rule.min) / (rule.max - rule.min);
+      } else {
+        if (rule.min <= 0 || rule.max <= 0) return null;
+        position = raw <= 0
+          ? 0
+          : (Math.log(raw) - Math.log(rule.min)) / (Math.log(rule.max) - Math.log(rule.min));
+      }
+      const t = clamp01(position);
+      return roundScore(10 * (dim.lowerIsBetter ? 1 - t : t));
+    }
+    case 'thresholds': {
+      const match = sortThresholds(rule.thresholds, dim.lowerIsBetter).find((th) =>
+        dim.lowerIsBetter ? raw <= th.value : raw >= th.value
+      );
+      return match ? Math.max(0, Math.min(10, match.score)) : 0;
+    }
+    default:
+      return null;
+  }
+};
+
+// Recomputes the scores of every software that has a raw value for this dimension
+export const applyNormalization = (softwares: Software[], dim: Dimension): Software[] =>
+  softwares.map((sw) => {
+    const raw = sw.rawValues?.[dim.id];
+    if (raw === undefined) return sw;
+    const score = normalizeRawValue(raw, dim);
+    if (score === null) return sw;
+    return { ...sw, scores: { ...sw.scores, [dim.id]: score } };
+  });
+
+// Short human readable summary shown under the dimension name
+export const describeNormalization = (dim: Dimension): string => {
+  const parts: string[] = [];
+  if (dim.unit) parts.push(dim.unit);
+  if (dim.lowerIsBetter) parts.push('越低越好');
+  if (dim.normalization) parts.push(NORMALIZATION_LABELS[dim.normalization.type]);
+  return parts.join(' · ');
+};
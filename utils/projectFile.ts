@@ -0,0 +1,412 @@
+import { ComparisonData, Snapshot } from '../types';
+
+export const PROJECT_FILE_FORMAT = 'av-benchmark-pro';
+// 2: evaluators, runs, detection tests, trials and product versions
+export const PROJECT_FILE_VERSION = 2;
+
+// Upgrades a file of the given version to the next one
+const MIGRATIONS: Record<number, (root: Record<string, unknown>) => Record<string, unknown>> = {
+  // Version 2 only added optional data, so a version 1 file is already valid
+  1: root => ({ ...root, version: 2 }),
+};
+
+export interface ProjectFile {
+  format: typeof PROJECT_FILE_FORMAT;
+  version: number;
+  exportedAt: string;
+  project: {
+    name: string;
+    createdAt?: string;
+  };
+  data: ComparisonData;
+  snapshots?: Snapshot[];
+}
+
+// file is null whenever errors is non-empty
+export interface ProjectFileParseResult {
+  file: ProjectFile | null;
+  errors: string[];
+}
+
+export const buildProjectFile = (
+  name: string,
+  data: ComparisonData,
+  snapshots: Snapshot[],
+  createdAt?: string
+): ProjectFile => ({
+  format: PROJECT_FILE_FORMAT,
+  version: PROJECT_FILE_VERSION,
+  exportedAt: new Date().toISOString(),
+  project: { name, createdAt },
+  data,
+  snapshots,
+});
+
+// --- Validation ---
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isFiniteNumber = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value);
+
+const validateNormalization = (rule: unknown, path: string, errors: string[]) => {
+  if (!isObject(rule)) {
+    errors.push(`${path}: 应为对象`);
+    return;
+  }
+  if (rule.type === 'linear' || rule.type === 'log') {
+    if (!isFiniteNumber(rule.min)) errors.push(`${path}.min: 应为数字`);
+    if (!isFiniteNumber(rule.max)) errors.push(`${path}.max: 应为数字`);
+  } else if (rule.type === 'thresholds') {
+    if (!Array.isArray(rule.thresholds)) {
+      errors.push(`${path}.thresholds: 应为数组`);
+      return;
+    }
+    rule.thresholds.forEach((th, i) => {
+      if (!isObject(th) || !isFiniteNumber(th.value) || !isFiniteNumber(th.score)) {
+        errors.push(`${path}.thresholds[${i}]: 应包含数字 value 与 score`);
+      }
+    });
+  } else {
+    errors.push(`${path}.type: 未知的换算规则 "${String(rule.type)}"`);
+  }
+};
+
+const validateDimension = (dim: unknown, path: string, errors: string[]) => {
+  if (!isObject(dim)) {
+    errors.push(`${path}: 应为对象`);
+    return;
+  }
+  if (typeof dim.id !== 'string' || !dim.id) errors.push(`${path}.id: 应为非空字符串`);
+  if (typeof dim.name !== 'string') errors.push(`${path}.name: 应为字符串`);
+  if (dim.description !== undefined && typeof dim.description !== 'string') {
+    errors.push(`${path}.description: 应为字符串`);
+  }
+  if (dim.weight !== undefined && (!isFiniteNumber(dim.weight) || dim.weight < 0)) {
+    errors.push(`${path}.weight: 应为非负数字`);
+  }
+  if (dim.unit !== undefined && typeof dim.unit !== 'string') errors.push(`${path}.unit: 应为字符串`);
+  if (dim.lowerIsBetter !== undefined && typeof dim.lowerIsBetter !== 'boolean') {
+    errors.push(`${path}.lowerIsBetter: 应为布尔值`);
+  }
+  if (dim.normalization !== undefined) {
+    validateNormalization(dim.normalization, `${path}.normalization`, errors);
+  }
+  if (dim.categoryId !== undefined && typeof dim.categoryId !== 'string') {
+    errors.push(`${path}.categoryId: 应为字符串`);
+  }
+};
+
+// Categories and evaluators are both plain id/name pairs
+const validateNamedItem = (item: unknown, path: string, errors: string[]) => {
+  if (!isObject(item)) {
+    errors.push(`${path}: 应为对象`);
+    return;
+  }
+  if (typeof item.id !== 'string' || !item.id) errors.push(`${path}.id: 应为非空字符串`);
+  if (typeof item.name !== 'string') errors.push(`${path}.name: 应为字符串`);
+};
+
+const validateNumberMap = (
+  map: unknown,
+  path: string,
+  errors: string[],
+  range?: [number, number]
+) => {
+  if (!isObject(map)) {
+    errors.push(`${path}: 应为对象`);
+    return;
+  }
+  Object.entries(map).forEach(([key, value]) => {
+    if (!isFiniteNumber(value)) {
+      errors.push(`${path}.${key}: 应为数字`);
+    } else if (range && (value < range[0] || value > range[1])) {
+      errors.push(`${path}.${key}: 应在 ${range[0]}-${range[1]} 之间`);
+    }
+  });
+};
+
+const validateSoftware = (sw: unknown, path: string, errors: string[]) => {
+  if (!isObject(sw)) {
+    errors.push(`${path}: 应为对象`);
+    return;
+  }
+  if (typeof sw.id !== 'string' || !sw.id) errors.push(`${path}.id: 应为非空字符串`);
+  if (typeof sw.name !== 'string') errors.push(`${path}.name: 应为字符串`);
+  if (typeof sw.color !== 'string') errors.push(`${path}.color: 应为字符串`);
+  validateNumberMap(sw.scores, `${path}.scores`, errors, [0, 10]);
+  if (!isObject(sw.descriptions)) {
+    errors.push(`${path}.descriptions: 应为对象`);
+  } else {
+    Object.entries(sw.descriptions).forEach(([key, value]) => {
+      if (typeof value !== 'string') errors.push(`${path}.descriptions.${key}: 应为字符串`);
+    });
+  }
+  if (sw.rawValues !== undefined) validateNumberMap(sw.rawValues, `${path}.rawValues`, errors);
+  if (sw.evaluatorScores !== undefined) {
+    if (!isObject(sw.evaluatorScores)) {
+      errors.push(`${path}.evaluatorScores: 应为对象`);
+    } else {
+      Object.entries(sw.evaluatorScores).forEach(([key, cell]) =>
+        validateNumberMap(cell, `${path}.evaluatorScores.${key}`, errors, [0, 10])
+      );
+    }
+  }
+  if (sw.trials !== undefined) {
+    if (!isObject(sw.trials)) {
+      errors.push(`${path}.trials: 应为对象`);
+    } else {
+      Object.entries(sw.trials).forEach(([key, values]) => {
+        if (!Array.isArray(values) || !values.every(isFiniteNumber)) {
+          errors.push(`${path}.trials.${key}: 应为数字数组`);
+        }
+      });
+    }
+  }
+  if (sw.version !== undefined && typeof sw.version !== 'string') errors.push(`${path}.version: 应为字符串`);
+  if (sw.testedAt !== undefined && typeof sw.testedAt !== 'string') errors.push(`${path}.testedAt: 应为字符串`);
+  if (sw.versions !== undefined) {
+    if (!Array.isArray(sw.versions)) {
+      errors.push(`${path}.versions: 应为数组`);
+    } else {
+      sw.versions.forEach((version, i) => validateVersion(version, `${path}.versions[${i}]`, errors));
+    }
+  }
+};
+
+const validateVersion = (version: unknown, path: string, errors: string[]) => {
+  if (!isObject(version)) {
+    errors.push(`${path}: 应为对象`);
+    return;
+  }
+  if (typeof version.id !== 'string' || !version.id) errors.push(`${path}.id: 应为非空字符串`);
+  if (typeof version.version !== 'string') errors.push(`${path}.version: 应为字符串`);
+  if (version.testedAt !== undefined && typeof version.testedAt !== 'string') errors.push(`${path}.testedAt: 应为字符串`);
+  validateNumberMap(version.scores, `${path}.scores`, errors, [0, 10]);
+  if (version.rawValues !== undefined) validateNumberMap(version.rawValues, `${path}.rawValues`, errors);
+  if (!isObject(version.descriptions)) errors.push(`${path}.descriptions: 应为对象`);
+};
+
+const validateEvaluation = (settings: unknown, path: string, errors: string[]) => {
+  if (!isObject(settings)) {
+    errors.push(`${path}: 应为对象`);
+    return;
+  }
+  if (!['mean', 'median', 'trimmedMean'].includes(settings.method as string)) {
+    errors.push(`${path}.method: 未知的汇总方式 "${String(settings.method)}"`);
+  }
+  if (!isFiniteNumber(settings.disagreementThreshold) || settings.disagreementThreshold < 0) {
+    errors.push(`${path}.disagreementThreshold: 应为非负数字`);
+  }
+};
+
+const validateStringMap = (map: unknown, path: string, errors: string[], allowed?: string[]) => {
+  if (!isObject(map)) {
+    errors.push(`${path}: 应为对象`);
+    return;
+  }
+  Object.entries(map).forEach(([key, value]) => {
+    if (typeof value !== 'string') errors.push(`${path}.${key}: 应为字符串`);
+    else if (allowed && !allowed.includes(value)) errors.push(`${path}.${key}: 未知的值 "${value}"`);
+  });
+};
+
+const RUN_AGGREGATIONS = ['mean', 'median', 'best'];
+
+const validateRun = (run: unknown, path: string, errors: string[]) => {
+  if (!isObject(run)) {
+    errors.push(`${path}: 应为对象`);
+    return;
+  }
+  if (typeof run.id !== 'string' || !run.id) errors.push(`${path}.id: 应为非空字符串`);
+  if (typeof run.softwareId !== 'string') errors.push(`${path}.softwareId: 应为字符串`);
+  if (typeof run.label !== 'string') errors.push(`${path}.label: 应为字符串`);
+  if (typeof run.source !== 'string') errors.push(`${path}.source: 应为字符串`);
+  if (run.startedAt !== undefined && typeof run.startedAt !== 'string') {
+    errors.push(`${path}.startedAt: 应为字符串`);
+  }
+  validateNumberMap(run.metrics, `${path}.metrics`, errors);
+};
+
+const validateRunSettings = (settings: unknown, path: string, errors: string[]) => {
+  if (!isObject(settings)) {
+    errors.push(`${path}: 应为对象`);
+    return;
+  }
+  if (!RUN_AGGREGATIONS.includes(settings.aggregation as string)) {
+    errors.push(`${path}.aggregation: 未知的汇总方式 "${String(settings.aggregation)}"`);
+  }
+  validateStringMap(settings.mappings, `${path}.mappings`, errors);
+};
+
+const VERDICTS = ['detected', 'missed', 'late'];
+
+const validateSamples = (samples: unknown, path: string, errors: string[], required: string[]) => {
+  if (!Array.isArray(samples)) {
+    errors.push(`${path}: 应为数组`);
+    return;
+  }
+  samples.forEach((sample, i) => {
+    if (!isObject(sample)) {
+      errors.push(`${path}[${i}]: 应为对象`);
+      return;
+    }
+    required.forEach((field) => {
+      if (typeof sample[field] !== 'string') errors.push(`${path}[${i}].${field}: 应为字符串`);
+    });
+  });
+};
+
+const validateDetection = (test: unknown, path: string, errors: string[]) => {
+  if (!isObject(test)) {
+    errors.push(`${path}: 应为对象`);
+    return;
+  }
+  validateSamples(test.samples, `${path}.samples`, errors, ['hash', 'family', 'category']);
+  validateSamples(test.cleanSamples, `${path}.cleanSamples`, errors, ['hash']);
+  if (!isObject(test.verdicts)) {
+    errors.push(`${path}.verdicts: 应为对象`);
+  } else {
+    Object.entries(test.verdicts).forEach(([key, map]) =>
+      validateStringMap(map, `${path}.verdicts.${key}`, errors, VERDICTS)
+    );
+  }
+  if (!isFiniteNumber(test.lateCredit) || test.lateCredit < 0 || test.lateCredit > 1) {
+    errors.push(`${path}.lateCredit: 应在 0-1 之间`);
+  }
+  if (!isObject(test.links)) {
+    errors.push(`${path}.links: 应为对象`);
+  } else {
+    ['overall', 'falsePositive'].forEach((key) => {
+      const value = (test.links as Record<string, unknown>)[key];
+      if (value !== undefined && typeof value !== 'string') errors.push(`${path}.links.${key}: 应为字符串`);
+    });
+    validateStringMap(test.links.categories, `${path}.links.categories`, errors);
+  }
+};
+
+const checkUniqueIds = (items: unknown[], path: string, errors: string[]) => {
+  const seen = new Set<string>();
+  items.forEach((item, i) => {
+    if (isObject(item) && typeof item.id === 'string') {
+      if (seen.has(item.id)) errors.push(`${path}[${i}].id: 重复的 id "${item.id}"`);
+      seen.add(item.id);
+    }
+  });
+};
+
+// Also used for datasets that arrive without a project file, e.g. share links
+export const validateComparisonData = (data: unknown, path: string, errors: string[]) => {
+  if (!isObject(data)) {
+    errors.push(`${path}: 应为对象`);
+    return;
+  }
+  if (!Array.isArray(data.dimensions)) {
+    errors.push(`${path}.dimensions: 应为数组`);
+  } else {
+    data.dimensions.forEach((dim, i) => validateDimension(dim, `${path}.dimensions[${i}]`, errors));
+    checkUniqueIds(data.dimensions, `${path}.dimensions`, errors);
+  }
+  if (!Array.isArray(data.softwares)) {
+    errors.push(`${path}.softwares: 应为数组`);
+  } else {
+    data.softwares.forEach((sw, i) => validateSoftware(sw, `${path}.softwares[${i}]`, errors));
+    checkUniqueIds(data.softwares, `${path}.softwares`, errors);
+  }
+  if (data.categories !== undefined) {
+    if (!Array.isArray(data.categories)) {
+      errors.push(`${path}.categories: 应为数组`);
+    } else {
+      data.categories.forEach((c, i) => validateNamedItem(c, `${path}.categories[${i}]`, errors));
+      checkUniqueIds(data.categories, `${path}.categories`, errors);
+    }
+  }
+  if (data.evaluators !== undefined) {
+    if (!Array.isArray(data.evaluators)) {
+      errors.push(`${path}.evaluators: 应为数组`);
+    } else {
+      data.evaluators.forEach((e, i) => validateNamedItem(e, `${path}.evaluators[${i}]`, errors));
+      checkUniqueIds(data.evaluators, `${path}.evaluators`, errors);
+    }
+  }
+  if (data.evaluation !== undefined) validateEvaluation(data.evaluation, `${path}.evaluation`, errors);
+  if (data.runs !== undefined) {
+    if (!Array.isArray(data.runs)) {
+      errors.push(`${path}.runs: 应为数组`);
+    } else {
+      data.runs.forEach((run, i) => validateRun(run, `${path}.runs[${i}]`, errors));
+      checkUniqueIds(data.runs, `${path}.runs`, errors);
+    }
+  }
+  if (data.runSettings !== undefined) validateRunSettings(data.runSettings, `${path}.runSettings`, errors);
+  if (data.detection !== undefined) validateDetection(data.detection, `${path}.detection`, errors);
+};
+
+// Brings an older file up to the current version, null when there is no upgrade path
+const upgradeProjectFile = (root: Record<string, unknown>, version: number): Record<string, unknown> | null => {
+  let upgraded = root;
+  for (let from = version; from < PROJECT_FILE_VERSION; from++) {
+    const migrate = MIGRATIONS[from];
+    if (!migrate) return null;
+    upgraded = migrate(upgraded);
+  }
+  return upgraded;
+};
+
+/**
+ * Parses and validates a JSON project file. All problems are collected so
+ * the user can fix the file in one go instead of one error at a time.
+ */
+export const parseProjectFile = (text: string): ProjectFileParseResult => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch (e) {
+    return { file: null, errors: [`不是有效的 JSON：${(e as Error).message}`] };
+  }
+
+  if (!isObject(parsed) || parsed.format !== PROJECT_FILE_FORMAT) {
+    return { file: null, errors: ['不是 AV Benchmark Pro 项目文件（缺少 format 标识）'] };
+  }
+  if (!isFiniteNumber(parsed.version)) {
+    return { file: null, errors: ['version: 应为数字'] };
+  }
+  if (parsed.version > PROJECT_FILE_VERSION) {
+    return {
+      file: null,
+      errors: [`文件版本 ${parsed.version} 高于当前支持的版本 ${PROJECT_FILE_VERSION}，请升级应用后再导入`],
+    };
+  }
+  const root = upgradeProjectFile(parsed, parsed.version);
+  if (!root) {
+    return { file: null, errors: [`不支持的文件版本 ${parsed.version}`] };
+  }
+
+  const errors: string[] = [];
+  if (!isObject(root.project) || typeof root.project.name !== 'string') {
+    errors.push('project.name: 应为字符串');
+  }
+  validateComparisonData(root.data, 'data', errors);
+
+  if (root.snapshots !== undefined) {
+    if (!Array.isArray(root.snapshots)) {
+      errors.push('snapshots: 应为数组');
+    } else {
+      root.snapshots.forEach((snapshot, i) => {
+        const path = `snapshots[${i}]`;
+        if (!isObject(snapshot)) {
+          errors.push(`${path}: 应为对象`);
+          return;
+        }
+        if (typeof snapshot.id !== 'string') errors.push(`${path}.id: 应为字符串`);
+        if (typeof snapshot.name !== 'string') errors.push(`${path}.name: 应为字符串`);
+        if (typeof snapshot.createdAt !== 'string') errors.push(`${path}.createdAt: 应为字符串`);
+        validateComparisonData(snapshot.data, `${path}.data`, errors);
+      });
+    }
+  }
+
+  if (errors.length > 0) return { file: null, errors };
+  return { file: root as unknown as ProjectFile, errors: [] };
+};
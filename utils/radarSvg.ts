@@ -0,0 +1,224 @@
+import { ComparisonData } from '../types';
+import { toHex } from './color';
+
+export type ChartTheme = 'dark' | 'light';
+
+export interface RadarSvgOptions {
+  width: number;
+  theme: ChartTheme;
+  showLegend: boolean;
+  title?: string;
+  subtitle?: string;
+}
+
+interface ThemeColors {
+  background: string;
+  title: string;
+  subtitle: string;
+  grid: string;
+  label: string;
+  legendText: string;
+  legendPill: string;
+  legendBorder: string;
+}
+
+// Same palette as the on-screen chart (gray-800 card) and its light counterpart
+const THEMES: Record<ChartTheme, ThemeColors> = {
+  dark: {
+    background: '#1f2937',
+    title: '#e5e7eb',
+    subtitle: '#9ca3af',
+    grid: '#374151',
+    label: '#9ca3af',
+    legendText: '#d1d5db',
+    legendPill: '#111827',
+    legendBorder: '#374151',
+  },
+  light: {
+    background: '#ffffff',
+    title: '#111827',
+    subtitle: '#6b7280',
+    grid: '#d1d5db',
+    label: '#4b5563',
+    legendText: '#1f2937',
+    legendPill: '#f3f4f6',
+    legendBorder: '#e5e7eb',
+  },
+};
+
+const GRID_LEVELS = [2.5, 5, 7.5, 10];
+// Sizes below are for this width and scale with the requested one
+const BASE_WIDTH = 720;
+const LABEL_FONT = 12;
+const LEGEND_FONT = 13;
+const LEGEND_PILL_HEIGHT = 28;
+const LEGEND_GAP = 12;
+const TITLE_FONT = 20;
+const SUBTITLE_FONT = 13;
+
+const escapeXml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// Rough text width without a DOM: CJK glyphs are square, latin ones about 0.6em
+const estimateTextWidth = (text: string, fontSize: number) =>
+  Array.from(text).reduce((sum, ch) => sum + (ch.charCodeAt(0) > 0x2e80 ? fontSize : fontSize * 0.6), 0);
+
+const round = (n: number) => Math.round(n * 10) / 10;
+
+// Lays out legend pills in centered, wrapping rows and returns the markup and height
+const renderLegend = (data: ComparisonData, width: number, top: number, colors: ThemeColors, k: number) => {
+  const font = LEGEND_FONT * k;
+  const pillHeight = LEGEND_PILL_HEIGHT * k;
+  const gap = LEGEND_GAP * k;
+  const maxRowWidth = width - 32 * k;
+  const pills = data.softwares.map(sw => ({
+    sw,
+    width: (12 + 10 + 8 + 14) * k + estimateTextWidth(sw.name, font),
+  }));
+
+  const rows: typeof pills[] = [];
+  pills.forEach(pill => {
+    const row = rows[rows.length - 1];
+    const rowWidth = row ? row.reduce((sum, p) => sum + p.width + gap, -gap) : 0;
+    if (!row || rowWidth + gap + pill.width > maxRowWidth) {
+      rows.push([pill]);
+    } else {
+      row.push(pill);
+    }
+  });
+
+  const parts: string[] = [];
+  rows.forEach((row, rowIndex) => {
+    const rowWidth = row.reduce((sum, p) => sum + p.width + gap, -gap);
+    let x = (width - rowWidth) / 2;
+    const y = round(top + rowIndex * (pillHeight + 8 * k));
+    const mid = round(y + pillHeight / 2);
+    row.forEach(({ sw, width: pillWidth }) => {
+      parts.push(
+        `<rect x="${round(x)}" y="${y}" width="${round(pillWidth)}" height="${round(pillHeight)}" rx="${round(pillHeight / 2)}" fill="${colors.legendPill}" stroke="${colors.legendBorder}"/>`,
+        `<circle cx="${round(x + 18 * k)}" cy="${mid}" r="${round(6 * k)}" fill="${toHex(sw.color)}"/>`,
+        `<text x="${round(x + 30 * k)}" y="${mid}" dominant-baseline="central" font-size="${round(font)}" font-weight="500" fill="${colors.legendText}">${escapeXml(sw.name)}</text>`
+      );
+      x += pillWidth + gap;
+    });
+  });
+
+  const height = rows.length > 0 ? rows.length * (pillHeight + 8 * k) - 8 * k : 0;
+  return { markup: parts.join(''), height };
+};
+
+/**
+ * Draws the radar chart as a standalone SVG string, mirroring RadarChartVis:
+ * first dimension at the top going clockwise, 0-10 scale, translucent fills
+ * and the pill legend underneath, with an optional title block on top.
+ */
+export const buildRadarSvg = (data: ComparisonData, options: RadarSvgOptions): string => {
+  const { width, theme, showLegend, title, subtitle } = options;
+  const colors = THEMES[theme];
+  const { dimensions, softwares } = data;
+  const k = width / BASE_WIDTH;
+
+  const parts: string[] = [];
+
+  let header = 0;
+  if (title?.trim()) {
+    header += 28 * k;
+    parts.push(
+      `<text x="${width / 2}" y="${round(header)}" text-anchor="middle" font-size="${round(TITLE_FONT * k)}" font-weight="700" fill="${colors.title}">${escapeXml(title.trim())}</text>`
+    );
+  }
+  if (subtitle?.trim()) {
+    header += (title?.trim() ? 22 : 24) * k;
+    parts.push(
+      `<text x="${width / 2}" y="${round(header)}" text-anchor="middle" font-size="${round(SUBTITLE_FONT * k)}" fill="${colors.subtitle}">${escapeXml(subtitle.trim())}</text>`
+    );
+  }
+
+  const chartSize = Math.round(width * 0.75);
+  const cx = width / 2;
+  const cy = header + chartSize / 2 + 16 * k;
+  const radius = chartSize * 0.36;
+  const count = dimensions.length;
+
+  const pointAt = (index: number, value: number): [number, number] => {
+    const angle = -Math.PI / 2 + (2 * Math.PI * index) / Math.max(count, 1);
+    const r = (Math.max(0, Math.min(10, value)) / 10) * radius;
+    return [round(cx + r * Math.cos(angle)), round(cy + r * Math.sin(angle))];
+  };
+  const polygon = (values: number[]) => values.map((v, i) => pointAt(i, v).join(',')).join(' ');
+
+  if (count >= 3) {
+    GRID_LEVELS.forEach(level => {
+      parts.push(`<polygon points="${polygon(dimensions.map(() => level))}" fill="none" stroke="${colors.grid}"/>`);
+    });
+  } else {
+    GRID_LEVELS.forEach(level => {
+      parts.push(`<circle cx="${cx}" cy="${round(cy)}" r="${round((level / 10) * radius)}" fill="none" stroke="${colors.grid}"/>`);
+    });
+  }
+
+  dimensions.forEach((dim, i) => {
+    const [x, y] = pointAt(i, 10);
+    parts.push(`<line x1="${cx}" y1="${round(cy)}" x2="${x}" y2="${y}" stroke="${colors.grid}"/>`);
+
+    const angle = -Math.PI / 2 + (2 * Math.PI * i) / count;
+    const lx = round(cx + (radius + 16 * k) * Math.cos(angle));
+    const ly = round(cy + (radius + 16 * k) * Math.sin(angle));
+    const cos = Math.cos(angle);
+    const anchor = Math.abs(cos) < 0.1 ? 'middle' : cos > 0 ? 'start' : 'end';
+    parts.push(
+      `<text x="${lx}" y="${ly}" text-anchor="${anchor}" dominant-baseline="central" font-size="${round(LABEL_FONT * k)}" fill="${colors.label}">${escapeXml(dim.name)}</text>`
+    );
+  });
+
+  softwares.forEach(sw => {
+    const color = toHex(sw.color);
+    parts.push(
+      `<polygon points="${polygon(dimensions.map(dim => sw.scores[dim.id] || 0))}" fill="${color}" fill-opacity="0.1" stroke="${color}" stroke-width="${round(1.5 * k)}"/>`
+    );
+  });
+
+  let height = round(header + chartSize + 32 * k);
+  if (showLegend && softwares.length > 0) {
+    const legend = renderLegend(data, width, height, colors, k);
+    parts.push(legend.markup);
+    height = Math.ceil(height + legend.height + 24 * k);
+  }
+
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}" font-family="system-ui, -apple-system, 'Segoe UI', 'PingFang SC', 'Microsoft YaHei', sans-serif">`,
+    `<rect width="100%" height="100%" fill="${colors.background}"/>`,
+    ...parts,
+    '</svg>',
+  ].join('');
+};
+
+/**
+ * Rasterizes an SVG string to a PNG blob. `pixelRatio` multiplies the SVG's
+ * own size so exports stay sharp on slides and high-DPI screens.
+ */
+export const svgToPngBlob = (svg: string, pixelRatio: number): Promise<Blob> =>
+  new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(new Blob([svg], { type: 'image/svg+xml;charset=utf-8' }));
+    const image = new Image();
+    image.onload = () => {
+      const canvas = document.createElement('canvas');
+      canvas.width = Math.round(image.width * pixelRatio);
+      canvas.height = Math.round(image.height * pixelRatio);
+      const context = canvas.getContext('2d');
+      if (!context) {
+        URL.revokeObjectURL(url);
+        reject(new Error('Canvas is not supported'));
+        return;
+      }
+      context.scale(pixelRatio, pixelRatio);
+      context.drawImage(image, 0, 0);
+      URL.revokeObjectURL(url);
+      canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error('PNG encoding failed'))), 'image/png');
+    };
+    image.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error('SVG could not be loaded'));
+    };
+    image.src = url;
+  });
@@ -0,0 +1,295 @@
+import React from 'react';
+import { renderToStaticMarkup } from 'react-dom/server';
+import ReactMarkdown from 'react-markdown';
+import remarkGfm from 'remark-gfm';
+import { ComparisonData, Dimension, Software } from '../types';
+import { computeWeightedScore, getDimensionWeight } from './scoring';
+import { buildRadarSvg } from './radarSvg';
+import { aggregateByCategory } from './categories';
+import { preserveLineBreaks } from './markdown';
+
+// A dimension counts as a strength/weakness when it is this far from the field average
+const PROFILE_MARGIN = 1;
+// With a single software there is no field, so absolute scores are used instead
+const STRENGTH_SCORE = 8;
+const WEAKNESS_SCORE = 5;
+const MAX_PROFILE_ITEMS = 3;
+
+export interface RankingEntry {
+  rank: number;
+  software: Software;
+  weightedScore: number;
+}
+
+export interface DimensionResult {
+  dimension: Dimension;
+  best: Software[];
+  bestScore: number;
+  worst: Software[];
+  worstScore: number;
+}
+
+export interface ProfileItem {
+  dimension: Dimension;
+  score: number;
+  // Difference to the average of the other softwares, null when there are none
+  delta: number | null;
+}
+
+export interface SoftwareProfile {
+  software: Software;
+  strengths: ProfileItem[];
+  weaknesses: ProfileItem[];
+}
+
+export interface ComparisonReport {
+  title: string;
+  generatedAt: string;
+  data: ComparisonData;
+  rankings: RankingEntry[];
+  dimensionResults: DimensionResult[];
+  profiles: SoftwareProfile[];
+}
+
+export interface ReportOptions {
+  title: string;
+  includeDescriptions: boolean;
+}
+
+const scoreOf = (sw: Software, dim: Dimension) => sw.scores[dim.id] || 0;
+
+export const formatScore = (n: number) => (Number.isInteger(n) ? String(n) : n.toFixed(1));
+
+const profileFor = (sw: Software, data: ComparisonData): SoftwareProfile => {
+  const others = data.softwares.filter(s => s.id !== sw.id);
+  const items: ProfileItem[] = data.dimensions.map(dim => {
+    const score = scoreOf(sw, dim);
+    if (others.length === 0) return { dimension: dim, score, delta: null };
+    const average = others.reduce((sum, s) => sum + scoreOf(s, dim), 0) / others.length;
+    return { dimension: dim, score, delta: score - average };
+  });
+
+  const strengths = items
+    .filter(item => (item.delta === null ? item.score >= STRENGTH_SCORE : item.delta >= PROFILE_MARGIN))
+    .sort((a, b) => (b.delta ?? b.score) - (a.delta ?? a.score))
+    .slice(0, MAX_PROFILE_ITEMS);
+  const weaknesses = items
+    .filter(item => (item.delta === null ? item.score <= WEAKNESS_SCORE : item.delta <= -PROFILE_MARGIN))
+    .sort((a, b) => (a.delta ?? a.score) - (b.delta ?? b.score))
+    .slice(0, MAX_PROFILE_ITEMS);
+
+  return { software: sw, strengths, weaknesses };
+};
+
+/**
+ * Derives everything the report shows from the comparison data: weighted
+ * rankings (ties share a rank), best and worst per dimension, and each
+ * software's strengths and weaknesses relative to the rest of the field.
+ */
+export const buildComparisonReport = (data: ComparisonData, title: string): ComparisonReport => {
+  const { dimensions, softwares } = data;
+
+  const sorted = softwares
+    .map(software => ({ software, weightedScore: computeWeightedScore(software, dimensions) }))
+    .sort((a, b) => b.weightedScore - a.weightedScore);
+  const rankings: RankingEntry[] = [];
+  sorted.forEach((entry, index) => {
+    const previous = rankings[index - 1];
+    const tied = previous && Math.abs(previous.weightedScore - entry.weightedScore) < 1e-9;
+    rankings.push({ ...entry, rank: tied ? previous.rank : index + 1 });
+  });
+
+  const dimensionResults: DimensionResult[] = softwares.length === 0 ? [] : dimensions.map(dimension => {
+    const scores = softwares.map(sw => scoreOf(sw, dimension));
+    const bestScore = Math.max(...scores);
+    const worstScore = Math.min(...scores);
+    return {
+      dimension,
+      best: softwares.filter(sw => scoreOf(sw, dimension) === bestScore),
+      bestScore,
+      worst: softwares.filter(sw => scoreOf(sw, dimension) === worstScore),
+      worstScore,
+    };
+  });
+
+  return {
+    title,
+    generatedAt: new Date().toISOString(),
+    data,
+    rankings,
+    dimensionResults,
+    profiles: rankings.map(entry => profileFor(entry.software, data)),
+  };
+};
+
+// --- Markdown ---
+
+const escapeCell = (text: string) => text.replace(/\|/g, '\\|').replace(/\r?\n/g, ' ');
+const tableRow = (cells: (string | number)[]) => `| ${cells.map(c => escapeCell(String(c))).join(' | ')} |`;
+const names = (softwares: Software[]) => softwares.map(sw => sw.name).join('、');
+
+const describeItem = (item: ProfileItem) => {
+  if (item.delta === null) return `${item.dimension.name}（${formatScore(item.score)} 分）`;
+  const sign = item.delta >= 0 ? '高于' : '低于';
+  return `${item.dimension.name}（${formatScore(item.score)} 分，${sign}平均 ${Math.abs(item.delta).toFixed(1)}）`;
+};
+
+/**
+ * Report body in GitHub-flavored Markdown, without the title. Shared by the
+ * .md download, the HTML export and the in-app preview.
+ */
+export const renderReportBody = (report: ComparisonReport, options: ReportOptions): string => {
+  const { dimensions, softwares } = report.data;
+  const lines: string[] = [];
+
+  if (softwares.length === 0 || dimensions.length === 0) {
+    return '暂无可对比的数据。';
+  }
+
+  lines.push('## 综合排名', '');
+  lines.push(tableRow(['排名', '软件', '加权总分']));
+  lines.push(tableRow(['---:', '---', '---:']));
+  report.rankings.forEach(({ rank, software, weightedScore }) => {
+    lines.push(tableRow([rank, software.name, weightedScore.toFixed(2)]));
+  });
+  lines.push('');
+
+  if ((report.data.categories ?? []).length > 0) {
+    const aggregate = aggregateByCategory(report.data);
+    const byId = new Map(aggregate.softwares.map(sw => [sw.id, sw]));
+    lines.push('## 分类得分', '');
+    lines.push(tableRow(['分类', '权重', ...report.rankings.map(r => r.software.name)]));
+    lines.push(tableRow(['---', '---:', ...report.rankings.map(() => '---:')]));
+    aggregate.dimensions.forEach(category => {
+      lines.push(tableRow([
+        category.name,
+        formatScore(getDimensionWeight(category)),
+        ...report.rankings.map(r => formatScore(byId.get(r.software.id)?.scores[category.id] ?? 0)),
+      ]));
+    });
+    lines.push('');
+  }
+
+  lines.push('## 评分明细', '');
+  lines.push(tableRow(['维度', '权重', ...report.rankings.map(r => r.software.name)]));
+  lines.push(tableRow(['---', '---:', ...report.rankings.map(() => '---:')]));
+  dimensions.forEach(dim => {
+    lines.push(tableRow([
+      dim.name,
+      formatScore(getDimensionWeight(dim)),
+      ...report.rankings.map(r => formatScore(scoreOf(r.software, dim))),
+    ]));
+  });
+  lines.push('');
+
+  lines.push('## 各维度最佳', '');
+  lines.push(tableRow(['维度', '最佳', '得分', '最低', '得分']));
+  lines.push(tableRow(['---', '---', '---:', '---', '---:']));
+  report.dimensionResults.forEach(result => {
+    lines.push(tableRow([
+      result.dimension.name,
+      names(result.best),
+      formatScore(result.bestScore),
+      names(result.worst),
+      formatScore(result.worstScore),
+    ]));
+  });
+  lines.push('');
+
+  lines.push('## 优势与短板', '');
+  report.profiles.forEach(({ software, strengths, weaknesses }) => {
+    const ranking = report.rankings.find(r => r.software.id === software.id);
+    lines.push(`### ${software.name}`, '');
+    if (ranking) {
+      lines.push(`第 ${ranking.rank} 名，加权总分 ${ranking.weightedScore.toFixed(2)}。`, '');
+    }
+    lines.push(`- **优势**：${strengths.length > 0 ? strengths.map(describeItem).join('；') : '无明显优势'}`);
+    lines.push(`- **短板**：${weaknesses.length > 0 ? weaknesses.map(describeItem).join('；') : '无明显短板'}`);
+    lines.push('');
+  });
+
+  if (options.includeDescriptions) {
+    const described = dimensions.filter(dim => softwares.some(sw => sw.descriptions[dim.id]?.trim()));
+    if (described.length > 0) {
+      lines.push('## 详细描述', '');
+      described.forEach(dim => {
+        lines.push(`### ${dim.name}`, '');
+        report.rankings.forEach(({ software }) => {
+          const text = software.descriptions[dim.id]?.trim();
+          if (!text) return;
+          // Descriptions are Markdown themselves, so they get their own block
+          lines.push(`**${software.name}**（${formatScore(scoreOf(software, dim))} 分）`, '', preserveLineBreaks(text), '');
+        });
+      });
+    }
+  }
+
+  return lines.join('\n').trim() + '\n';
+};
+
+const formatDate = (iso: string) => new Date(iso).toLocaleString('zh-CN', { hour12: false });
+
+export const renderReportSubtitle = (report: ComparisonReport) =>
+  `生成时间：${formatDate(report.generatedAt)} · ${report.data.softwares.length} 个软件 · ${report.data.dimensions.length} 个维度`;
+
+export const renderReportMarkdown = (report: ComparisonReport, options: ReportOptions): string =>
+  `# ${options.title}\n\n${renderReportSubtitle(report)}\n\n${renderReportBody(report, options)}`;
+
+// --- HTML ---
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const HTML_STYLE = `
+body { margin: 0; background: #f3f4f6; color: #1f2937; font-family: system-ui, -apple-system, 'Segoe UI', 'PingFang SC', 'Microsoft YaHei', sans-serif; line-height: 1.6; }
+main { max-width: 960px; margin: 32px auto; background: #fff; padding: 40px 48px; border-radius: 12px; box-shadow: 0 1px 3px rgba(0,0,0,.08); }
+h1 { margin: 0 0 4px; font-size: 28px; }
+h2 { margin-top: 40px; padding-bottom: 6px; border-bottom: 1px solid #e5e7eb; font-size: 20px; }
+h3 { margin-top: 24px; font-size: 16px; }
+.subtitle { color: #6b7280; font-size: 14px; margin: 0 0 24px; }
+.chart { text-align: center; margin: 24px 0; }
+.chart svg { max-width: 100%; height: auto; }
+table { border-collapse: collapse; width: 100%; margin: 12px 0; font-size: 14px; }
+th, td { border: 1px solid #e5e7eb; padding: 6px 10px; }
+th { background: #f9fafb; text-align: left; }
+tr:nth-child(even) td { background: #fafafa; }
+code { background: #f3f4f6; padding: 1px 4px; border-radius: 4px; }
+pre { background: #f3f4f6; padding: 12px; border-radius: 6px; overflow-x: auto; font-size: 12px; }
+pre code { padding: 0; }
+a { color: #2563eb; }
+blockquote { margin: 0; padding-left: 12px; border-left: 3px solid #d1d5db; color: #4b5563; }
+@media print { body { background: #fff; } main { box-shadow: none; margin: 0; } }
+`;
+
+/**
+ * Self-contained HTML document: inline styles, the radar chart as inline SVG
+ * and the Markdown body rendered with the same renderer as the preview.
+ */
+export const renderReportHtml = (report: ComparisonReport, options: ReportOptions): string => {
+  const body = renderToStaticMarkup(
+    React.createElement(ReactMarkdown, { remarkPlugins: [remarkGfm] }, renderReportBody(report, options))
+  );
+  const chart = report.data.softwares.length > 0 && report.data.dimensions.length > 0
+    ? `<div class="chart">${buildRadarSvg(report.data, { width: 720, theme: 'light', showLegend: true })}</div>`
+    : '';
+
+  return [
+    '<!DOCTYPE html>',
+    '<html lang="zh-CN">',
+    '<head>',
+    '<meta charset="UTF-8" />',
+    '<meta name="viewport" content="width=device-width, initial-scale=1.0" />',
+    `<title>${escapeHtml(options.title)}</title>`,
+    `<style>${HTML_STYLE}</style>`,
+    '</head>',
+    '<body>',
+    '<main>',
+    `<h1>${escapeHtml(options.title)}</h1>`,
+    `<p class="subtitle">${escapeHtml(renderReportSubtitle(report))}</p>`,
+    chart,
+    body,
+    '</main>',
+    '</body>',
+    '</html>',
+  ].join('\n');
+};
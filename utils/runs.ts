@@ -0,0 +1,288 @@
+import { ComparisonData, Dimension, HarnessRun, NormalizationRule, RunAggregation, RunMetric, RunSettings, Software } from '../types';
+import { applyNormalization, normalizeRawValue } from './normalization';
+import { readRecordFile, recordFieldKey } from './csv';
+import { attachmentCellKey } from './attachments';
+import { linkedDimensionIds } from './detection';
+import { withoutCellTrials } from './trials';
+import { randomColor } from './color';
+import { generateId } from './id';
+
+interface RunMetricInfo {
+  label: string;
+  unit: string;
+  lowerIsBetter: boolean;
+  // Dimension names that suggest this metric when nothing is mapped yet
+  keywords: string[];
+}
+
+export const RUN_METRICS: Record<RunMetric, RunMetricInfo> = {
+  scanDurationSec: { label: '扫描耗时', unit: 's', lowerIsBetter: true, keywords: ['耗时', '时长', '扫描速度', 'duration'] },
+  filesScanned: { label: '扫描文件数', unit: '个', lowerIsBetter: false, keywords: ['扫描文件数', 'files scanned'] },
+  peakRamMB: { label: '峰值内存', unit: 'MB', lowerIsBetter: true, keywords: ['峰值内存', 'peak'] },
+  avgRamMB: { label: '平均内存', unit: 'MB', lowerIsBetter: true, keywords: ['内存', 'ram', 'memory'] },
+  cpuPercent: { label: 'CPU 占用', unit: '%', lowerIsBetter: true, keywords: ['cpu'] },
+  energyWh: { label: '能耗', unit: 'Wh', lowerIsBetter: true, keywords: ['功耗', '能耗', '电量', 'energy', 'power'] },
+  detections: { label: '检出数', unit: '个', lowerIsBetter: false, keywords: ['检出', 'detection'] },
+};
+
+export const RUN_METRIC_KEYS = Object.keys(RUN_METRICS) as RunMetric[];
+
+export const RUN_AGGREGATION_LABELS: Record<RunAggregation, string> = {
+  mean: '平均值',
+  median: '中位数',
+  best: '最佳',
+};
+
+export const DEFAULT_RUN_SETTINGS: RunSettings = { aggregation: 'median', mappings: {} };
+
+// A run as read from a record file, before it is matched to a software
+export interface ParsedRun {
+  product: string;
+  label: string;
+  startedAt?: string;
+  metrics: Partial<Record<RunMetric, number>>;
+}
+
+export interface RunParseResult {
+  runs: ParsedRun[];
+  errors: string[];
+}
+
+export const getRunSettings = (data: ComparisonData): RunSettings => ({
+  ...DEFAULT_RUN_SETTINGS,
+  ...data.runSettings,
+});
+
+const METRIC_BY_FIELD = new Map(RUN_METRIC_KEYS.map(metric => [recordFieldKey(metric), metric]));
+const PRODUCT_FIELDS = ['product', 'software', 'name'].map(recordFieldKey);
+const LABEL_FIELDS = ['run', 'runid', 'label'].map(recordFieldKey);
+const STARTED_FIELDS = ['startedat', 'timestamp', 'date'].map(recordFieldKey);
+
+// Reads one record (JSON object or CSV row as field → value); row is 1-based for messages
+const readRecord = (fields: Record<string, unknown>, row: number, errors: string[]): ParsedRun | null => {
+  let product = '';
+  let label = '';
+  let startedAt: string | undefined;
+  const metrics: ParsedRun['metrics'] = {};
+
+  Object.entries(fields).forEach(([name, value]) => {
+    const key = recordFieldKey(name);
+    const metric = METRIC_BY_FIELD.get(key);
+    if (metric) {
+      if (value === '' || value === null || value === undefined) return;
+      const num = typeof value === 'number' ? value : Number(String(value).trim());
+      if (Number.isFinite(num)) metrics[metric] = num;
+      else errors.push(`第 ${row} 条记录：${name} 的值「${String(value)}」不是数字，已忽略`);
+    } else if (PRODUCT_FIELDS.includes(key) && !product) {
+      product = String(value ?? '').trim();
+    } else if (LABEL_FIELDS.includes(key) && !label) {
+      label = String(value ?? '').trim();
+    } else if (STARTED_FIELDS.includes(key) && !startedAt && value) {
+      startedAt = String(value).trim();
+    }
+  });
+
+  if (!product) {
+    errors.push(`第 ${row} 条记录：缺少 product 字段，已跳过`);
+    return null;
+  }
+  if (Object.keys(metrics).length === 0) {
+    errors.push(`第 ${row} 条记录（${product}）：没有可识别的指标，已跳过`);
+    return null;
+  }
+  return { product, label: label || `#${row}`, startedAt, metrics };
+};
+
+/**
+ * Reads a harness run record file: a JSON array of runs (or an object with a
+ * `runs` array), or a CSV with one run per row and the same field names as
+ * its header. Unusable records are reported and skipped.
+ */
+export const parseRunRecords = (text: string, fileName: string): RunParseResult => {
+  const { records, errors } = readRecordFile(text, fileName, 'runs');
+  const runs = records
+    .map(({ fields, row }) => readRecord(fields, row, errors))
+    .filter((run): run is ParsedRun => run !== null);
+  return { runs, errors };
+};
+
+// Raw values keep two decimals, enough for seconds, MB and percentages
+const roundRaw = (value: number) => Math.round(value * 100) / 100;
+
+// Combines the runs of one metric; "best" follows the metric's direction
+export const aggregateRunValues = (values: number[], method: RunAggregation, lowerIsBetter: boolean): number | null => {
+  if (values.length === 0) return null;
+  if (method === 'best') return lowerIsBetter ? Math.min(...values) : Math.max(...values);
+  if (method === 'median') {
+    const sorted = [...values].sort((a, b) => a - b);
+    const mid = Math.floor(sorted.length / 2);
+    return roundRaw(sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2);
+  }
+  return roundRaw(values.reduce((sum, v) => sum + v, 0) / values.length);
+};
+
+export const runsOfSoftware = (runs: HarnessRun[], softwareId: string) =>
+  runs.filter(run => run.softwareId === softwareId);
+
+// Metrics mapped to this dimension (normally just one)
+export const metricsForDimension = (settings: RunSettings, dimensionId: string): RunMetric[] =>
+  RUN_METRIC_KEYS.filter(metric => settings.mappings[metric] === dimensionId);
+
+// Aggregated value of one metric over a software's runs, null when no run has it
+export const aggregateMetric = (runs: HarnessRun[], metric: RunMetric, method: RunAggregation): number | null =>
+  aggregateRunValues(
+    runs.map(run => run.metrics[metric]).filter((v): v is number => v !== undefined),
+    method,
+    RUN_METRICS[metric].lowerIsBetter
+  );
+
+/**
+ * Writes the aggregated run metrics into the mapped dimensions' raw values
+ * and rescores them with each dimension's normalization rule. Cells without
+ * runs are left alone, so runs and hand-entered values can coexist, and
+ * dimensions fed by the detection test are never written.
+ */
+export const applyRunAggregation = (data: ComparisonData): ComparisonData => {
+  const runs = data.runs ?? [];
+  if (runs.length === 0) return data;
+  const settings = getRunSettings(data);
+  const detectionDims = linkedDimensionIds(data);
+
+  const softwares = data.softwares.map((sw) => {
+    const own = runsOfSoftware(runs, sw.id);
+    if (own.length === 0) return sw;
+    let rawValues = sw.rawValues || {};
+    let scores = sw.scores;
+    let trials = sw.trials;
+    RUN_METRIC_KEYS.forEach((metric) => {
+      const dim = data.dimensions.find(d => d.id === settings.mappings[metric]);
+      if (!dim || detectionDims.includes(dim.id)) return;
+      const value = aggregateMetric(own, metric, settings.aggregation);
+      if (value === null) return;
+      rawValues = { ...rawValues, [dim.id]: value };
+      const score = normalizeRawValue(value, dim);
+      if (score !== null) scores = { ...scores, [dim.id]: score };
+      // The runs now provide the value, not the trials typed in before
+      trials = withoutCellTrials({ ...sw, trials }, dim.id).trials;
+    });
+    return rawValues === sw.rawValues && scores === sw.scores ? sw : { ...sw, rawValues, scores, trials };
+  });
+
+  return { ...data, softwares };
+};
+
+/**
+ * Adds parsed runs to the project, matching products to softwares by name
+ * and creating softwares for new ones, then reapplies the aggregation.
+ */
+export const ingestRuns = (
+  data: ComparisonData,
+  parsed: { source: string; runs: ParsedRun[] }[]
+): ComparisonData => {
+  const softwares: Software[] = [...data.softwares];
+  const runs: HarnessRun[] = [...(data.runs ?? [])];
+
+  parsed.forEach(({ source, runs: fileRuns }) => {
+    fileRuns.forEach((run) => {
+      let sw = softwares.find(s => s.name === run.product);
+      if (!sw) {
+        sw = { id: generateId(), name: run.product, color: randomColor(), scores: {}, descriptions: {}, rawValues: {} };
+        softwares.push(sw);
+      }
+      runs.push({
+        id: generateId(),
+        softwareId: sw.id,
+        label: run.label,
+        startedAt: run.startedAt,
+        source,
+        metrics: run.metrics,
+      });
+    });
+  });
+
+  return applyRunAggregation({ ...data, softwares, runs });
+};
+
+export type DimensionScoring = Pick<Dimension, 'unit' | 'lowerIsBetter' | 'normalization'>;
+
+/**
+ * Applies everything the ingest dialog collects: scoring rules for mapped
+ * dimensions, the mapping and aggregation, and the new runs. The dialog
+ * previews exactly what this returns.
+ */
+export const applyRunIngest = (
+  data: ComparisonData,
+  files: { source: string; runs: ParsedRun[] }[],
+  settings: RunSettings,
+  scoring: Record<string, DimensionScoring>
+): ComparisonData => {
+  const dimensions = data.dimensions.map(d => (scoring[d.id] ? { ...d, ...scoring[d.id] } : d));
+  let softwares = data.softwares;
+  dimensions.forEach((dim) => {
+    if (scoring[dim.id]) softwares = applyNormalization(softwares, dim);
+  });
+  return ingestRuns({ ...data, dimensions, softwares, runSettings: settings }, files);
+};
+
+export const deleteRun = (data: ComparisonData, runId: string): ComparisonData =>
+  applyRunAggregation({ ...data, runs: (data.runs ?? []).filter(run => run.id !== runId) });
+
+// Drops mappings to removed dimensions, so later ingests never write to a missing id
+export const unmapDimensions = (data: ComparisonData, dimensionIds: string[]): ComparisonData => {
+  if (!data.runSettings) return data;
+  const mappings: RunSettings['mappings'] = {};
+  RUN_METRIC_KEYS.forEach((metric) => {
+    const dimId = data.runSettings!.mappings[metric];
+    if (dimId && !dimensionIds.includes(dimId)) mappings[metric] = dimId;
+  });
+  return { ...data, runSettings: { ...data.runSettings, mappings } };
+};
+
+/**
+ * Proposes a dimension for each metric by name, never reusing a dimension.
+ * Dimensions measured in another unit (e.g. the detection rate in % for the
+ * detection count) and those fed by the detection test are skipped.
+ */
+export const suggestMappings = (data: ComparisonData): RunSettings['mappings'] => {
+  const mappings: RunSettings['mappings'] = {};
+  const used = new Set<string>(linkedDimensionIds(data));
+  RUN_METRIC_KEYS.forEach((metric) => {
+    const info = RUN_METRICS[metric];
+    const dim = data.dimensions.find(d =>
+      !used.has(d.id) &&
+      (!d.unit || d.unit === info.unit) &&
+      info.keywords.some(k => d.name.toLowerCase().includes(k))
+    );
+    if (dim) {
+      mappings[metric] = dim.id;
+      used.add(dim.id);
+    }
+  });
+  return mappings;
+};
+
+// A linear rule spanning the observed values, as a starting point for unscored dimensions
+export const suggestLinearRule = (values: number[]): NormalizationRule | undefined => {
+  if (values.length < 2) return undefined;
+  const min = Math.min(...values);
+  const max = Math.max(...values);
+  return min === max ? undefined : { type: 'linear', min, max };
+};
+
+// Number of runs behind each cell fed by a mapped metric, keyed like attachments
+export const countRunsByCell = (data: ComparisonData): Record<string, number> => {
+  const counts: Record<string, number> = {};
+  const settings = getRunSettings(data);
+  (data.runs ?? []).forEach((run) => {
+    const dimIds = new Set(
+      RUN_METRIC_KEYS
+        .filter(metric => run.metrics[metric] !== undefined && settings.mappings[metric])
+        .map(metric => settings.mappings[metric]!)
+    );
+    dimIds.forEach((dimId) => {
+      const key = attachmentCellKey(run.softwareId, dimId);
+      counts[key] = (counts[key] || 0) + 1;
+    });
+  });
+  return counts;
+};
@@ -0,0 +1,29 @@
+import { Dimension, Software } from '../types';
+
+export const DEFAULT_WEIGHT = 1;
+
+// Dimensions saved before weights existed have no weight field
+export const getDimensionWeight = (dim: Dimension): number =>
+  typeof dim.weight === 'number' && Number.isFinite(dim.weight) && dim.weight >= 0
+    ? dim.weight
+    : DEFAULT_WEIGHT;
+
+// Weighted average of a software's scores, stays on the 0-10 scale
+export const computeWeightedScore = (software: Software, dimensions: Dimension[]): number => {
+  let total = 0;
+  let weightSum = 0;
+  dimensions.forEach((dim) => {
+    const weight = getDimensionWeight(dim);
+    total += (software.scores[dim.id] || 0) * weight;
+    weightSum += weight;
+  });
+  return weightSum > 0 ? total / weightSum : 0;
+};
+
+// Returns the software with the highest weighted score, or null if there is none
+export const findOverallBest = (softwares: Software[], dimensions: Dimension[]): Software | null => {
+  if (softwares.length === 0) return null;
+  return softwares.reduce((prev, current) =>
+    computeWeightedScore(prev, dimensions) >= computeWeightedScore(current, dimensions) ? prev : current
+  );
+};
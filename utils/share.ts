@@ -0,0 +1,139 @@
+import { ComparisonData, Software } from '../types';
+import type { ChartType } from '../components/ChartTypeSwitcher';
+import { validateComparisonData } from './projectFile';
+
+export const SHARE_FORMAT = 'av-benchmark-share';
+export const SHARE_VERSION = 1;
+
+// Share links carry the whole dataset after this hash prefix, so nothing is sent to a server
+const SHARE_HASH_PREFIX = '#share=';
+
+const CHART_TYPES: ChartType[] = ['radar', 'bar', 'heatmap', 'ranking'];
+
+// How the sender was looking at the data when sharing
+export interface SharedViewSettings {
+  chartType: ChartType;
+  hiddenIds: string[];
+  baselineId: string | null;
+}
+
+export interface SharePayload {
+  format: typeof SHARE_FORMAT;
+  version: number;
+  name: string;
+  sharedAt: string;
+  data: ComparisonData;
+  view: SharedViewSettings;
+}
+
+export interface ShareOptions {
+  includeDescriptions: boolean;
+}
+
+// Only what the viewer renders travels in the link; evaluator input, archived versions,
+// runs, detection samples and attachments stay with the sender
+const shareSoftware = (sw: Software, options: ShareOptions): Software => ({
+  id: sw.id,
+  name: sw.name,
+  color: sw.color,
+  scores: sw.scores,
+  descriptions: options.includeDescriptions ? sw.descriptions : {},
+  rawValues: sw.rawValues,
+  trials: sw.trials,
+  version: sw.version,
+  testedAt: sw.testedAt,
+});
+
+/**
+ * Builds the payload from the data as currently shown, i.e. after the
+ * evaluator and version projections, so the recipient sees the same scores.
+ */
+export const buildSharePayload = (
+  name: string,
+  data: ComparisonData,
+  view: SharedViewSettings,
+  options: ShareOptions
+): SharePayload => ({
+  format: SHARE_FORMAT,
+  version: SHARE_VERSION,
+  name,
+  sharedAt: new Date().toISOString(),
+  data: {
+    dimensions: data.dimensions,
+    softwares: data.softwares.map(sw => shareSoftware(sw, options)),
+    categories: data.categories ?? [],
+  },
+  view,
+});
+
+const pipeBytes = async (bytes: BlobPart, transform: CompressionStream | DecompressionStream): Promise<Uint8Array> =>
+  new Uint8Array(await new Response(new Blob([bytes]).stream().pipeThrough(transform)).arrayBuffer());
+
+// URL-safe base64 without padding, so the hash needs no escaping
+const toBase64Url = (bytes: Uint8Array): string => {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const fromBase64Url = (text: string): BlobPart => {
+  const binary = atob(text.replace(/-/g, '+').replace(/_/g, '/'));
+  return Uint8Array.from(binary, c => c.charCodeAt(0));
+};
+
+export const encodeSharePayload = async (payload: SharePayload): Promise<string> =>
+  toBase64Url(await pipeBytes(new TextEncoder().encode(JSON.stringify(payload)), new CompressionStream('deflate-raw')));
+
+/**
+ * Decodes and validates a share link's payload. Throws an Error with a
+ * message for the user when the link is truncated, corrupted or too new.
+ */
+export const decodeSharePayload = async (encoded: string): Promise<SharePayload> => {
+  let root: unknown;
+  try {
+    const bytes = await pipeBytes(fromBase64Url(encoded), new DecompressionStream('deflate-raw'));
+    root = JSON.parse(new TextDecoder().decode(bytes));
+  } catch {
+    throw new Error('分享链接已损坏或不完整，请确认复制了完整的链接。');
+  }
+
+  const payload = root as Partial<SharePayload> | null;
+  if (!payload || typeof payload !== 'object' || payload.format !== SHARE_FORMAT) {
+    throw new Error('不是有效的分享链接。');
+  }
+  if (typeof payload.version !== 'number' || payload.version > SHARE_VERSION) {
+    throw new Error('该分享链接来自更新版本的应用，请升级后再打开。');
+  }
+
+  const errors: string[] = [];
+  validateComparisonData(payload.data, 'data', errors);
+  if (errors.length > 0) {
+    throw new Error(`分享的数据校验未通过：\n${errors.slice(0, 10).join('\n')}`);
+  }
+
+  const view: Partial<SharedViewSettings> = payload.view ?? {};
+  return {
+    format: SHARE_FORMAT,
+    version: payload.version,
+    name: typeof payload.name === 'string' && payload.name ? payload.name : '分享的对比',
+    sharedAt: typeof payload.sharedAt === 'string' ? payload.sharedAt : '',
+    data: payload.data!,
+    view: {
+      chartType: CHART_TYPES.includes(view.chartType as ChartType) ? view.chartType! : 'radar',
+      hiddenIds: Array.isArray(view.hiddenIds) ? view.hiddenIds.filter((id): id is string => typeof id === 'string') : [],
+      baselineId: typeof view.baselineId === 'string' ? view.baselineId : null,
+    },
+  };
+};
+
+export const buildShareUrl = (encoded: string): string =>
+  `${window.location.origin}${window.location.pathname}${window.location.search}${SHARE_HASH_PREFIX}${encoded}`;
+
+// The encoded payload of a share link, or null for ordinary visits
+export const readShareHash = (hash: string): string | null =>
+  hash.startsWith(SHARE_HASH_PREFIX) && hash.length > SHARE_HASH_PREFIX.length ? hash.slice(SHARE_HASH_PREFIX.length) : null;
+
+// Where the viewer goes back to the regular app
+export const workspaceUrl = (): string => `${window.location.pathname}${window.location.search}`;
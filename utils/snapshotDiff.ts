@@ -0,0 +1,112 @@
+import { ComparisonData, Dimension, Software } from '../types';
+
+export interface MatchedPair<T> {
+  before: T;
+  after: T;
+}
+
+export interface ScoreChange {
+  software: Software;
+  dimension: Dimension;
+  before: number;
+  after: number;
+  delta: number;
+}
+
+export interface DescriptionChange {
+  software: Software;
+  dimension: Dimension;
+  before: string;
+  after: string;
+}
+
+export interface ComparisonDiff {
+  addedSoftwares: Software[];
+  removedSoftwares: Software[];
+  addedDimensions: Dimension[];
+  removedDimensions: Dimension[];
+  scoreChanges: ScoreChange[];
+  descriptionChanges: DescriptionChange[];
+  softwarePairs: MatchedPair<Software>[];
+  dimensionPairs: MatchedPair<Dimension>[];
+}
+
+/**
+ * Pairs items by id, then by name for leftovers. CSV import regenerates
+ * dimension ids, so the name fallback keeps those diffs meaningful.
+ */
+const matchItems = <T extends { id: string; name: string }>(before: T[], after: T[]) => {
+  const pairs: MatchedPair<T>[] = [];
+  const removed: T[] = [];
+  const used = new Set<T>();
+  const beforeIds = new Set(before.map(b => b.id));
+
+  before.forEach((b) => {
+    const match =
+      after.find(a => a.id === b.id && !used.has(a)) ||
+      after.find(a => a.name === b.name && !beforeIds.has(a.id) && !used.has(a));
+    if (match) {
+      used.add(match);
+      pairs.push({ before: b, after: match });
+    } else {
+      removed.push(b);
+    }
+  });
+
+  const added = after.filter(a => !used.has(a));
+  return { pairs, added, removed };
+};
+
+export const diffComparisonData = (before: ComparisonData, after: ComparisonData): ComparisonDiff => {
+  const sw = matchItems(before.softwares, after.softwares);
+  const dims = matchItems(before.dimensions, after.dimensions);
+
+  const scoreChanges: ScoreChange[] = [];
+  const descriptionChanges: DescriptionChange[] = [];
+
+  sw.pairs.forEach((swPair) => {
+    dims.pairs.forEach((dimPair) => {
+      const beforeScore = swPair.before.scores[dimPair.before.id] || 0;
+      const afterScore = swPair.after.scores[dimPair.after.id] || 0;
+      if (beforeScore !== afterScore) {
+        scoreChanges.push({
+          software: swPair.after,
+          dimension: dimPair.after,
+          before: beforeScore,
+          after: afterScore,
+          delta: afterScore - beforeScore,
+        });
+      }
+
+      const beforeDesc = swPair.before.descriptions?.[dimPair.before.id] || '';
+      const afterDesc = swPair.after.descriptions?.[dimPair.after.id] || '';
+      if (beforeDesc !== afterDesc) {
+        descriptionChanges.push({
+          software: swPair.after,
+          dimension: dimPair.after,
+          before: beforeDesc,
+          after: afterDesc,
+        });
+      }
+    });
+  });
+
+  return {
+    addedSoftwares: sw.added,
+    removedSoftwares: sw.removed,
+    addedDimensions: dims.added,
+    removedDimensions: dims.removed,
+    scoreChanges,
+    descriptionChanges,
+    softwarePairs: sw.pairs,
+    dimensionPairs: dims.pairs,
+  };
+};
+
+export const isDiffEmpty = (diff: ComparisonDiff): boolean =>
+  diff.addedSoftwares.length === 0 &&
+  diff.removedSoftwares.length === 0 &&
+  diff.addedDimensions.length === 0 &&
+  diff.removedDimensions.length === 0 &&
+  diff.scoreChanges.length === 0 &&
+  diff.descriptionChanges.length === 0;
@@ -0,0 +1,143 @@
+import { ComparisonData, Dimension, Software } from '../types';
+import { normalizeRawValue } from './normalization';
+
+// Summary of the repeated trials of one cell; interval is the 95% confidence
+// interval of the mean and needs at least two trials
+export interface TrialStats {
+  n: number;
+  mean: number;
+  sd: number;
+  interval: { low: number; high: number } | null;
+}
+
+// Two-sided 95% critical values of Student's t for 1-30 degrees of freedom
+const T_CRITICAL = [
+  12.706, 4.303, 3.182, 2.776, 2.571, 2.447, 2.365, 2.306, 2.262, 2.228,
+  2.201, 2.179, 2.16, 2.145, 2.131, 2.12, 2.11, 2.101, 2.093, 2.086,
+  2.08, 2.074, 2.069, 2.064, 2.06, 2.056, 2.052, 2.048, 2.045, 2.042,
+];
+
+// Beyond the table the next lower tabulated value is used, which errs on the wide side
+const tCritical = (df: number): number => {
+  if (df <= T_CRITICAL.length) return T_CRITICAL[df - 1];
+  if (df <= 40) return 2.042;
+  if (df <= 60) return 2.021;
+  if (df <= 120) return 2.0;
+  return 1.96;
+};
+
+const clampScore = (value: number) => Math.round(Math.max(0, Math.min(10, value)) * 10) / 10;
+
+// Means are written back as the cell value, two decimals keep the inputs readable
+const roundValue = (value: number) => Math.round(value * 100) / 100;
+
+export const computeTrialStats = (values: number[]): TrialStats | null => {
+  const n = values.length;
+  if (n === 0) return null;
+  const mean = values.reduce((sum, v) => sum + v, 0) / n;
+  if (n === 1) return { n, mean, sd: 0, interval: null };
+  const sd = Math.sqrt(values.reduce((sum, v) => sum + (v - mean) ** 2, 0) / (n - 1));
+  const margin = tCritical(n - 1) * sd / Math.sqrt(n);
+  return { n, mean, sd, interval: { low: mean - margin, high: mean + margin } };
+};
+
+// Trials are in the cell's input unit: the raw value on measured dimensions, the score otherwise
+export const getCellTrials = (sw: Software, dimensionId: string): number[] =>
+  sw.trials?.[dimensionId] ?? [];
+
+export const cellTrialStats = (sw: Software, dimensionId: string): TrialStats | null =>
+  computeTrialStats(getCellTrials(sw, dimensionId));
+
+// A value written straight into the cell replaces the trials it was the mean of
+export const withoutCellTrials = (sw: Software, dimensionId: string): Software => {
+  if (!sw.trials?.[dimensionId]) return sw;
+  const { [dimensionId]: _removed, ...trials } = sw.trials;
+  return { ...sw, trials };
+};
+
+// The confidence interval on the 0-10 score scale, for charts
+export const scoreInterval = (sw: Software, dim: Dimension): { low: number; high: number } | null => {
+  const interval = cellTrialStats(sw, dim.id)?.interval;
+  if (!interval) return null;
+  if (!dim.normalization) return { low: clampScore(interval.low), high: clampScore(interval.high) };
+  const a = normalizeRawValue(interval.low, dim);
+  const b = normalizeRawValue(interval.high, dim);
+  if (a === null || b === null) return null;
+  return { low: Math.min(a, b), high: Math.max(a, b) };
+};
+
+/**
+ * Other softwares whose confidence interval on this dimension overlaps this
+ * cell's, i.e. the gap between them is not significant. Intervals are compared
+ * in the input unit so clamped scores don't create spurious overlaps.
+ */
+export const overlappingSoftwares = (softwares: Software[], sw: Software, dimensionId: string): Software[] => {
+  const own = cellTrialStats(sw, dimensionId)?.interval;
+  if (!own) return [];
+  return softwares.filter((other) => {
+    if (other.id === sw.id) return false;
+    const interval = cellTrialStats(other, dimensionId)?.interval;
+    return !!interval && interval.low <= own.high && own.low <= interval.high;
+  });
+};
+
+// Reads values separated by commas, semicolons or whitespace; anything else is reported back
+export const parseTrialValues = (text: string): { values: number[]; invalid: string[] } => {
+  const values: number[] = [];
+  const invalid: string[] = [];
+  text.split(/[\s,，;；、]+/).filter(Boolean).forEach((token) => {
+    const value = Number(token);
+    if (Number.isFinite(value)) values.push(value);
+    else invalid.push(token);
+  });
+  return { values, invalid };
+};
+
+/**
+ * Stores the trials of one cell and writes their mean as the cell value: the
+ * raw value (and the score derived from it) on measured dimensions, the score
+ * otherwise. An empty list removes the trials and leaves the value as it is.
+ */
+export const setCellTrials = (
+  data: ComparisonData,
+  softwareId: string,
+  dimensionId: string,
+  values: number[]
+): ComparisonData => {
+  const dim = data.dimensions.find(d => d.id === dimensionId);
+  if (!dim) return data;
+  return {
+    ...data,
+    softwares: data.softwares.map((sw) => {
+      if (sw.id !== softwareId) return sw;
+      const { [dimensionId]: _removed, ...otherTrials } = sw.trials ?? {};
+      if (values.length === 0) return { ...sw, trials: otherTrials };
+
+      const trials = { ...otherTrials, [dimensionId]: values };
+      const mean = computeTrialStats(values)!.mean;
+      if (!dim.normalization) {
+        return { ...sw, trials, scores: { ...sw.scores, [dimensionId]: clampScore(mean) } };
+      }
+      const raw = roundValue(mean);
+      const score = normalizeRawValue(raw, dim);
+      return {
+        ...sw,
+        trials,
+        rawValues: { ...sw.rawValues, [dimensionId]: raw },
+        scores: score === null ? sw.scores : { ...sw.scores, [dimensionId]: score },
+      };
+    }),
+  };
+};
+
+// Trial values keep the precision their magnitude needs, e.g. 312 s but 6.84 points
+export const formatTrialValue = (value: number, reference = value): string => {
+  const magnitude = Math.abs(reference);
+  return value.toFixed(magnitude >= 100 ? 0 : magnitude >= 10 ? 1 : 2);
+};
+
+// "6.84 ± 0.40" in the cell's input unit
+export const formatMeanSd = (stats: TrialStats): string =>
+  stats.n < 2
+    ? formatTrialValue(stats.mean)
+    : `${formatTrialValue(stats.mean)} ± ${formatTrialValue(stats.sd, stats.mean)}`;
@@ -0,0 +1,132 @@
+import { ComparisonData, Dimension, Software, SoftwareVersion } from '../types';
+import { computeWeightedScore } from './scoring';
+import { generateId } from './id';
+
+// Version ID under which a software's own (live) results appear in its history
+export const LATEST_VERSION_ID = 'latest';
+
+// Which version each software is shown with; softwares not listed show their latest results
+export type VersionSelection = Record<string, string>;
+
+export interface VersionEntry extends SoftwareVersion {
+  latest: boolean;
+}
+
+export const versionLabel = (version: { version?: string; testedAt?: string }): string =>
+  version.version || version.testedAt || '未标注版本';
+
+// Archived versions oldest first, followed by the live results
+export const versionHistory = (sw: Software): VersionEntry[] => [
+  ...(sw.versions ?? []).map(v => ({ ...v, latest: false })),
+  {
+    id: LATEST_VERSION_ID,
+    version: sw.version ?? '',
+    testedAt: sw.testedAt,
+    scores: sw.scores,
+    rawValues: sw.rawValues,
+    descriptions: sw.descriptions,
+    latest: true,
+  },
+];
+
+const updateSoftware = (data: ComparisonData, softwareId: string, update: (sw: Software) => Software): ComparisonData => ({
+  ...data,
+  softwares: data.softwares.map(sw => (sw.id === softwareId ? update(sw) : sw)),
+});
+
+/**
+ * Starts a retest: the live results are archived as a version of their own and
+ * the software moves on to the new version. Scores carry over as the starting
+ * point; trials belong to the archived test run and are dropped.
+ */
+export const archiveCurrentVersion = (
+  data: ComparisonData,
+  softwareId: string,
+  next: { version: string; testedAt?: string }
+): ComparisonData =>
+  updateSoftware(data, softwareId, sw => ({
+    ...sw,
+    versions: [
+      ...(sw.versions ?? []),
+      {
+        id: generateId(),
+        version: sw.version ?? '',
+        testedAt: sw.testedAt,
+        scores: { ...sw.scores },
+        rawValues: sw.rawValues && { ...sw.rawValues },
+        descriptions: { ...sw.descriptions },
+      },
+    ],
+    version: next.version,
+    testedAt: next.testedAt,
+    trials: undefined,
+  }));
+
+export const updateVersionInfo = (
+  data: ComparisonData,
+  softwareId: string,
+  versionId: string,
+  info: { version: string; testedAt?: string }
+): ComparisonData =>
+  updateSoftware(data, softwareId, sw =>
+    versionId === LATEST_VERSION_ID
+      ? { ...sw, version: info.version, testedAt: info.testedAt }
+      : { ...sw, versions: sw.versions?.map(v => (v.id === versionId ? { ...v, ...info } : v)) }
+  );
+
+export const deleteVersion = (data: ComparisonData, softwareId: string, versionId: string): ComparisonData =>
+  updateSoftware(data, softwareId, sw => ({ ...sw, versions: sw.versions?.filter(v => v.id !== versionId) }));
+
+const selectedVersion = (sw: Software, selection: VersionSelection): SoftwareVersion | undefined => {
+  const id = selection[sw.id];
+  return id ? sw.versions?.find(v => v.id === id) : undefined;
+};
+
+// Softwares shown with an archived version; their cells are read-only
+export const archivedSoftwareIds = (data: ComparisonData, selection: VersionSelection): string[] =>
+  data.softwares.filter(sw => selectedVersion(sw, selection)).map(sw => sw.id);
+
+// The table and charts as they'd look with the selected versions instead of the latest results
+export const projectVersionView = (data: ComparisonData, selection: VersionSelection): ComparisonData => {
+  if (!data.softwares.some(sw => selectedVersion(sw, selection))) return data;
+  return {
+    ...data,
+    softwares: data.softwares.map((sw) => {
+      const version = selectedVersion(sw, selection);
+      if (!version) return sw;
+      return {
+        ...sw,
+        version: version.version,
+        testedAt: version.testedAt,
+        scores: version.scores,
+        rawValues: version.rawValues,
+        descriptions: version.descriptions,
+        evaluatorScores: undefined,
+        trials: undefined,
+      };
+    }),
+  };
+};
+
+// One point per version for the timeline chart: scores by dimension ID plus the weighted total
+export interface TimelinePoint {
+  id: string;
+  label: string;
+  testedAt?: string;
+  total: number;
+  [dimensionId: string]: string | number | undefined;
+}
+
+export const versionTimeline = (sw: Software, dimensions: Dimension[]): TimelinePoint[] =>
+  versionHistory(sw).map((entry) => {
+    const point: TimelinePoint = {
+      id: entry.id,
+      label: versionLabel(entry),
+      testedAt: entry.testedAt,
+      total: Math.round(computeWeightedScore({ ...sw, scores: entry.scores }, dimensions) * 10) / 10,
+    };
+    dimensions.forEach((dim) => {
+      if (entry.scores[dim.id] !== undefined) point[dim.id] = entry.scores[dim.id];
+    });
+    return point;
+  });
@@ -0,0 +1,252 @@
+import type { Cell, Workbook, Worksheet } from 'exceljs';
+import { ComparisonData } from '../types';
+import { getDimensionWeight } from './scoring';
+import { toHex, contrastText } from './color';
+import { resolveCategory } from './categories';
+import { ImportIssue, ImportReadResult, readComparisonRows, readOptionalColumns } from './csv';
+import { PROJECT_FILE_FORMAT, PROJECT_FILE_VERSION } from './projectFile';
+
+const SHEET_SCORES = 'Scores';
+const SHEET_RAW = 'Raw';
+const SHEET_DESCRIPTIONS = 'Descriptions';
+const SHEET_METADATA = 'Metadata';
+
+const HEADER_FILL = 'FF1F2937'; // gray-800
+const HEADER_FONT = 'FFF3F4F6'; // gray-100
+
+// exceljs is large, so it is only loaded when a spreadsheet is actually used
+const createWorkbook = async (): Promise<Workbook> => {
+  const mod = await import('exceljs');
+  const ExcelJS = (mod.default ?? mod) as typeof mod;
+  return new ExcelJS.Workbook();
+};
+
+const argb = (color: string) => 'FF' + toHex(color).slice(1).toUpperCase();
+
+const styleHeaderCell = (cell: Cell, color?: string) => {
+  cell.font = { bold: true, color: { argb: color ? argb(contrastText(color)) : HEADER_FONT } };
+  cell.fill = { type: 'pattern', pattern: 'solid', fgColor: { argb: color ? argb(color) : HEADER_FILL } };
+  cell.alignment = { vertical: 'middle', horizontal: 'center' };
+};
+
+// Adds a sheet whose first `fixedHeaders.length` columns are fixed and the rest are softwares
+const addDataSheet = (
+  workbook: Workbook,
+  name: string,
+  fixedHeaders: string[],
+  data: ComparisonData,
+  fixedWidth: number,
+  softwareWidth: number
+): Worksheet => {
+  const sheet = workbook.addWorksheet(name, {
+    views: [{ state: 'frozen', xSplit: 1, ySplit: 1 }],
+  });
+  const header = sheet.addRow([...fixedHeaders, ...data.softwares.map(sw => sw.name)]);
+  header.eachCell((cell, col) => {
+    const sw = data.softwares[col - fixedHeaders.length - 1];
+    styleHeaderCell(cell, sw?.color);
+  });
+  for (let col = 1; col <= fixedHeaders.length + data.softwares.length; col++) {
+    sheet.getColumn(col).width = col <= fixedHeaders.length ? fixedWidth : softwareWidth;
+  }
+  return sheet;
+};
+
+/**
+ * Builds an .xlsx workbook: scores, raw measurements (when present),
+ * descriptions and a metadata sheet. Software colors become header fills.
+ */
+export const buildComparisonWorkbook = async (
+  data: ComparisonData,
+  projectName: string
+): Promise<ArrayBuffer> => {
+  const workbook = await createWorkbook();
+  workbook.created = new Date();
+  const { dimensions, softwares } = data;
+  const categories = data.categories ?? [];
+  const withCategory = categories.length > 0;
+
+  const scoreHeaders = withCategory ? ['Dimension', 'Category', 'Weight'] : ['Dimension', 'Weight'];
+  const scores = addDataSheet(workbook, SHEET_SCORES, scoreHeaders, data, 20, 16);
+  dimensions.forEach(dim => {
+    const row = scores.addRow([
+      dim.name,
+      ...(withCategory ? [resolveCategory(dim, categories)?.name ?? ''] : []),
+      getDimensionWeight(dim),
+      ...softwares.map(sw => sw.scores[dim.id] || 0),
+    ]);
+    row.eachCell((cell, col) => {
+      if (col > scoreHeaders.length) cell.alignment = { horizontal: 'center' };
+    });
+  });
+
+  if (softwares.some(sw => dimensions.some(dim => sw.rawValues?.[dim.id] !== undefined))) {
+    const raw = addDataSheet(workbook, SHEET_RAW, ['Dimension', 'Unit'], data, 20, 16);
+    dimensions.forEach(dim => {
+      if (!softwares.some(sw => sw.rawValues?.[dim.id] !== undefined)) return;
+      raw.addRow([dim.name, dim.unit ?? '', ...softwares.map(sw => sw.rawValues?.[dim.id] ?? null)]);
+    });
+  }
+
+  const descriptions = addDataSheet(workbook, SHEET_DESCRIPTIONS, ['Dimension'], data, 20, 40);
+  dimensions.forEach(dim => {
+    const row = descriptions.addRow([dim.name, ...softwares.map(sw => sw.descriptions[dim.id] || '')]);
+    row.eachCell(cell => {
+      cell.alignment = { wrapText: true, vertical: 'top' };
+    });
+  });
+
+  const metadata = workbook.addWorksheet(SHEET_METADATA);
+  metadata.columns = [{ width: 16 }, { width: 40 }];
+  const metaHeader = metadata.addRow(['Key', 'Value']);
+  metaHeader.eachCell(cell => styleHeaderCell(cell));
+  metadata.addRows([
+    ['Format', PROJECT_FILE_FORMAT],
+    ['Version', PROJECT_FILE_VERSION],
+    ['Project', projectName],
+    ['Exported At', new Date().toISOString()],
+    ['Softwares', softwares.length],
+    ['Dimensions', dimensions.length],
+    ['Categories', categories.length],
+  ]);
+
+  return workbook.xlsx.writeBuffer() as Promise<ArrayBuffer>;
+};
+
+// --- Import ---
+
+const cellText = (cell: Cell): string => {
+  const value = cell.value;
+  if (value === null || value === undefined) return '';
+  if (typeof value === 'object') {
+    if ('richText' in value) return value.richText.map(part => part.text).join('');
+    if ('result' in value) return value.result === undefined ? '' : String(value.result);
+    if ('text' in value) return String(value.text);
+    if (value instanceof Date) return value.toISOString();
+    return '';
+  }
+  return String(value);
+};
+
+const readSheetRows = (sheet: Worksheet): { cells: string[]; rowNumber: number }[] => {
+  const rows: { cells: string[]; rowNumber: number }[] = [];
+  const columnCount = sheet.columnCount;
+  sheet.eachRow({ includeEmpty: false }, (row, rowNumber) => {
+    const cells: string[] = [];
+    for (let c = 1; c <= columnCount; c++) cells.push(cellText(row.getCell(c)));
+    if (cells.some(cell => cell.trim() !== '')) rows.push({ cells, rowNumber });
+  });
+  return rows;
+};
+
+// Where a row of the combined table came from, used to report issues in sheet terms
+interface RowLocation {
+  sheet: string;
+  row: number;
+  mapColumn: (column: number) => number | undefined;
+}
+
+/**
+ * Reads a workbook in the export layout and runs it through the same
+ * validation as CSV import. The sheets are combined into the CSV layout
+ * (Dimension, Type, Category, Weight, softwares...) and issues are mapped back to
+ * the original sheet, row and column.
+ */
+export const readComparisonWorkbook = async (buffer: ArrayBuffer): Promise<ImportReadResult> => {
+  const workbook = await createWorkbook();
+  await workbook.xlsx.load(buffer);
+
+  const extraIssues: ImportIssue[] = [];
+  const scoresSheet = workbook.getWorksheet(SHEET_SCORES) ?? workbook.worksheets[0];
+  if (!scoresSheet) {
+    return { table: null, issues: [{ severity: 'error', row: 1, message: '工作簿中没有工作表' }] };
+  }
+
+  const scoreRows = readSheetRows(scoresSheet);
+  if (scoreRows.length === 0) {
+    return {
+      table: null,
+      issues: [{ severity: 'error', sheet: scoresSheet.name, row: 1, message: '评分工作表为空' }],
+    };
+  }
+
+  const scoreHeader = scoreRows[0].cells;
+  const { category: categoryCol, weight: weightCol, next: swStart } = readOptionalColumns(scoreHeader, 1);
+  const softwareNames = scoreHeader.slice(swStart);
+
+  // Combined layout columns (1-based): Dimension, Type, Category, Weight, softwares from 5
+  const combined: string[][] = [['Dimension', 'Type', 'Category', 'Weight', ...softwareNames]];
+  const locations: RowLocation[] = [{
+    sheet: scoresSheet.name,
+    row: scoreRows[0].rowNumber,
+    mapColumn: (c) => {
+      if (c === 1) return 1;
+      if (c === 3) return categoryCol === undefined ? undefined : categoryCol + 1;
+      if (c === 4) return weightCol === undefined ? undefined : weightCol + 1;
+      return c >= 5 ? c - 4 + swStart : undefined;
+    },
+  }];
+
+  scoreRows.slice(1).forEach(({ cells, rowNumber }) => {
+    combined.push([
+      cells[0],
+      'Score',
+      categoryCol === undefined ? '' : cells[categoryCol],
+      weightCol === undefined ? '' : cells[weightCol],
+      ...cells.slice(swStart),
+    ]);
+    locations.push({ ...locations[0], row: rowNumber });
+  });
+
+  // Raw and description sheets are matched to the score columns by software name
+  const appendSheet = (name: string, type: string, fixedColumns: number) => {
+    const sheet = workbook.getWorksheet(name);
+    if (!sheet) return;
+    const rows = readSheetRows(sheet);
+    if (rows.length === 0) return;
+
+    const header = rows[0].cells.slice(fixedColumns).map(n => n.trim());
+    header.forEach((swName, index) => {
+      if (swName && !softwareNames.some(n => n.trim() === swName)) {
+        extraIssues.push({
+          severity: 'warning',
+          sheet: name,
+          row: rows[0].rowNumber,
+          column: fixedColumns + index + 1,
+          message: `软件「${swName}」不在评分工作表中，该列已忽略`,
+        });
+      }
+    });
+    const sourceIndex = softwareNames.map(n => header.indexOf(n.trim()));
+
+    rows.slice(1).forEach(({ cells, rowNumber }) => {
+      combined.push([cells[0], type, '', '', ...sourceIndex.map(i => (i === -1 ? '' : cells[fixedColumns + i] ?? ''))]);
+      locations.push({
+        sheet: name,
+        row: rowNumber,
+        mapColumn: (c) => {
+          if (c === 1) return 1;
+          const i = sourceIndex[c - 5];
+          return c >= 5 && i !== undefined && i !== -1 ? fixedColumns + i + 1 : undefined;
+        },
+      });
+    });
+  };
+
+  appendSheet(SHEET_RAW, 'Raw', 2);
+  appendSheet(SHEET_DESCRIPTIONS, 'Description', 1);
+
+  const result = readComparisonRows(combined);
+  const issues = result.issues.map((issue) => {
+    const location = locations[issue.row - 1];
+    if (!location) return issue;
+    return {
+      ...issue,
+      sheet: location.sheet,
+      row: location.row,
+      column: issue.column ? location.mapColumn(issue.column) : undefined,
+    };
+  });
+
+  return { table: result.table, issues: [...extraIssues, ...issues] };
+};